@@ -0,0 +1,40 @@
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface BranchSelectorProps {
+  messageId: string;
+  siblingIds: string[]; // Alternatives for this message (including it), oldest first
+  disabled?: boolean;
+  onSelect: (messageId: string) => void;
+}
+
+// "< 2/3 >" switcher between edited prompts or regenerated replies
+export function BranchSelector({ messageId, siblingIds, disabled = false, onSelect }: BranchSelectorProps) {
+  const index = siblingIds.indexOf(messageId);
+  if (siblingIds.length < 2 || index === -1) return null;
+
+  return (
+    <span className="inline-flex items-center gap-0.5 align-middle" data-testid={`branch-selector-${messageId}`}>
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index - 1])}
+        disabled={disabled || index === 0}
+        className="hover:text-foreground disabled:opacity-40 disabled:pointer-events-none"
+        title="Previous branch"
+        data-testid={`button-branch-prev-${messageId}`}
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </button>
+      <span className="tabular-nums">{index + 1}/{siblingIds.length}</span>
+      <button
+        type="button"
+        onClick={() => onSelect(siblingIds[index + 1])}
+        disabled={disabled || index === siblingIds.length - 1}
+        className="hover:text-foreground disabled:opacity-40 disabled:pointer-events-none"
+        title="Next branch"
+        data-testid={`button-branch-next-${messageId}`}
+      >
+        <ChevronRight className="h-3 w-3" />
+      </button>
+    </span>
+  );
+}
@@ -0,0 +1,36 @@
+import { ChevronRight } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface DiffViewProps {
+  title: string;
+  diff: string;
+}
+
+function getLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return "text-muted-foreground";
+  if (line.startsWith('@@')) return "text-blue-500";
+  if (line.startsWith('+')) return "bg-chart-2/15 text-chart-2";
+  if (line.startsWith('-')) return "bg-destructive/15 text-destructive";
+  return "text-muted-foreground";
+}
+
+// Unified diff of a file edit, collapsed to its title until opened
+export function DiffView({ title, diff }: DiffViewProps) {
+  return (
+    <Collapsible className="rounded border border-border text-xs">
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 px-2 py-1 text-left text-muted-foreground hover:text-foreground" data-testid="button-toggle-diff">
+        <ChevronRight className="h-3 w-3 shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+        <span className="truncate">{title}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <pre className="max-h-80 overflow-auto border-t border-border py-1 font-mono text-[11px] leading-relaxed">
+          {diff.split('\n').map((line, idx) => (
+            <div key={idx} className={`px-2 whitespace-pre ${getLineClass(line)}`}>
+              {line || ' '}
+            </div>
+          ))}
+        </pre>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
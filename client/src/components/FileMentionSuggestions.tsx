@@ -0,0 +1,43 @@
+import { FileCode } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FileMentionSuggestionsProps {
+  paths: string[];
+  highlightedIndex: number;
+  onSelect: (path: string) => void;
+}
+
+// Autocomplete list for an "@" file mention in the chat input
+export function FileMentionSuggestions({ paths, highlightedIndex, onSelect }: FileMentionSuggestionsProps) {
+  if (paths.length === 0) return null;
+
+  return (
+    <div className="border-b border-border bg-muted/30 py-1" role="listbox" data-testid="list-file-mentions">
+      {paths.map((path, index) => {
+        const separatorIndex = path.lastIndexOf('/');
+        return (
+          <button
+            key={path}
+            type="button"
+            role="option"
+            aria-selected={index === highlightedIndex}
+            // Keep focus in the textarea
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => onSelect(path)}
+            className={cn(
+              "flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted",
+              index === highlightedIndex && "bg-muted"
+            )}
+            data-testid={`option-file-mention-${path}`}
+          >
+            <FileCode className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+            <span className="font-medium">{path.slice(separatorIndex + 1)}</span>
+            {separatorIndex > 0 && (
+              <span className="truncate text-xs text-muted-foreground">{path.slice(0, separatorIndex)}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,58 @@
+import { Code2 } from "lucide-react";
+
+export interface FileSearchMatch {
+  fileId: string;
+  path: string;
+  line: number;
+  column: number;
+  text: string;
+}
+
+export interface FileSearchResponse {
+  matches: FileSearchMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  truncated: boolean;
+}
+
+interface FileSearchResultsProps {
+  results: FileSearchResponse;
+  onOpen: (match: FileSearchMatch) => void;
+}
+
+// Content search matches grouped by file; clicking a line opens it in the editor
+export function FileSearchResults({ results, onOpen }: FileSearchResultsProps) {
+  const groups = new Map<string, FileSearchMatch[]>();
+  for (const match of results.matches) {
+    groups.set(match.path, [...(groups.get(match.path) || []), match]);
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {results.matches.length}{results.truncated ? '+' : ''} matches in {results.filesMatched} of {results.filesSearched} files
+      </p>
+      {Array.from(groups.entries()).map(([path, matches]) => (
+        <div key={path} className="rounded-lg border border-border overflow-hidden">
+          <div className="flex items-center gap-2 px-3 py-2 bg-muted/50 border-b border-border">
+            <Code2 className="h-4 w-4 text-muted-foreground shrink-0" />
+            <span className="font-mono text-xs sm:text-sm truncate">{path}</span>
+            <span className="text-xs text-muted-foreground shrink-0">{matches.length}</span>
+          </div>
+          {matches.map(match => (
+            <button
+              key={`${match.line}:${match.column}`}
+              type="button"
+              onClick={() => onOpen(match)}
+              className="flex w-full gap-3 px-3 py-1 text-left font-mono text-xs hover:bg-muted"
+              data-testid={`search-match-${match.fileId}-${match.line}`}
+            >
+              <span className="w-10 shrink-0 text-right text-muted-foreground">{match.line}</span>
+              <span className="truncate whitespace-pre">{match.text}</span>
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { FileText, FileArchive, File as FileIcon } from "lucide-react";
+import type { FileAttachment, MessageAttachment } from "@shared/schema";
+
+interface MessageAttachmentsProps {
+  attachments: MessageAttachment[];
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function getFileIcon(kind: FileAttachment['kind']) {
+  if (kind === 'zip') return <FileArchive className="h-4 w-4 shrink-0" />;
+  if (kind === 'pdf') return <FileIcon className="h-4 w-4 shrink-0" />;
+  return <FileText className="h-4 w-4 shrink-0" />;
+}
+
+// Images inline, other files as links (plain URL strings are images)
+export function MessageAttachments({ attachments }: MessageAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {attachments.map((attachment, idx) => typeof attachment === 'string' ? (
+        <img
+          key={idx}
+          src={attachment}
+          alt={`Attachment ${idx + 1}`}
+          className="max-w-xs rounded border border-border"
+        />
+      ) : (
+        <a
+          key={idx}
+          href={attachment.url}
+          target="_blank"
+          rel="noreferrer"
+          className="flex items-center gap-2 rounded border border-border px-2 py-1.5 text-xs hover:underline max-w-full"
+          title={attachment.extractedTo !== undefined
+            ? `Extracted into ${attachment.extractedTo || 'the project root'}`
+            : attachment.name}
+          data-testid={`link-attachment-${idx}`}
+        >
+          {getFileIcon(attachment.kind)}
+          <span className="truncate">{attachment.name}</span>
+          <span className="opacity-70 shrink-0">{formatFileSize(attachment.size)}</span>
+        </a>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { ClipboardList, Check, X, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { ActionSteps } from "@/components/ActionSteps";
+
+type StepStatus = 'pending' | 'in_progress' | 'completed' | 'error';
+
+export interface PlanStep {
+  title: string;
+  description?: string;
+  files?: string[];
+  commands?: string[];
+  packages?: string[];
+  status?: StepStatus;
+}
+
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  status: 'proposed' | 'approved' | 'rejected' | 'completed';
+}
+
+interface PlanCardProps {
+  plan: Plan;
+  liveStatuses?: Array<StepStatus | undefined>; // Step progress streamed while the plan runs
+  disabled?: boolean;
+  onApprove: (steps?: PlanStep[]) => void;
+  onReject: () => void;
+  onRun: () => void;
+}
+
+const STATUS_LABELS: Record<Plan['status'], string> = {
+  proposed: "Awaiting approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  completed: "Completed",
+};
+
+export function PlanCard({ plan, liveStatuses, disabled = false, onApprove, onReject, onRun }: PlanCardProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftSteps, setDraftSteps] = useState<PlanStep[]>(plan.steps);
+
+  const statusOf = (index: number) => liveStatuses?.[index] || plan.steps[index].status || 'pending';
+
+  const updateDraftStep = (index: number, changes: Partial<PlanStep>) => {
+    setDraftSteps(steps => steps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const startEditing = () => {
+    setDraftSteps(plan.steps);
+    setIsEditing(true);
+  };
+
+  const saveAndApprove = () => {
+    const steps = draftSteps.filter(step => step.title.trim());
+    if (steps.length === 0) return;
+    setIsEditing(false);
+    onApprove(steps);
+  };
+
+  return (
+    <Card className="p-3 sm:p-4 space-y-3 bg-muted/30 border-primary/20" data-testid="card-plan">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <ClipboardList className="h-4 w-4 text-primary" />
+          <span className="text-sm font-semibold">Plan</span>
+        </div>
+        <Badge variant={plan.status === 'rejected' ? 'outline' : 'secondary'} className="text-[10px] sm:text-xs">
+          {STATUS_LABELS[plan.status]}
+        </Badge>
+      </div>
+
+      {plan.summary && <p className="text-sm text-muted-foreground">{plan.summary}</p>}
+
+      {isEditing ? (
+        <div className="space-y-3">
+          {draftSteps.map((step, index) => (
+            <div key={index} className="flex gap-2 items-start">
+              <span className="text-xs text-muted-foreground pt-2.5 w-5 shrink-0">{index + 1}.</span>
+              <div className="flex-1 space-y-1.5">
+                <Input
+                  value={step.title}
+                  onChange={(e) => updateDraftStep(index, { title: e.target.value })}
+                  placeholder="Step title"
+                  className="h-8 text-sm"
+                  data-testid={`input-plan-step-${index}`}
+                />
+                <Textarea
+                  value={step.description || ""}
+                  onChange={(e) => updateDraftStep(index, { description: e.target.value })}
+                  placeholder="Details (optional)"
+                  rows={2}
+                  className="text-xs"
+                />
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={() => setDraftSteps(steps => steps.filter((_, i) => i !== index))}
+                title="Remove step"
+              >
+                <Trash2 className="h-4 w-4 text-destructive" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setDraftSteps(steps => [...steps, { title: "" }])}
+            data-testid="button-add-plan-step"
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add step
+          </Button>
+        </div>
+      ) : (
+        <ol className="space-y-2">
+          {plan.steps.map((step, index) => (
+            <li key={index} className="space-y-0.5" data-testid={`plan-step-${index}`}>
+              <ActionSteps actions={[{ description: `${index + 1}. ${step.title}`, status: statusOf(index) }]} />
+              {step.description && (
+                <p className="text-xs text-muted-foreground pl-6">{step.description}</p>
+              )}
+              {[
+                ...(step.files || []).map(file => `file: ${file}`),
+                ...(step.commands || []).map(command => `$ ${command}`),
+                ...(step.packages || []).map(pkg => `package: ${pkg}`),
+              ].map((detail, i) => (
+                <p key={i} className="text-[10px] sm:text-xs font-mono text-muted-foreground pl-6 break-all">{detail}</p>
+              ))}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {plan.status === 'proposed' && (
+        <div className="flex flex-wrap gap-2">
+          {isEditing ? (
+            <>
+              <Button size="sm" onClick={saveAndApprove} disabled={disabled} data-testid="button-save-approve-plan">
+                <Check className="h-3 w-3 mr-1" />
+                Save & approve
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button size="sm" onClick={() => onApprove()} disabled={disabled} data-testid="button-approve-plan">
+                <Check className="h-3 w-3 mr-1" />
+                Approve & run
+              </Button>
+              <Button size="sm" variant="outline" onClick={startEditing} disabled={disabled} data-testid="button-edit-plan">
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+              <Button size="sm" variant="ghost" onClick={onReject} disabled={disabled} data-testid="button-reject-plan">
+                <X className="h-3 w-3 mr-1" />
+                Reject
+              </Button>
+            </>
+          )}
+        </div>
+      )}
+
+      {plan.status === 'approved' && !liveStatuses && (
+        <Button size="sm" variant="outline" onClick={onRun} disabled={disabled} data-testid="button-run-plan">
+          <Play className="h-3 w-3 mr-1" />
+          Run plan
+        </Button>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Square } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { auth } from "@/lib/firebase";
+import { cn } from "@/lib/utils";
+import type { ProcessLogEvent, ProcessLogLine, SandboxProcessInfo } from "@shared/schema";
+
+// Lines kept per process in the viewer
+const MAX_LINES = 2000;
+const RECONNECT_DELAY_MS = 3000;
+
+type ProcessWithLines = SandboxProcessInfo & { lines: ProcessLogLine[] };
+
+interface ProcessLogsPanelProps {
+  projectId: string;
+}
+
+// Apply one stream event to the processes shown, newest first
+function applyEvent(processes: ProcessWithLines[], event: ProcessLogEvent): ProcessWithLines[] {
+  if (event.type === 'snapshot') {
+    return [...event.processes].reverse();
+  }
+  if (event.type === 'process') {
+    const existing = processes.find(p => p.id === event.process.id);
+    return existing
+      ? processes.map(p => p.id === event.process.id ? { ...p, ...event.process } : p)
+      : [{ ...event.process, lines: [] }, ...processes];
+  }
+  return processes.map(p => p.id === event.processId ? { ...p, lines: [...p.lines, ...event.lines].slice(-MAX_LINES) } : p);
+}
+
+function getStatusLabel(process: SandboxProcessInfo): string {
+  if (process.status === 'running') return 'running';
+  if (process.status === 'killed') return 'stopped';
+  return `exit ${process.exitCode}`;
+}
+
+// Live output of the sandbox's background processes (dev server, workflow, agent commands)
+export function ProcessLogsPanel({ projectId }: ProcessLogsPanelProps) {
+  const { toast } = useToast();
+  const [processes, setProcesses] = useState<ProcessWithLines[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [connected, setConnected] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottomRef = useRef(true);
+
+  // Follow the log stream, reconnecting when the connection drops
+  useEffect(() => {
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const connect = async () => {
+      try {
+        const idToken = await auth.currentUser?.getIdToken();
+        const response = await fetch(`/api/sandbox/${projectId}/logs/stream`, {
+          headers: { "Authorization": `Bearer ${idToken}` },
+          signal: controller.signal,
+        });
+        const reader = response.body?.getReader();
+        if (!response.ok || !reader) {
+          throw new Error("Failed to connect to the log stream");
+        }
+        setConnected(true);
+
+        // Events can be split across reads, so only parse complete "\n\n"-terminated events
+        const decoder = new TextDecoder();
+        let buffer = "";
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const rawEvents = buffer.split('\n\n');
+          buffer = rawEvents.pop() || "";
+
+          for (const rawEvent of rawEvents) {
+            const dataLine = rawEvent.split('\n').find(line => line.startsWith('data: '));
+            if (!dataLine) continue;
+            const event: ProcessLogEvent = JSON.parse(dataLine.slice(6));
+            setProcesses(prev => applyEvent(prev, event));
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error('Log stream error:', error);
+      }
+
+      setConnected(false);
+      if (!controller.signal.aborted) {
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+      }
+    };
+
+    connect();
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, [projectId]);
+
+  // Default to the newest running process (or the newest one) until the user picks another
+  const selected = processes.find(p => p.id === selectedId)
+    || processes.find(p => p.status === 'running')
+    || processes[0];
+
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (element && stickToBottomRef.current) {
+      element.scrollTop = element.scrollHeight;
+    }
+  }, [selected?.lines.length, selected?.id]);
+
+  const stopMutation = useMutation({
+    mutationFn: async (processId: string) => {
+      return await apiRequest("POST", `/api/sandbox/${projectId}/processes/${processId}/stop`, {});
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to stop process", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex flex-col h-full min-h-0 bg-[#0a0a0a] text-[#e5e5e5]" data-testid="panel-process-logs">
+      <div className="flex items-center gap-2 px-2 py-1.5 border-b border-border bg-background text-foreground">
+        {processes.length > 0 ? (
+          <Select value={selected?.id} onValueChange={setSelectedId}>
+            <SelectTrigger className="h-7 flex-1 min-w-0 text-xs font-mono" data-testid="select-process">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {processes.map(process => (
+                <SelectItem key={process.id} value={process.id} className="text-xs font-mono">
+                  {process.command} ({getStatusLabel(process)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <span className="flex-1 text-xs text-muted-foreground">
+            {connected ? "No processes yet - run the workflow or ask the agent to start the app" : "Connecting..."}
+          </span>
+        )}
+        {selected && (
+          <span className={cn(
+            "text-[10px] shrink-0",
+            selected.status === 'running' ? "text-chart-2" : selected.status === 'failed' ? "text-destructive" : "text-muted-foreground"
+          )}>
+            {getStatusLabel(selected)}
+          </span>
+        )}
+        {selected?.status === 'running' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => stopMutation.mutate(selected.id)}
+            disabled={stopMutation.isPending}
+            className="h-7 w-7 p-0"
+            title="Stop process"
+            data-testid="button-stop-process"
+          >
+            {stopMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : <Square className="h-3 w-3" />}
+          </Button>
+        )}
+      </div>
+      <div
+        ref={scrollRef}
+        onScroll={(e) => {
+          const element = e.currentTarget;
+          stickToBottomRef.current = element.scrollHeight - element.scrollTop - element.clientHeight < 24;
+        }}
+        className="flex-1 min-h-0 overflow-auto px-2 py-1 font-mono text-[11px] leading-relaxed"
+        data-testid="text-process-logs"
+      >
+        {selected?.lines.map(line => (
+          <div key={line.seq} className={cn("whitespace-pre-wrap break-all", line.stream === 'stderr' && "text-[#f87171]")}>
+            {line.text || ' '}
+          </div>
+        ))}
+        {selected?.error && <div className="text-[#f87171]">{selected.error}</div>}
+      </div>
+    </div>
+  );
+}
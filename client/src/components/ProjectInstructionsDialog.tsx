@@ -0,0 +1,107 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Keep in sync with MAX_INSTRUCTIONS_CHARS in server/lib/instructions.ts
+const MAX_INSTRUCTIONS_CHARS = 10000;
+
+interface ProjectInstructionsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ProjectInstructionsDialog({ projectId, open, onOpenChange }: ProjectInstructionsDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const { data } = useQuery<{ instructions: string }>({
+    queryKey: ["/api/projects", projectId, "instructions"],
+    enabled: open,
+  });
+
+  // Start each edit from the saved instructions (the agent may have changed them)
+  useEffect(() => {
+    if (open && data) {
+      setDraft(data.instructions);
+    }
+  }, [open, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (instructions: string) => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/instructions`, { instructions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "instructions"] });
+      onOpenChange(false);
+      toast({ title: "Project instructions saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save project instructions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isTooLong = (draft?.length || 0) > MAX_INSTRUCTIONS_CHARS;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Project instructions</DialogTitle>
+          <DialogDescription>
+            Conventions and preferences the agent follows on every run, such as the stack, preferred libraries or folders to leave alone. The agent can also update these when you ask it to remember something.
+          </DialogDescription>
+        </DialogHeader>
+
+        {draft === null ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-1">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              placeholder={"- Use Tailwind CSS for styling\n- Don't modify anything in server/legacy/\n- Prefer date-fns over moment"}
+              className="min-h-[280px] font-mono text-sm"
+              data-testid="input-project-instructions"
+            />
+            <p className={isTooLong ? "text-xs text-destructive" : "text-xs text-muted-foreground"}>
+              {draft.length.toLocaleString()} / {MAX_INSTRUCTIONS_CHARS.toLocaleString()} characters
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => draft !== null && saveMutation.mutate(draft)}
+            disabled={draft === null || isTooLong || saveMutation.isPending}
+            data-testid="button-save-project-instructions"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
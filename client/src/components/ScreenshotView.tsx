@@ -0,0 +1,25 @@
+import { Camera } from "lucide-react";
+
+interface ScreenshotViewProps {
+  title: string;
+  url: string;
+}
+
+// Preview screenshot the agent took; opens full size in a new tab
+export function ScreenshotView({ title, url }: ScreenshotViewProps) {
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="block max-w-sm rounded border border-border text-xs overflow-hidden hover:border-foreground/30"
+      data-testid="link-screenshot"
+    >
+      <div className="flex items-center gap-1.5 px-2 py-1 text-muted-foreground">
+        <Camera className="h-3 w-3 shrink-0" />
+        <span className="truncate">{title}</span>
+      </div>
+      <img src={url} alt={title} loading="lazy" className="w-full border-t border-border bg-muted" />
+    </a>
+  );
+}
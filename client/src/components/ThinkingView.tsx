@@ -0,0 +1,27 @@
+import { Brain, ChevronRight } from "lucide-react";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+interface ThinkingViewProps {
+  thinking: string;
+}
+
+// Saved extended thinking of a reply, collapsed until opened
+export function ThinkingView({ thinking }: ThinkingViewProps) {
+  const words = thinking.split(/\s+/).filter(Boolean).length;
+
+  return (
+    <Collapsible className="rounded border border-primary/20 bg-muted/30 text-xs" data-testid="panel-thinking">
+      <CollapsibleTrigger className="group flex w-full items-center gap-1.5 px-2 py-1.5 text-left text-muted-foreground hover:text-foreground" data-testid="button-toggle-thinking">
+        <ChevronRight className="h-3 w-3 shrink-0 transition-transform group-data-[state=open]:rotate-90" />
+        <Brain className="h-3.5 w-3.5 shrink-0 text-primary" />
+        <span className="font-semibold text-primary">Extended Thinking</span>
+        <span className="truncate">{words} {words === 1 ? 'word' : 'words'}</span>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="max-h-96 overflow-auto border-t border-primary/20 px-3 py-2 text-sm text-muted-foreground whitespace-pre-wrap break-words">
+          {thinking}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Plus, Pencil, Archive, ArchiveRestore, Loader2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { Thread } from "@shared/schema";
+
+interface ThreadSwitcherProps {
+  projectId: string;
+  threads: Thread[];
+  activeThreadId: string;
+  disabled?: boolean;
+  onSelect: (threadId: string) => void;
+}
+
+export function ThreadSwitcher({ projectId, threads, activeThreadId, disabled = false, onSelect }: ThreadSwitcherProps) {
+  const { toast } = useToast();
+  const [renameTitle, setRenameTitle] = useState<string | null>(null);
+
+  const activeThread = threads.find(thread => thread.id === activeThreadId);
+  const openThreads = threads.filter(thread => !thread.archivedAt);
+  const archivedThreads = threads.filter(thread => thread.archivedAt);
+
+  const invalidateThreads = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "threads"] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (): Promise<Thread> => {
+      return await apiRequest("POST", `/api/projects/${projectId}/threads`, {});
+    },
+    onSuccess: (thread) => {
+      invalidateThreads();
+      onSelect(thread.id);
+    },
+    onError: showError("Failed to create thread"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (changes: { title?: string; archived?: boolean }): Promise<Thread> => {
+      return await apiRequest("PATCH", `/api/threads/${activeThreadId}`, changes);
+    },
+    onSuccess: (thread) => {
+      invalidateThreads();
+      setRenameTitle(null);
+      // Move off a thread once it is archived
+      if (thread.archivedAt) {
+        const next = openThreads.find(t => t.id !== thread.id);
+        if (next) {
+          onSelect(next.id);
+        }
+      }
+    },
+    onError: showError("Failed to update thread"),
+  });
+
+  const isBusy = disabled || createMutation.isPending || updateMutation.isPending;
+
+  return (
+    <div className="flex items-center gap-1.5 min-w-0">
+      <Select value={activeThreadId} onValueChange={onSelect} disabled={disabled}>
+        <SelectTrigger className="h-8 w-[180px] sm:w-[260px] text-xs sm:text-sm" data-testid="select-thread">
+          <SelectValue placeholder="Thread" />
+        </SelectTrigger>
+        <SelectContent>
+          {openThreads.map(thread => (
+            <SelectItem key={thread.id} value={thread.id}>{thread.title}</SelectItem>
+          ))}
+          {archivedThreads.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Archived</SelectLabel>
+              {archivedThreads.map(thread => (
+                <SelectItem key={thread.id} value={thread.id} className="text-muted-foreground">{thread.title}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={() => createMutation.mutate()}
+        disabled={isBusy}
+        title="New thread"
+        data-testid="button-new-thread"
+      >
+        {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+      </Button>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0"
+        onClick={() => setRenameTitle(activeThread?.title || "")}
+        disabled={isBusy || !activeThread}
+        title="Rename thread"
+        data-testid="button-rename-thread"
+      >
+        <Pencil className="h-4 w-4" />
+      </Button>
+      {activeThread?.archivedAt ? (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => updateMutation.mutate({ archived: false })}
+          disabled={isBusy}
+          title="Unarchive thread"
+          data-testid="button-unarchive-thread"
+        >
+          <ArchiveRestore className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8 shrink-0"
+          onClick={() => updateMutation.mutate({ archived: true })}
+          disabled={isBusy || openThreads.length < 2}
+          title={openThreads.length < 2 ? "Create another thread before archiving this one" : "Archive thread"}
+          data-testid="button-archive-thread"
+        >
+          <Archive className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Dialog open={renameTitle !== null} onOpenChange={(open) => !open && setRenameTitle(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename thread</DialogTitle>
+          </DialogHeader>
+          <Input
+            value={renameTitle || ""}
+            onChange={(e) => setRenameTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && renameTitle?.trim()) {
+                updateMutation.mutate({ title: renameTitle });
+              }
+            }}
+            maxLength={60}
+            autoFocus
+            data-testid="input-thread-title"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenameTitle(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate({ title: renameTitle || "" })}
+              disabled={!renameTitle?.trim() || updateMutation.isPending}
+              data-testid="button-save-thread-title"
+            >
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { ShieldAlert, Check, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+
+export interface ToolApproval {
+  approvalId: string;
+  toolName: string;
+  arguments: Record<string, any>;
+  reason: string;
+}
+
+interface ToolApprovalCardProps {
+  approval: ToolApproval;
+  disabled?: boolean;
+  onRespond: (approved: boolean) => void;
+}
+
+// What the tool call would do, e.g. the shell command or the file path
+function describeTarget(approval: ToolApproval): string | null {
+  const args = approval.arguments || {};
+  if (typeof args.command === 'string') return `$ ${args.command}`;
+  if (typeof args.path === 'string') return args.path;
+  return null;
+}
+
+export function ToolApprovalCard({ approval, disabled = false, onRespond }: ToolApprovalCardProps) {
+  const target = describeTarget(approval);
+
+  return (
+    <Card className="p-3 sm:p-4 space-y-2 border-chart-4/50 bg-chart-4/5" data-testid={`card-tool-approval-${approval.approvalId}`}>
+      <div className="flex items-center gap-2">
+        <ShieldAlert className="h-4 w-4 text-chart-4 shrink-0" />
+        <span className="text-sm font-semibold">Approve {approval.toolName}?</span>
+      </div>
+      <p className="text-xs text-muted-foreground">{approval.reason}. The agent is paused until you respond.</p>
+      {target && (
+        <pre className="text-[10px] sm:text-xs font-mono bg-muted/50 rounded px-2 py-1.5 whitespace-pre-wrap break-all">{target}</pre>
+      )}
+      <div className="flex gap-2">
+        <Button size="sm" onClick={() => onRespond(true)} disabled={disabled} data-testid="button-approve-tool">
+          <Check className="h-3 w-3 mr-1" />
+          Approve
+        </Button>
+        <Button size="sm" variant="outline" onClick={() => onRespond(false)} disabled={disabled} data-testid="button-reject-tool">
+          <X className="h-3 w-3 mr-1" />
+          Reject
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Plus, Trash2, Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ToolPolicy, ToolPolicyAction } from "@shared/schema";
+
+interface ToolPolicyResponse {
+  policy: ToolPolicy;
+  tools: Array<{ name: string; description: string }>;
+}
+
+interface ToolPolicyDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ACTION_LABELS: Record<ToolPolicyAction, string> = {
+  allow: "Auto-approve",
+  ask: "Ask",
+  deny: "Deny",
+};
+
+function ActionSelect({ value, onChange, testId }: { value: ToolPolicyAction; onChange: (value: ToolPolicyAction) => void; testId?: string }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as ToolPolicyAction)}>
+      <SelectTrigger className="h-8 w-[130px] shrink-0 text-xs" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(ACTION_LABELS) as ToolPolicyAction[]).map(action => (
+          <SelectItem key={action} value={action}>{ACTION_LABELS[action]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function ToolPolicyDialog({ projectId, open, onOpenChange }: ToolPolicyDialogProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ToolPolicy | null>(null);
+
+  const { data } = useQuery<ToolPolicyResponse>({
+    queryKey: ["/api/projects", projectId, "tool-policy"],
+    enabled: open,
+  });
+
+  // Start each edit from the saved policy
+  useEffect(() => {
+    if (open && data) {
+      setDraft(data.policy);
+    }
+  }, [open, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (policy: ToolPolicy) => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/tool-policy`, { policy });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "tool-policy"] });
+      onOpenChange(false);
+      toast({ title: "Tool permissions saved" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save tool permissions",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const setToolAction = (name: string, action: ToolPolicyAction) => {
+    setDraft(policy => policy && { ...policy, tools: { ...policy.tools, [name]: action } });
+  };
+
+  const updateRule = (index: number, changes: Partial<ToolPolicy['commands'][number]>) => {
+    setDraft(policy => policy && {
+      ...policy,
+      commands: policy.commands.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)),
+    });
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    saveMutation.mutate({ ...draft, commands: draft.commands.filter(rule => rule.pattern.trim()) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Tool permissions</DialogTitle>
+          <DialogDescription>
+            Choose which agent actions run automatically, which pause for your approval and which are blocked.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!draft || !data ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-5 py-2">
+            <div className="space-y-2">
+              <Label>Tools</Label>
+              {data.tools.map(tool => (
+                <div key={tool.name} className="flex items-center justify-between gap-3">
+                  <span className="text-sm font-mono truncate" title={tool.description}>{tool.name}</span>
+                  <ActionSelect
+                    value={draft.tools[tool.name] || 'allow'}
+                    onChange={(action) => setToolAction(tool.name, action)}
+                    testId={`select-tool-policy-${tool.name}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Shell commands</Label>
+              <p className="text-xs text-muted-foreground">
+                Rules match the start of a command, e.g. "git push" or "rm -rf", including commands started from run_code; use * as a wildcard. The strictest matching rule applies.
+              </p>
+              {draft.commands.map((rule, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={rule.pattern}
+                    onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                    placeholder="Command pattern"
+                    className="h-8 text-sm font-mono"
+                    data-testid={`input-command-rule-${index}`}
+                  />
+                  <ActionSelect value={rule.action} onChange={(action) => updateRule(index, { action })} />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => setDraft(policy => policy && { ...policy, commands: policy.commands.filter((_, i) => i !== index) })}
+                    title="Remove rule"
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft(policy => policy && { ...policy, commands: [...policy.commands, { pattern: "", action: 'ask' }] })}
+                data-testid="button-add-command-rule"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add rule
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!draft || saveMutation.isPending} data-testid="button-save-tool-policy">
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
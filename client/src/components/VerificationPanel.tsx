@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { CheckCircle2, XCircle, AlertTriangle, Loader2, ChevronRight } from "lucide-react";
+import type { VerificationResult } from "@shared/schema";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+
+// A check in progress, before its result arrives
+export interface RunningVerification {
+  status: 'running';
+  command: string;
+  attempt: number;
+}
+
+interface VerificationPanelProps {
+  verification: VerificationResult | RunningVerification;
+}
+
+function getHeadline(verification: VerificationResult | RunningVerification): string {
+  const attempt = verification.attempt > 1 ? ` (fix attempt ${verification.attempt - 1})` : '';
+  if (verification.status === 'running') return `Verifying: ${verification.command}${attempt}`;
+  if (verification.status === 'passed') return `Verification passed${attempt}`;
+  if (verification.status === 'error') return `Verification could not run`;
+
+  const errorCount = verification.diagnostics.filter(d => d.severity === 'error').length;
+  const problems = errorCount > 0 ? `${errorCount} ${errorCount === 1 ? 'error' : 'errors'}` : `exit code ${verification.exitCode}`;
+  return `Verification failed: ${problems}${attempt}${verification.willRetry ? ' - agent is fixing' : ''}`;
+}
+
+// Status of the check run after the agent's edits, with its diagnostics when it failed
+export function VerificationPanel({ verification }: VerificationPanelProps) {
+  const [open, setOpen] = useState(false);
+  const isRunning = verification.status === 'running';
+  const result = isRunning ? null : verification;
+  const hasDetails = !!result && (result.diagnostics.length > 0 || (result.status !== 'passed' && !!result.output));
+
+  const icon = isRunning ? <Loader2 className="h-3.5 w-3.5 animate-spin text-blue-500" />
+    : verification.status === 'passed' ? <CheckCircle2 className="h-3.5 w-3.5 text-chart-2" />
+    : verification.status === 'error' ? <AlertTriangle className="h-3.5 w-3.5 text-yellow-500" />
+    : <XCircle className="h-3.5 w-3.5 text-destructive" />;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded border border-border text-xs" data-testid="panel-verification">
+      <CollapsibleTrigger
+        disabled={!hasDetails}
+        className="group flex w-full items-center gap-1.5 px-2 py-1.5 text-left disabled:cursor-default"
+        data-testid="button-toggle-verification"
+      >
+        {icon}
+        <span className="truncate flex-1">{getHeadline(verification)}</span>
+        {result && <span className="text-muted-foreground shrink-0">{(result.durationMs / 1000).toFixed(1)}s</span>}
+        {hasDetails && <ChevronRight className="h-3 w-3 shrink-0 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />}
+      </CollapsibleTrigger>
+      {result && (
+        <CollapsibleContent>
+          <div className="border-t border-border px-2 py-1.5 space-y-1 max-h-72 overflow-auto">
+            <p className="font-mono text-muted-foreground">$ {result.command}</p>
+            {result.diagnostics.length > 0 ? (
+              result.diagnostics.map((diagnostic, idx) => (
+                <div key={idx} className="flex gap-2 font-mono text-[11px]">
+                  <span className={diagnostic.severity === 'error' ? "text-destructive shrink-0" : "text-yellow-500 shrink-0"}>
+                    {diagnostic.severity === 'error' ? 'error' : 'warn'}
+                  </span>
+                  <span className="text-muted-foreground shrink-0">
+                    {diagnostic.path}{diagnostic.line ? `:${diagnostic.line}:${diagnostic.column ?? 1}` : ''}
+                  </span>
+                  <span className="break-words min-w-0">{diagnostic.message}{diagnostic.code ? ` (${diagnostic.code})` : ''}</span>
+                </div>
+              ))
+            ) : (
+              <pre className="font-mono text-[11px] whitespace-pre-wrap break-words text-muted-foreground">{result.output}</pre>
+            )}
+          </div>
+        </CollapsibleContent>
+      )}
+    </Collapsible>
+  );
+}
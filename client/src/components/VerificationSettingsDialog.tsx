@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface VerificationSettings {
+  command: string | null;
+  suggested: string | null;
+}
+
+interface VerificationSettingsDialogProps {
+  projectId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VerificationSettingsDialog({ projectId, open, onOpenChange }: VerificationSettingsDialogProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [command, setCommand] = useState("");
+
+  const { data } = useQuery<VerificationSettings>({
+    queryKey: ["/api/projects", projectId, "verification"],
+    enabled: open,
+  });
+
+  useEffect(() => {
+    if (open && data) {
+      setEnabled(!!data.command);
+      setCommand(data.command || data.suggested || "npx tsc --noEmit");
+    }
+  }, [open, data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", `/api/projects/${projectId}/verification`, { command: enabled ? command : null });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "verification"] });
+      onOpenChange(false);
+      toast({ title: enabled ? "Verification turned on" : "Verification turned off" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to save verification settings",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Verify agent changes</DialogTitle>
+          <DialogDescription>
+            After the agent edits files, run a type-check, lint or build in the sandbox. Errors are sent back to the agent to fix, a limited number of times per run.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!data ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="verification-enabled">Verify after edits</Label>
+              <Switch
+                id="verification-enabled"
+                checked={enabled}
+                onCheckedChange={setEnabled}
+                data-testid="switch-verification"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="verification-command">Command</Label>
+              <Input
+                id="verification-command"
+                value={command}
+                onChange={(e) => setCommand(e.target.value)}
+                disabled={!enabled}
+                className="font-mono text-sm"
+                data-testid="input-verification-command"
+              />
+              {data.suggested && data.suggested !== command && (
+                <button
+                  type="button"
+                  className="text-xs text-muted-foreground hover:underline"
+                  onClick={() => setCommand(data.suggested!)}
+                  disabled={!enabled}
+                >
+                  Use <span className="font-mono">{data.suggested}</span> from this project
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => saveMutation.mutate()}
+            disabled={!data || (enabled && !command.trim()) || saveMutation.isPending}
+            data-testid="button-save-verification"
+          >
+            {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
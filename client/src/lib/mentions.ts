@@ -0,0 +1,45 @@
+// "@path" file mentions in the chat input. The server pins mentioned files into the prompt
+// (server/lib/mentions.ts), so the pattern here must match what it recognizes.
+
+export interface MentionQuery {
+  start: number; // Index of the "@"
+  query: string; // Text typed after the "@" so far
+}
+
+const MAX_SUGGESTIONS = 8;
+
+// The mention being typed at the caret, if any
+export function findMentionQuery(text: string, caret: number): MentionQuery | null {
+  const match = /(?:^|[\s(\[])@([\w./-]*)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[1].length - 1, query: match[1] };
+}
+
+// Replace the typed mention with the chosen path; returns the new text and caret position
+export function insertMention(text: string, mention: MentionQuery, path: string): { text: string; caret: number } {
+  const end = mention.start + 1 + mention.query.length;
+  const inserted = `@${path} `;
+  return {
+    text: text.slice(0, mention.start) + inserted + text.slice(end).replace(/^ /, ''),
+    caret: mention.start + inserted.length,
+  };
+}
+
+// Paths matching the query: file name prefix matches first, then any path containing it
+export function suggestMentionPaths(paths: string[], query: string): string[] {
+  const needle = query.toLowerCase();
+  const rank = (path: string) => {
+    const lower = path.toLowerCase();
+    const name = lower.slice(lower.lastIndexOf('/') + 1);
+    if (name.startsWith(needle)) return 0;
+    if (lower.startsWith(needle)) return 1;
+    return lower.includes(needle) ? 2 : -1;
+  };
+
+  return paths
+    .map(path => ({ path, rank: rank(path) }))
+    .filter(item => item.rank !== -1)
+    .sort((a, b) => a.rank - b.rank || a.path.length - b.path.length || a.path.localeCompare(b.path))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(item => item.path);
+}
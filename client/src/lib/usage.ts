@@ -0,0 +1,40 @@
+import type { UsageTotals } from "@shared/schema";
+
+export interface ProjectUsage {
+  totals: UsageTotals;
+  models: Array<UsageTotals & { provider: string; model: string }>;
+  messages: Array<UsageTotals & { messageId: string | null }>;
+}
+
+export interface UserUsage {
+  totals: UsageTotals;
+  projects: Array<UsageTotals & { projectId: string | null }>;
+}
+
+// Input (including cache reads/writes) plus output tokens
+export function totalTokens(usage: Pick<UsageTotals, "inputTokens" | "outputTokens" | "cacheReadTokens" | "cacheWriteTokens">): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheReadTokens + usage.cacheWriteTokens;
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return `${tokens}`;
+}
+
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) return "$0";
+  if (costUsd < 0.01) return "<$0.01";
+  return `$${costUsd.toFixed(2)}`;
+}
+
+// Tooltip text with the full token breakdown
+export function describeUsage(usage: Omit<UsageTotals, "requests">): string {
+  return [
+    `Input: ${usage.inputTokens.toLocaleString()}`,
+    `Output: ${usage.outputTokens.toLocaleString()} (thinking: ${usage.thinkingTokens.toLocaleString()})`,
+    `Cache read: ${usage.cacheReadTokens.toLocaleString()}`,
+    `Cache write: ${usage.cacheWriteTokens.toLocaleString()}`,
+    `Cost: $${usage.costUsd.toFixed(4)}`,
+  ].join('\n');
+}
@@ -1,27 +1,65 @@
 import { useState, useRef, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { Send, Bot, User as UserIcon, Loader2, Wrench, FileCode, Terminal, Play, Copy, Check, Sparkles, Image as ImageIcon, X, MessageSquare, Brain } from "lucide-react";
+import { Send, Bot, User as UserIcon, Loader2, Wrench, FileCode, Terminal, Play, Copy, Check, Sparkles, X, MessageSquare, Brain, Square, Ban, ClipboardList, ClipboardCheck, ShieldCheck, RotateCcw, Pencil, RefreshCw, Paperclip, FileText, BookOpen, Camera, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Toggle } from "@/components/ui/toggle";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { queryClient } from "@/lib/queryClient";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { auth } from "@/lib/firebase";
-import type { Message } from "@shared/schema";
+import type { BranchMessage, File as ProjectFile, MessageAttachment, Project, Thread, UsageTotals, VerificationResult } from "@shared/schema";
 import { cn } from "@/lib/utils";
 import { formatDistanceToNow } from "date-fns";
 import { ActionSteps } from "@/components/ActionSteps";
+import { PlanCard, type Plan, type PlanStep } from "@/components/PlanCard";
+import { ToolApprovalCard, type ToolApproval } from "@/components/ToolApprovalCard";
+import { ToolPolicyDialog } from "@/components/ToolPolicyDialog";
+import { ProjectInstructionsDialog } from "@/components/ProjectInstructionsDialog";
+import { VerificationSettingsDialog } from "@/components/VerificationSettingsDialog";
+import { VerificationPanel, type RunningVerification } from "@/components/VerificationPanel";
+import { BranchSelector } from "@/components/BranchSelector";
+import { ThreadSwitcher } from "@/components/ThreadSwitcher";
+import { FileMentionSuggestions } from "@/components/FileMentionSuggestions";
+import { DiffView } from "@/components/DiffView";
+import { ScreenshotView } from "@/components/ScreenshotView";
+import { ThinkingView } from "@/components/ThinkingView";
+import { MessageAttachments, formatFileSize } from "@/components/MessageAttachments";
+import { findMentionQuery, insertMention, suggestMentionPaths, type MentionQuery } from "@/lib/mentions";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { describeUsage, formatCost, formatTokens, totalTokens, type ProjectUsage } from "@/lib/usage";
 
 interface ToolCall {
   name: string;
   summary?: string;
   arguments?: any;
   result?: any;
-  status?: 'in_progress' | 'completed';
+  diff?: string;
+  image?: string;
+  status?: 'in_progress' | 'completed' | 'error';
 }
 
 interface Action {
@@ -29,6 +67,46 @@ interface Action {
   status?: 'pending' | 'in_progress' | 'completed' | 'error';
 }
 
+type RunUsage = Omit<UsageTotals, "requests">;
+
+// Accumulated state of the run being streamed, rebuilt from replayed events when reattaching
+interface RunStreamState {
+  runId: string | null;
+  lastEventId: number;
+  fullMessage: string;
+  fullThinking: string;
+  tools: ToolCall[];
+  actions: Action[];
+}
+
+function createRunStreamState(): RunStreamState {
+  return { runId: null, lastEventId: 0, fullMessage: "", fullThinking: "", tools: [], actions: [] };
+}
+
+// Thinking token budgets offered when reasoning is on (the server accepts 1024-16384)
+const REASONING_BUDGETS = [
+  { value: 2048, label: "Low" },
+  { value: 4096, label: "Medium" },
+  { value: 8192, label: "High" },
+  { value: 16384, label: "Max" },
+];
+const DEFAULT_REASONING_BUDGET = 4096;
+
+interface LLMModelInfo {
+  id: string;
+  name: string;
+  supportsThinking: boolean;
+  supportsVision: boolean;
+}
+
+interface LLMProviderInfo {
+  id: string;
+  name: string;
+  configured: boolean;
+  models: LLMModelInfo[];
+  defaultModel: string;
+}
+
 function CodeBlock({ code, language = "javascript" }: { code: string; language?: string }) {
   const [copied, setCopied] = useState(false);
 
@@ -69,67 +147,14 @@ function CodeBlock({ code, language = "javascript" }: { code: string; language?:
 }
 
 function MessageContent({ content }: { content: string }) {
-  // Remove MCP tool call patterns with JSON: [tool:name]{...}
-  let cleanedContent = content.replace(/\[tool:\w+\]\{[^]*?\}(?=\s*(?:\[tool:|\[action:|$))/g, '');
-  
-  // Remove standalone MCP tool call patterns without JSON: [tool:name] (including partial ones)
-  cleanedContent = cleanedContent.replace(/\[tool:[^\]]*\]/g, '');
-  
-  // Remove JSON objects with proper brace matching (handles nested structures)
-  let depth = 0;
-  let inString = false;
-  let escape = false;
-  let result = '';
-  let jsonStart = -1;
-  
-  for (let i = 0; i < cleanedContent.length; i++) {
-    const char = cleanedContent[i];
-    const prevChar = i > 0 ? cleanedContent[i - 1] : '';
-    
-    // Handle string escaping
-    if (char === '"' && !escape) {
-      inString = !inString;
-    }
-    escape = char === '\\' && !escape;
-    
-    if (!inString) {
-      if (char === '{') {
-        if (depth === 0) jsonStart = i;
-        depth++;
-      } else if (char === '}') {
-        depth--;
-        if (depth === 0 && jsonStart !== -1) {
-          // Check if this looks like a JSON object with common MCP tool properties
-          const jsonCandidate = cleanedContent.substring(jsonStart, i + 1);
-          if (/(?:content|path|code|command|name|language|query|arguments)/.test(jsonCandidate)) {
-            // Skip this JSON block
-            jsonStart = -1;
-            continue;
-          }
-          jsonStart = -1;
-        }
-      }
-    }
-    
-    // Only add character if we're not inside a JSON block
-    if (depth === 0 && jsonStart === -1) {
-      result += char;
-    }
-  }
-  
-  cleanedContent = result;
-  
-  // Remove any remaining partial JSON patterns
-  cleanedContent = cleanedContent.replace(/\{[\s\S]*?(?:content|path|code|command|name|language|query)[\s\S]*?\}/g, '');
-  
-  // Remove standalone curly braces and brackets
-  cleanedContent = cleanedContent.replace(/^\s*[\{\}\[\]]+\s*$/gm, '');
-  
-  // Clean up extra whitespace and newlines
-  cleanedContent = cleanedContent.replace(/\n{3,}/g, '\n\n').trim();
+  // Tool calls arrive as native tool_use blocks, so the text is prose. Messages saved
+  // before that still contain inline [tool:name]{...} calls - strip those.
+  const cleanedContent = content
+    .replace(/\[tool:\w+\]\{[^]*?\}(?=\s*(?:\[tool:|\[action:|$))/g, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
   
-  // If the content is just JSON/code artifacts, return nothing
-  if (!cleanedContent || /^\s*[\{\}\[\]",:]*\s*$/.test(cleanedContent)) {
+  if (!cleanedContent) {
     return null;
   }
   
@@ -294,17 +319,104 @@ export default function ChatPage() {
   const [streamingThinking, setStreamingThinking] = useState("");
   const [streamingTools, setStreamingTools] = useState<ToolCall[]>([]);
   const [streamingActions, setStreamingActions] = useState<Action[]>([]);
-  const [selectedImages, setSelectedImages] = useState<File[]>([]);
+  const [streamingUsage, setStreamingUsage] = useState<RunUsage | null>(null);
+  const [streamingVerification, setStreamingVerification] = useState<VerificationResult | RunningVerification | null>(null);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [isStopping, setIsStopping] = useState(false);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [extractArchives, setExtractArchives] = useState(false);
   const [enableReasoning, setEnableReasoning] = useState(false);
-  const [isUploadingImages, setIsUploadingImages] = useState(false);
+  const [reasoningBudget, setReasoningBudget] = useState(DEFAULT_REASONING_BUDGET);
+  const [planMode, setPlanMode] = useState(false);
+  const [planProgress, setPlanProgress] = useState<{ planMessageId: string; statuses: Action['status'][] } | null>(null);
+  const [pendingApprovals, setPendingApprovals] = useState<ToolApproval[]>([]);
+  const [isAnsweringApproval, setIsAnsweringApproval] = useState(false);
+  const [isToolPolicyOpen, setIsToolPolicyOpen] = useState(false);
+  const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
+  const [isVerificationOpen, setIsVerificationOpen] = useState(false);
+  const [restoreTarget, setRestoreTarget] = useState<BranchMessage | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editText, setEditText] = useState("");
+  const [truncateOnRestore, setTruncateOnRestore] = useState(false);
+  const [isUploadingFiles, setIsUploadingFiles] = useState(false);
+  const [selectedThreadId, setSelectedThreadId] = useState<string | null>(null);
+  const [mentionQuery, setMentionQuery] = useState<MentionQuery | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const { data: messages, isLoading } = useQuery<Message[]>({
-    queryKey: ["/api/messages", projectId],
+  const { data: threads } = useQuery<Thread[]>({
+    queryKey: ["/api/projects", projectId, "threads"],
     enabled: !!projectId,
   });
+  // The selected thread, falling back to the most recently active open one (or the most recent
+  // archived one when every thread is archived)
+  const threadId = threads?.some(thread => thread.id === selectedThreadId)
+    ? selectedThreadId
+    : (threads?.find(thread => !thread.archivedAt) || threads?.[0])?.id || null;
+
+  // The selected conversation branch
+  const { data: messages, isLoading } = useQuery<BranchMessage[]>({
+    queryKey: ["/api/messages", projectId, threadId],
+    enabled: !!projectId && !!threadId,
+  });
+
+  const { data: project } = useQuery<Project>({
+    queryKey: ["/api/projects", projectId],
+    enabled: !!projectId,
+  });
+
+  // Project files for "@" mention autocomplete
+  const { data: projectFiles } = useQuery<ProjectFile[]>({
+    queryKey: ["/api/files", projectId],
+    enabled: !!projectId,
+  });
+  const mentionSuggestions = mentionQuery
+    ? suggestMentionPaths((projectFiles || []).map(file => file.path), mentionQuery.query)
+    : [];
+
+  const { data: usage } = useQuery<ProjectUsage>({
+    queryKey: ["/api/usage/projects", projectId],
+    enabled: !!projectId,
+  });
+  const messageUsage = new Map(usage?.messages.map(m => [m.messageId, m]));
+
+  const { data: llmProviders } = useQuery<{ providers: LLMProviderInfo[]; defaultProvider: string }>({
+    queryKey: ["/api/llm/providers"],
+  });
+
+  const modelMutation = useMutation({
+    mutationFn: async ({ provider, model }: { provider: string; model: string }) => {
+      return await apiRequest("PATCH", `/api/projects/${projectId}/model`, { provider, model });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to switch model",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Selected model as "provider:model" (model IDs may contain colons, provider IDs never do)
+  const selectedProvider = llmProviders?.providers.find(p => p.id === (project?.llmProvider || llmProviders.defaultProvider));
+  const selectedModel = selectedProvider?.models.some(m => m.id === project?.llmModel)
+    ? project!.llmModel!
+    : selectedProvider?.defaultModel;
+  const selectedModelValue = selectedProvider && selectedModel ? `${selectedProvider.id}:${selectedModel}` : undefined;
+
+  const handleModelChange = (value: string) => {
+    const separatorIndex = value.indexOf(':');
+    modelMutation.mutate({
+      provider: value.slice(0, separatorIndex),
+      model: value.slice(separatorIndex + 1),
+    });
+  };
 
   // Refresh messages when returning to the page/tab
   useEffect(() => {
@@ -332,19 +444,244 @@ export default function ChatPage() {
     }
   }, [input]);
 
-  const handleSend = async () => {
-    if ((!input.trim() && selectedImages.length === 0) || isStreaming || isUploadingImages) return;
-    
-    const userMessage = input;
-    const imagesToUpload = selectedImages;
-    setInput("");
-    setSelectedImages([]);
-    setIsStreaming(true);
-    setIsUploadingImages(false);
+  const resetStreamingState = () => {
     setStreamingMessage("");
     setStreamingThinking("");
     setStreamingTools([]);
     setStreamingActions([]);
+    setStreamingUsage(null);
+    setStreamingVerification(null);
+    setRunId(null);
+    setIsStopping(false);
+    setPlanProgress(null);
+    setPendingApprovals([]);
+  };
+
+  // Read a run's event stream and apply each event to the streaming state. Resolves when the
+  // server ends the stream (run finished) and throws if the connection drops.
+  const consumeRunStream = async (response: Response, stream: RunStreamState) => {
+    const reader = response.body?.getReader();
+    const decoder = new TextDecoder();
+
+    if (!reader) {
+      throw new Error("No response body");
+    }
+
+    // Events can be split across reads, so only parse complete "\n\n"-terminated events
+    let buffer = "";
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const rawEvents = buffer.split('\n\n');
+      buffer = rawEvents.pop() || "";
+
+      for (const rawEvent of rawEvents) {
+        const lines = rawEvent.split('\n');
+        const idLine = lines.find(line => line.startsWith('id: '));
+        const dataLine = lines.find(line => line.startsWith('data: '));
+        if (!dataLine) continue;
+
+        if (idLine) {
+          stream.lastEventId = parseInt(idLine.slice(4), 10);
+        }
+        const data = JSON.parse(dataLine.slice(6));
+
+        if (data.type === 'run_started') {
+          stream.runId = data.runId;
+          setRunId(data.runId);
+          // Show the saved prompt (possibly on a new branch) and the thread's new title
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "threads"] });
+        } else if (data.type === 'iteration') {
+          // Separate the text of each agent turn
+          if (data.iteration > 1 && stream.fullMessage.trim()) {
+            stream.fullMessage += '\n\n';
+            setStreamingMessage(stream.fullMessage);
+          }
+        } else if (data.type === 'iteration_limit') {
+          toast({
+            title: "Agent paused",
+            description: `Stopped after ${data.iterations} steps. Send a message to let it continue.`,
+          });
+        } else if (data.type === 'chunk') {
+          stream.fullMessage += data.content;
+          setStreamingMessage(stream.fullMessage);
+        } else if (data.type === 'thinking') {
+          stream.fullThinking += data.content;
+          setStreamingThinking(stream.fullThinking);
+        } else if (data.type === 'action') {
+          const action: Action = data.action;
+          stream.actions.push(action);
+          setStreamingActions([...stream.actions]);
+        } else if (data.type === 'actions_completed') {
+          // Update all actions to completed status
+          const completedActions: Action[] = data.actions;
+          setStreamingActions(completedActions);
+        } else if (data.type === 'tool_start') {
+          const toolCall: ToolCall = {
+            name: data.name,
+            summary: data.summary,
+            status: 'in_progress',
+          };
+          stream.tools.push(toolCall);
+          setStreamingTools([...stream.tools]);
+        } else if (data.type === 'tool_complete') {
+          // Find the in-progress MCP tool and mark it as completed
+          const tools = stream.tools;
+          const toolIndex = tools.findIndex(t => t.name === data.name && t.status === 'in_progress');
+          if (toolIndex !== -1) {
+            tools[toolIndex].status = 'completed';
+            tools[toolIndex].summary = data.summary;
+            tools[toolIndex].result = data.result;
+            tools[toolIndex].diff = data.diff;
+            tools[toolIndex].image = data.image;
+          } else {
+            // If not found, add it as completed (fallback)
+            tools.push({
+              name: data.name,
+              summary: data.summary,
+              result: data.result,
+              diff: data.diff,
+              image: data.image,
+              status: 'completed',
+            });
+          }
+          setStreamingTools([...tools]);
+        } else if (data.type === 'tool_blocked') {
+          const tools = stream.tools;
+          const toolIndex = tools.findIndex(t => t.name === data.name && t.status === 'in_progress');
+          if (toolIndex !== -1) {
+            tools[toolIndex].status = 'error';
+            setStreamingTools([...tools]);
+          }
+        } else if (data.type === 'approval_request') {
+          const approval: ToolApproval = {
+            approvalId: data.approvalId,
+            toolName: data.toolName,
+            arguments: data.arguments,
+            reason: data.reason,
+          };
+          setPendingApprovals(prev => [...prev, approval]);
+        } else if (data.type === 'approval_resolved') {
+          setPendingApprovals(prev => prev.filter(approval => approval.approvalId !== data.approvalId));
+          if (data.expired) {
+            toast({
+              title: "Approval timed out",
+              description: "The tool call was rejected and the agent stopped.",
+            });
+          }
+        } else if (data.type === 'plan_steps') {
+          const planActions: Action[] = data.actions;
+          setPlanProgress({ planMessageId: data.planMessageId, statuses: planActions.map(action => action.status) });
+        } else if (data.type === 'cancelled') {
+          toast({
+            title: "Generation stopped",
+            description: "The partial response was saved.",
+          });
+        } else if (data.type === 'usage') {
+          setStreamingUsage({ ...data.usage, costUsd: data.costUsd });
+        } else if (data.type === 'verification_started') {
+          setStreamingVerification({ status: 'running', command: data.command, attempt: data.attempt });
+        } else if (data.type === 'verification_result') {
+          setStreamingVerification(data.result);
+        } else if (data.type === 'error') {
+          toast({
+            title: "Error",
+            description: data.message,
+            variant: "destructive",
+          });
+        } else if (data.type === 'done') {
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "threads"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/projects", projectId, "instructions"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/files", projectId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/usage/projects", projectId] });
+          queryClient.invalidateQueries({ queryKey: ["/api/usage"] });
+        }
+      }
+    }
+  };
+
+  // Attach to a run's buffered event stream, replaying the events after lastEventId
+  const fetchRunEvents = async (runId: string, lastEventId: number, signal?: AbortSignal) => {
+    const idToken = await auth.currentUser?.getIdToken();
+    const response = await fetch(`/api/runs/${runId}/events`, {
+      headers: {
+        "Authorization": `Bearer ${idToken}`,
+        "Last-Event-ID": String(lastEventId),
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error("Failed to reattach to the agent run");
+    }
+    return response;
+  };
+
+  // Reattach to a run that is still going after a reload (the server keeps it running)
+  useEffect(() => {
+    if (!projectId || !user) return;
+
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const { runId: activeRunId, threadId: activeThreadId } = await apiRequest("GET", `/api/projects/${projectId}/active-run`);
+        if (!activeRunId || controller.signal.aborted) return;
+
+        // Show the thread the run belongs to
+        setSelectedThreadId(activeThreadId);
+        resetStreamingState();
+        setIsStreaming(true);
+        const stream = createRunStreamState();
+        await consumeRunStream(await fetchRunEvents(activeRunId, 0, controller.signal), stream);
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Failed to reattach to agent run:', error);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+          setIsStreaming(false);
+          resetStreamingState();
+        }
+      }
+    })();
+
+    return () => controller.abort();
+  }, [projectId, user]);
+
+  const handleThreadSelect = (nextThreadId: string) => {
+    setSelectedThreadId(nextThreadId);
+    setEditingMessageId(null);
+    setRestoreTarget(null);
+  };
+
+  const handleSend = () => {
+    if ((!input.trim() && selectedFiles.length === 0) || isStreaming || isUploadingFiles) return;
+
+    const userMessage = input;
+    const filesToUpload = selectedFiles;
+    setInput("");
+    setMentionQuery(null);
+    setSelectedFiles([]);
+    sendMessage(userMessage, filesToUpload, planMode ? { mode: 'plan' } : {});
+  };
+
+  // Start an agent run: "plan" mode asks for a plan to review, planMessageId executes an approved plan,
+  // editMessageId and regenerateMessageId start a new branch from an earlier prompt
+  const sendMessage = async (
+    userMessage: string,
+    filesToUpload: File[],
+    runOptions: { mode?: 'plan'; planMessageId?: string; editMessageId?: string; regenerateMessageId?: string } = {}
+  ) => {
+    setIsStreaming(true);
+    setIsUploadingFiles(false);
+    resetStreamingState();
 
     // Track if page becomes hidden
     let wasHidden = false;
@@ -360,17 +697,20 @@ export default function ChatPage() {
       // Get Firebase ID token for authentication
       const idToken = await auth.currentUser?.getIdToken();
       
-      // Upload images if any
-      let attachments: string[] = [];
-      if (imagesToUpload.length > 0) {
-        setIsUploadingImages(true);
+      // Upload attachments if any (ZIP archives are extracted into the project when asked)
+      let attachments: MessageAttachment[] = [];
+      if (filesToUpload.length > 0) {
+        setIsUploadingFiles(true);
         try {
-          for (const image of imagesToUpload) {
+          for (const file of filesToUpload) {
             const formData = new FormData();
-            formData.append('file', image);
+            formData.append('file', file);
             formData.append('projectId', projectId!);
+            if (extractArchives) {
+              formData.append('extract', 'true');
+            }
             
-            const uploadResponse = await fetch("/api/upload/image", {
+            const uploadResponse = await fetch("/api/upload/attachment", {
               method: "POST",
               headers: {
                 "Authorization": `Bearer ${idToken}`,
@@ -379,12 +719,26 @@ export default function ChatPage() {
             });
             
             if (uploadResponse.ok) {
-              const { url } = await uploadResponse.json();
-              attachments.push(url);
+              const { attachment, extracted } = await uploadResponse.json();
+              attachments.push(attachment);
+              if (extracted.length > 0) {
+                queryClient.invalidateQueries({ queryKey: ["/api/files", projectId] });
+                toast({
+                  title: "Archive extracted",
+                  description: `Added ${extracted.length} ${extracted.length === 1 ? 'file' : 'files'} from ${file.name} to the project`,
+                });
+              }
+            } else {
+              const { error } = await uploadResponse.json().catch(() => ({ error: uploadResponse.statusText }));
+              toast({
+                title: `Could not attach ${file.name}`,
+                description: error,
+                variant: "destructive",
+              });
             }
           }
         } finally {
-          setIsUploadingImages(false);
+          setIsUploadingFiles(false);
         }
       }
       
@@ -396,9 +750,12 @@ export default function ChatPage() {
         },
         body: JSON.stringify({
           projectId,
-          content: userMessage || "(Image uploaded)",
+          threadId,
+          content: userMessage || (attachments.every(a => typeof a === 'string') ? "(Image uploaded)" : "(File attached)"),
           attachments: attachments.length > 0 ? attachments : undefined,
           enableReasoning,
+          reasoningBudget: enableReasoning ? reasoningBudget : undefined,
+          ...runOptions,
         }),
       });
 
@@ -406,87 +763,21 @@ export default function ChatPage() {
         throw new Error("Failed to send message");
       }
 
-      const reader = response.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error("No response body");
+      const stream = createRunStreamState();
+      try {
+        await consumeRunStream(response, stream);
+      } catch (error) {
+        // The connection dropped mid-run - reattach once and pick up from the last event received
+        if (!stream.runId) throw error;
+        await consumeRunStream(await fetchRunEvents(stream.runId, stream.lastEventId), stream);
       }
 
-      let fullMessage = "";
-      let fullThinking = "";
-      const tools: ToolCall[] = [];
-      const actions: Action[] = [];
-
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim() !== '');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = JSON.parse(line.slice(6));
-
-            if (data.type === 'chunk') {
-              fullMessage += data.content;
-              setStreamingMessage(fullMessage);
-            } else if (data.type === 'thinking') {
-              fullThinking += data.content;
-              setStreamingThinking(fullThinking);
-            } else if (data.type === 'action') {
-              const action: Action = data.action;
-              actions.push(action);
-              setStreamingActions([...actions]);
-            } else if (data.type === 'actions_completed') {
-              // Update all actions to completed status
-              const completedActions: Action[] = data.actions;
-              setStreamingActions(completedActions);
-            } else if (data.type === 'tool_start') {
-              const toolCall: ToolCall = {
-                name: data.name,
-                summary: data.summary,
-                status: 'in_progress',
-              };
-              tools.push(toolCall);
-              setStreamingTools([...tools]);
-            } else if (data.type === 'tool_complete') {
-              // Find the in-progress MCP tool and mark it as completed
-              const toolIndex = tools.findIndex(t => t.name === data.name && t.status === 'in_progress');
-              if (toolIndex !== -1) {
-                tools[toolIndex].status = 'completed';
-                tools[toolIndex].result = data.result;
-              } else {
-                // If not found, add it as completed (fallback)
-                tools.push({
-                  name: data.name,
-                  summary: data.summary,
-                  result: data.result,
-                  status: 'completed',
-                });
-              }
-              setStreamingTools([...tools]);
-            } else if (data.type === 'error') {
-              toast({
-                title: "Error",
-                description: data.message,
-                variant: "destructive",
-              });
-            } else if (data.type === 'done') {
-              queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
-              queryClient.invalidateQueries({ queryKey: ["/api/files", projectId] });
-              
-              // Show notification if tab was hidden
-              if (wasHidden) {
-                toast({
-                  title: "AI Processing Complete",
-                  description: "Your request was processed in the background",
-                });
-              }
-            }
-          }
-        }
+      // Show notification if tab was hidden
+      if (wasHidden) {
+        toast({
+          title: "AI Processing Complete",
+          description: "Your request was processed in the background",
+        });
       }
     } catch (error: any) {
       // Always refresh to show any work that was completed
@@ -507,43 +798,201 @@ export default function ChatPage() {
     } finally {
       document.removeEventListener('visibilitychange', handleVisibilityChange);
       setIsStreaming(false);
-      setStreamingMessage("");
-      setStreamingTools([]);
-      setStreamingActions([]);
+      resetStreamingState();
+    }
+  };
+
+  const planMutation = useMutation({
+    mutationFn: async ({ messageId, status, steps }: { messageId: string; status: 'approved' | 'rejected'; steps?: PlanStep[] }) => {
+      return await apiRequest("PATCH", `/api/messages/${messageId}/plan`, { status, steps });
+    },
+    onSuccess: (_updated, { messageId, status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+      if (status === 'approved') {
+        sendMessage("Approved the plan. Go ahead.", [], { planMessageId: messageId });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update plan",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ messageId, truncate }: { messageId: string; truncate: boolean }) => {
+      return await apiRequest("POST", `/api/messages/${messageId}/restore`, { truncate });
+    },
+    onSuccess: (result: { restored: string[]; deleted: string[]; errors: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files", projectId] });
+      setRestoreTarget(null);
+
+      const changed = result.restored.length + result.deleted.length;
+      toast({
+        title: changed > 0 ? `Restored ${changed} file${changed === 1 ? "" : "s"}` : "No file changes to undo",
+        description: result.errors.length > 0 ? `Some files could not be restored: ${result.errors.join("; ")}` : undefined,
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to restore checkpoint",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Switch branches; the server moves the project's files along with it
+  const branchMutation = useMutation({
+    mutationFn: async (messageId: string) => {
+      return await apiRequest("POST", `/api/messages/${messageId}/select-branch`);
+    },
+    onSuccess: (result: { errors: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/messages", projectId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/files", projectId] });
+      if (result.errors.length > 0) {
+        toast({
+          title: "Some files could not be switched",
+          description: result.errors.join("; "),
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to switch branch",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startEditing = (message: BranchMessage) => {
+    setEditingMessageId(message.id);
+    setEditText(message.content);
+  };
+
+  const submitEdit = () => {
+    if (!editingMessageId || !editText.trim() || isStreaming) return;
+    const messageId = editingMessageId;
+    setEditingMessageId(null);
+    sendMessage(editText, [], { editMessageId: messageId });
+  };
+
+  // Answer a tool call the project's tool policy paused for approval
+  const handleApproval = async (approvalId: string, approved: boolean) => {
+    if (!runId) return;
+
+    setIsAnsweringApproval(true);
+    try {
+      await apiRequest("POST", `/api/runs/${runId}/approvals/${approvalId}`, { approved });
+    } catch (error: any) {
+      toast({
+        title: "Failed to answer approval",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsAnsweringApproval(false);
     }
   };
 
+  const handleStop = async () => {
+    if (!runId || isStopping) return;
+
+    setIsStopping(true);
+    try {
+      await apiRequest("POST", `/api/runs/${runId}/cancel`);
+    } catch (error: any) {
+      setIsStopping(false);
+      toast({
+        title: "Failed to stop",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Track the "@" mention being typed at the caret
+  const updateMentionQuery = (text: string, caret: number) => {
+    const next = findMentionQuery(text, caret);
+    if (next?.start !== mentionQuery?.start || next?.query !== mentionQuery?.query) {
+      setMentionIndex(0);
+    }
+    setMentionQuery(next);
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setInput(e.target.value);
+    updateMentionQuery(e.target.value, e.target.selectionStart);
+  };
+
+  const selectMention = (path: string) => {
+    if (!mentionQuery) return;
+    const { text, caret } = insertMention(input, mentionQuery, path);
+    setInput(text);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
+    // Arrow keys, Enter and Tab drive the mention suggestions while they are open
+    if (mentionSuggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setMentionIndex((mentionIndex + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
-  const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
-    const imageFiles = files.filter(file => file.type.startsWith('image/'));
-    setSelectedImages(prev => [...prev, ...imageFiles].slice(0, 5)); // Limit to 5 images
+    setSelectedFiles(prev => [...prev, ...files].slice(0, 5)); // Limit to 5 attachments
     if (fileInputRef.current) {
       fileInputRef.current.value = '';
     }
   };
 
-  const removeImage = (index: number) => {
-    setSelectedImages(prev => prev.filter((_, i) => i !== index));
+  const removeFile = (index: number) => {
+    setSelectedFiles(prev => prev.filter((_, i) => i !== index));
   };
 
   const getToolIcon = (toolName: string) => {
     if (toolName === 'create_boilerplate') return <Sparkles className="h-3 w-3" />;
-    if (toolName === 'write_file' || toolName === 'edit_file') return <FileCode className="h-3 w-3" />;
+    if (toolName === 'write_file' || toolName === 'edit_file' || toolName === 'apply_patch') return <FileCode className="h-3 w-3" />;
     if (toolName === 'run_shell') return <Terminal className="h-3 w-3" />;
     if (toolName === 'run_code') return <Play className="h-3 w-3" />;
+    if (toolName === 'screenshot_preview') return <Camera className="h-3 w-3" />;
     return <Wrench className="h-3 w-3" />;
   };
 
   const getToolVariant = (toolName: string): "default" | "secondary" | "destructive" | "outline" => {
     if (toolName === 'create_boilerplate') return 'default';
-    if (toolName === 'write_file' || toolName === 'edit_file') return 'default';
+    if (toolName === 'write_file' || toolName === 'edit_file' || toolName === 'apply_patch') return 'default';
     if (toolName === 'run_shell') return 'secondary';
     return 'outline';
   };
@@ -558,6 +1007,19 @@ export default function ChatPage() {
 
   return (
     <div className="flex flex-col h-full overflow-hidden bg-background dark:bg-background">
+      {/* Thread Bar */}
+      {projectId && threads && threadId && (
+        <div className="flex items-center border-b border-border px-3 sm:px-4 py-1.5">
+          <ThreadSwitcher
+            projectId={projectId}
+            threads={threads}
+            activeThreadId={threadId}
+            disabled={isStreaming}
+            onSelect={handleThreadSelect}
+          />
+        </div>
+      )}
+
       {/* Messages Area */}
       <div className="flex-1 overflow-y-auto overflow-x-hidden p-3 sm:p-4 md:p-6 space-y-4 sm:space-y-6 pb-32 md:pb-6">
         {messages && messages.length === 0 && !streamingMessage ? (
@@ -574,11 +1036,18 @@ export default function ChatPage() {
           </div>
         ) : (
           <div className="max-w-4xl mx-auto space-y-4 sm:space-y-6">
-            {messages?.map((message) => {
+            {messages?.map((message, messageIndex) => {
               const isUser = message.role === "user";
+              const isEditing = editingMessageId === message.id;
+              // After a restore the branch ends here, with the later messages kept on a branch
+              const hasHiddenReplies = messageIndex === messages.length - 1 && message.childCount > 0;
               const toolCalls = message.toolCalls as ToolCall[] | null;
               const actions = message.actions as Action[] | null;
-              const attachments = message.attachments as string[] | null;
+              const attachments = message.attachments as MessageAttachment[] | null;
+              const usageForMessage = !isUser ? messageUsage.get(message.id) : undefined;
+              const isCancelled = message.status === 'cancelled';
+              const isFailed = message.status === 'failed';
+              const plan = message.plan as Plan | null;
 
               return (
                 <div
@@ -600,26 +1069,54 @@ export default function ChatPage() {
                     "flex-1 space-y-2 min-w-0 max-w-full",
                     isUser && "flex flex-col items-end"
                   )}>
+                    {!isUser && message.thinking && <ThinkingView thinking={message.thinking} />}
                     <Card className={cn(
                       "p-3 sm:p-4 overflow-hidden max-w-full shadow-sm hover:shadow-md transition-shadow",
                       isUser ? "bg-primary text-primary-foreground" : "bg-card"
                     )}>
                       <div className="max-w-full overflow-hidden space-y-2">
-                        {attachments && attachments.length > 0 && (
-                          <div className="flex flex-wrap gap-2">
-                            {attachments.map((url, idx) => (
-                              <img
-                                key={idx}
-                                src={url}
-                                alt={`Attachment ${idx + 1}`}
-                                className="max-w-xs rounded border border-border"
-                              />
-                            ))}
+                        {attachments && <MessageAttachments attachments={attachments} />}
+                        {isEditing ? (
+                          <div className="space-y-2 min-w-[240px] sm:min-w-[400px]">
+                            <Textarea
+                              value={editText}
+                              onChange={(e) => setEditText(e.target.value)}
+                              rows={3}
+                              className="text-sm bg-background text-foreground"
+                              autoFocus
+                              data-testid={`input-edit-message-${message.id}`}
+                            />
+                            <div className="flex justify-end gap-2">
+                              <Button size="sm" variant="secondary" onClick={() => setEditingMessageId(null)}>
+                                Cancel
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={submitEdit}
+                                disabled={!editText.trim() || isStreaming}
+                                data-testid={`button-submit-edit-${message.id}`}
+                              >
+                                <Send className="h-3 w-3 mr-1" />
+                                Send
+                              </Button>
+                            </div>
                           </div>
+                        ) : (
+                          <MessageContent content={message.content} />
                         )}
-                        <MessageContent content={message.content} />
                       </div>
                     </Card>
+                    {plan && (
+                      <PlanCard
+                        plan={plan}
+                        liveStatuses={planProgress?.planMessageId === message.id ? planProgress.statuses : undefined}
+                        disabled={isStreaming || planMutation.isPending}
+                        onApprove={(steps) => planMutation.mutate({ messageId: message.id, status: 'approved', steps })}
+                        onReject={() => planMutation.mutate({ messageId: message.id, status: 'rejected' })}
+                        onRun={() => sendMessage("Run the approved plan.", [], { planMessageId: message.id })}
+                      />
+                    )}
                     {toolCalls && toolCalls.length > 0 && (
                       <div className="flex flex-wrap gap-1.5 sm:gap-2">
                         {toolCalls.map((tool, idx) => {
@@ -647,9 +1144,102 @@ export default function ChatPage() {
                         })}
                       </div>
                     )}
+                    {toolCalls?.filter(tool => tool.result?.diff).map((tool, idx) => (
+                      <DiffView key={idx} title={tool.summary || tool.name} diff={tool.result.diff} />
+                    ))}
+                    {toolCalls?.filter(tool => tool.result?.image).map((tool, idx) => (
+                      <ScreenshotView key={idx} title={tool.summary || tool.name} url={tool.result.image} />
+                    ))}
+                    {!!message.verification && <VerificationPanel verification={message.verification as VerificationResult} />}
+                    {isCancelled && (
+                      <Badge variant="outline" className="gap-1.5 text-[10px] sm:text-xs py-1 px-2 text-muted-foreground" data-testid={`badge-cancelled-${message.id}`}>
+                        <Ban className="h-3 w-3" />
+                        Stopped by user
+                      </Badge>
+                    )}
+                    {isFailed && (
+                      <Badge variant="outline" className="gap-1.5 text-[10px] sm:text-xs py-1 px-2 text-destructive" data-testid={`badge-failed-${message.id}`}>
+                        <AlertTriangle className="h-3 w-3" />
+                        Interrupted by an error
+                      </Badge>
+                    )}
                     <p className="text-[10px] sm:text-xs text-muted-foreground px-1">
                       {formatDistanceToNow(new Date(message.createdAt), { addSuffix: true })}
+                      {usageForMessage && (
+                        <span title={describeUsage(usageForMessage)} data-testid={`usage-message-${message.id}`}>
+                          {" · "}{formatTokens(totalTokens(usageForMessage))} tokens · {formatCost(usageForMessage.costUsd)}
+                        </span>
+                      )}
+                      {message.siblingIds.length > 1 && (
+                        <>
+                          {" · "}
+                          <BranchSelector
+                            messageId={message.id}
+                            siblingIds={message.siblingIds}
+                            disabled={isStreaming || branchMutation.isPending}
+                            onSelect={(siblingId) => branchMutation.mutate(siblingId)}
+                          />
+                        </>
+                      )}
+                      {isUser && !isEditing && (
+                        <>
+                          {" · "}
+                          <button
+                            type="button"
+                            onClick={() => startEditing(message)}
+                            disabled={isStreaming}
+                            className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50 disabled:pointer-events-none"
+                            title="Edit this prompt and regenerate from here as a new branch"
+                            data-testid={`button-edit-${message.id}`}
+                          >
+                            <Pencil className="h-3 w-3" />
+                            Edit
+                          </button>
+                        </>
+                      )}
+                      {!isUser && (
+                        <>
+                          {" · "}
+                          <button
+                            type="button"
+                            onClick={() => sendMessage("", [], { regenerateMessageId: message.id })}
+                            disabled={isStreaming}
+                            className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50 disabled:pointer-events-none"
+                            title="Generate a new reply as a separate branch"
+                            data-testid={`button-regenerate-${message.id}`}
+                          >
+                            <RefreshCw className="h-3 w-3" />
+                            Regenerate
+                          </button>
+                          {" · "}
+                          <button
+                            type="button"
+                            onClick={() => setRestoreTarget(message)}
+                            disabled={isStreaming}
+                            className="inline-flex items-center gap-1 hover:text-foreground disabled:opacity-50 disabled:pointer-events-none"
+                            title="Undo file changes made after this message"
+                            data-testid={`button-restore-${message.id}`}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            Restore to here
+                          </button>
+                        </>
+                      )}
                     </p>
+                    {hasHiddenReplies && (
+                      <p className="text-[10px] sm:text-xs text-muted-foreground px-1">
+                        Later messages are kept on another branch.{" "}
+                        <button
+                          type="button"
+                          onClick={() => branchMutation.mutate(message.id)}
+                          disabled={isStreaming || branchMutation.isPending}
+                          className="underline hover:text-foreground disabled:opacity-50"
+                          data-testid="button-show-later-messages"
+                        >
+                          Show them
+                        </button>
+                      </p>
+                    )}
                   </div>
                   {isUser && (
                     <div className="flex items-start shrink-0">
@@ -702,11 +1292,35 @@ export default function ChatPage() {
                         >
                           {getToolIcon(tool.name)}
                           <span className="truncate max-w-[120px] sm:max-w-none">{tool.summary || tool.name}</span>
-                          <Check className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-chart-2" />
+                          {tool.status === 'error' ? (
+                            <X className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-destructive" />
+                          ) : (
+                            <Check className="h-2.5 w-2.5 sm:h-3 sm:w-3 text-chart-2" />
+                          )}
                         </Badge>
                       ))}
                     </div>
                   )}
+                  {streamingTools.filter(tool => tool.diff).map((tool, idx) => (
+                    <DiffView key={idx} title={tool.summary || tool.name} diff={tool.diff!} />
+                  ))}
+                  {streamingTools.filter(tool => tool.image).map((tool, idx) => (
+                    <ScreenshotView key={idx} title={tool.summary || tool.name} url={tool.image!} />
+                  ))}
+                  {streamingVerification && <VerificationPanel verification={streamingVerification} />}
+                  {pendingApprovals.map(approval => (
+                    <ToolApprovalCard
+                      key={approval.approvalId}
+                      approval={approval}
+                      disabled={isAnsweringApproval || isStopping}
+                      onRespond={(approved) => handleApproval(approval.approvalId, approved)}
+                    />
+                  ))}
+                  {streamingUsage && (
+                    <p className="text-[10px] sm:text-xs text-muted-foreground px-1" title={describeUsage(streamingUsage)}>
+                      {formatTokens(totalTokens(streamingUsage))} tokens · {formatCost(streamingUsage.costUsd)}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -720,49 +1334,86 @@ export default function ChatPage() {
       <div className="border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80 p-3 sm:p-4 md:p-6 pb-20 md:pb-6">
         <div className="max-w-4xl mx-auto">
           <div className="bg-card rounded-xl border border-border shadow-lg overflow-hidden">
-            {/* Selected images preview */}
-            {selectedImages.length > 0 && (
+            <FileMentionSuggestions
+              paths={mentionSuggestions}
+              highlightedIndex={mentionIndex}
+              onSelect={selectMention}
+            />
+            {/* Selected attachments preview */}
+            {selectedFiles.length > 0 && (
               <div className="p-3 border-b border-border bg-muted/30">
                 <div className="flex items-center gap-2 mb-2">
-                  <ImageIcon className="h-4 w-4 text-muted-foreground" />
+                  <Paperclip className="h-4 w-4 text-muted-foreground" />
                   <span className="text-xs font-medium text-muted-foreground">
-                    {selectedImages.length} {selectedImages.length === 1 ? 'image' : 'images'} selected
+                    {selectedFiles.length} {selectedFiles.length === 1 ? 'file' : 'files'} attached
                   </span>
                 </div>
                 <div className="flex flex-wrap gap-2">
-                  {selectedImages.map((image, index) => (
+                  {selectedFiles.map((file, index) => (
                     <div key={index} className="relative group">
-                      <div className="h-20 w-20 rounded-lg overflow-hidden border-2 border-border bg-muted">
-                        <img
-                          src={URL.createObjectURL(image)}
-                          alt={`Upload ${index + 1}`}
-                          className="h-full w-full object-cover"
-                        />
-                      </div>
+                      {file.type.startsWith('image/') ? (
+                        <div className="h-20 w-20 rounded-lg overflow-hidden border-2 border-border bg-muted">
+                          <img
+                            src={URL.createObjectURL(file)}
+                            alt={`Upload ${index + 1}`}
+                            className="h-full w-full object-cover"
+                          />
+                        </div>
+                      ) : (
+                        <div className="h-20 w-40 rounded-lg border-2 border-border bg-muted p-2 flex flex-col justify-between">
+                          <FileText className="h-5 w-5 text-muted-foreground" />
+                          <div className="min-w-0">
+                            <p className="text-xs font-medium truncate" title={file.name}>{file.name}</p>
+                            <p className="text-[10px] text-muted-foreground">{formatFileSize(file.size)}</p>
+                          </div>
+                        </div>
+                      )}
                       <Button
                         variant="destructive"
                         size="icon"
                         className="absolute -top-2 -right-2 h-6 w-6 rounded-full shadow-md opacity-100 sm:opacity-0 sm:group-hover:opacity-100 transition-opacity"
-                        onClick={() => removeImage(index)}
-                        title="Remove image"
+                        onClick={() => removeFile(index)}
+                        title="Remove file"
                       >
                         <X className="h-3 w-3" />
                       </Button>
                     </div>
                   ))}
-                  {selectedImages.length < 5 && (
+                  {selectedFiles.length < 5 && (
                     <button
                       onClick={() => fileInputRef.current?.click()}
                       disabled={isStreaming}
                       className="h-20 w-20 rounded-lg border-2 border-dashed border-muted-foreground/30 hover:border-muted-foreground/50 bg-muted/50 hover:bg-muted transition-colors flex items-center justify-center group disabled:opacity-50 disabled:cursor-not-allowed"
-                      title="Add more images"
+                      title="Add more files"
                     >
-                      <ImageIcon className="h-5 w-5 text-muted-foreground group-hover:text-foreground transition-colors" />
+                      <Paperclip className="h-5 w-5 text-muted-foreground group-hover:text-foreground transition-colors" />
                     </button>
                   )}
                 </div>
+                {selectedFiles.some(file => /\.zip$/i.test(file.name)) && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <Checkbox
+                      id="extract-archives"
+                      checked={extractArchives}
+                      onCheckedChange={(checked) => setExtractArchives(checked === true)}
+                      data-testid="checkbox-extract-archives"
+                    />
+                    <Label htmlFor="extract-archives" className="text-xs font-normal">
+                      Extract ZIP files into the project (existing files with the same path are replaced)
+                    </Label>
+                  </div>
+                )}
               </div>
             )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept="image/*,.pdf,.zip,.txt,.md,.csv,.tsv,.json,.jsonl,.yaml,.yml,.toml,.xml,.html,.css,.js,.jsx,.ts,.tsx,.py,.sql,.sh,.log"
+              onChange={handleFileSelect}
+              className="hidden"
+              data-testid="input-attachment-file"
+            />
             
             <div className="flex gap-2 p-2">
               <Toggle
@@ -776,34 +1427,216 @@ export default function ChatPage() {
                 <Brain className="h-5 w-5 mr-1.5" />
                 <span className="text-xs font-medium hidden sm:inline">Reasoning</span>
               </Toggle>
+              {enableReasoning && (
+                <Select
+                  value={String(reasoningBudget)}
+                  onValueChange={(value) => setReasoningBudget(Number(value))}
+                  disabled={isStreaming}
+                >
+                  <SelectTrigger
+                    className="h-10 w-[90px] sm:w-[110px] shrink-0 text-xs"
+                    title="Thinking budget for this message"
+                    data-testid="select-reasoning-budget"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REASONING_BUDGETS.map((budget) => (
+                      <SelectItem key={budget.value} value={String(budget.value)}>
+                        {budget.label} ({budget.value / 1024}k)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Toggle
+                pressed={planMode}
+                onPressedChange={setPlanMode}
+                disabled={isStreaming}
+                className="h-10 px-3 shrink-0 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground"
+                title={planMode ? "Plan mode - the agent proposes a plan for you to approve before changing anything" : "Ask for a plan before making changes"}
+                data-testid="toggle-plan-mode"
+              >
+                <ClipboardList className="h-5 w-5 mr-1.5" />
+                <span className="text-xs font-medium hidden sm:inline">Plan</span>
+              </Toggle>
+              {llmProviders && (
+                <Select
+                  value={selectedModelValue}
+                  onValueChange={handleModelChange}
+                  disabled={isStreaming || modelMutation.isPending}
+                >
+                  <SelectTrigger
+                    className="h-10 w-[110px] sm:w-[170px] shrink-0 text-xs"
+                    title="Model used by the agent for this project"
+                    data-testid="select-llm-model"
+                  >
+                    <SelectValue placeholder="Model" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {llmProviders.providers.map((provider) => (
+                      <SelectGroup key={provider.id}>
+                        <SelectLabel>
+                          {provider.name}{!provider.configured && " (not configured)"}
+                        </SelectLabel>
+                        {provider.models.map((model) => (
+                          <SelectItem
+                            key={`${provider.id}:${model.id}`}
+                            value={`${provider.id}:${model.id}`}
+                            disabled={!provider.configured}
+                          >
+                            {model.name}
+                          </SelectItem>
+                        ))}
+                      </SelectGroup>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={isStreaming || selectedFiles.length >= 5}
+                className="h-10 w-10 shrink-0"
+                title="Attach images, PDFs, text or data files, or a ZIP archive"
+                data-testid="button-attach-file"
+              >
+                <Paperclip className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsToolPolicyOpen(true)}
+                className="h-10 w-10 shrink-0"
+                title="Tool permissions - choose which agent actions need your approval"
+                data-testid="button-tool-policy"
+              >
+                <ShieldCheck className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsInstructionsOpen(true)}
+                className="h-10 w-10 shrink-0"
+                title="Project instructions - conventions and preferences the agent follows on every run"
+                data-testid="button-project-instructions"
+              >
+                <BookOpen className="h-5 w-5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setIsVerificationOpen(true)}
+                className="h-10 w-10 shrink-0"
+                title="Verification - type-check or build after agent edits and let the agent fix errors"
+                data-testid="button-verification-settings"
+              >
+                <ClipboardCheck className="h-5 w-5" />
+              </Button>
               <Textarea
                 ref={textareaRef}
-                placeholder="Make, test, iterate..."
+                placeholder="Make, test, iterate... (@ to mention a file)"
                 value={input}
-                onChange={(e) => setInput(e.target.value)}
+                onChange={handleInputChange}
+                onClick={(e) => updateMentionQuery(input, e.currentTarget.selectionStart)}
+                onBlur={() => setMentionQuery(null)}
                 onKeyDown={handleKeyPress}
                 rows={1}
                 className="min-h-[40px] max-h-32 resize-none text-sm sm:text-base border-0 focus-visible:ring-0 focus-visible:ring-offset-0 shadow-none bg-transparent"
                 data-testid="input-chat-message"
               />
-              <Button
-                onClick={handleSend}
-                disabled={(!input.trim() && selectedImages.length === 0) || isStreaming || isUploadingImages}
-                size="icon"
-                className="h-10 w-10 shrink-0 rounded-lg"
-                data-testid="button-send-message"
-                title={isUploadingImages ? "Uploading images..." : "Send message"}
-              >
-                {isStreaming || isUploadingImages ? (
-                  <Loader2 className="h-5 w-5 animate-spin" />
-                ) : (
-                  <Send className="h-5 w-5" />
-                )}
-              </Button>
+              {isStreaming && runId ? (
+                <Button
+                  onClick={handleStop}
+                  disabled={isStopping}
+                  variant="destructive"
+                  size="icon"
+                  className="h-10 w-10 shrink-0 rounded-lg"
+                  data-testid="button-stop-generation"
+                  title={isStopping ? "Stopping..." : "Stop generating"}
+                >
+                  {isStopping ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <Square className="h-4 w-4 fill-current" />
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSend}
+                  disabled={(!input.trim() && selectedFiles.length === 0) || isStreaming || isUploadingFiles}
+                  size="icon"
+                  className="h-10 w-10 shrink-0 rounded-lg"
+                  data-testid="button-send-message"
+                  title={isUploadingFiles ? "Uploading files..." : "Send message"}
+                >
+                  {isStreaming || isUploadingFiles ? (
+                    <Loader2 className="h-5 w-5 animate-spin" />
+                  ) : (
+                    <Send className="h-5 w-5" />
+                  )}
+                </Button>
+              )}
             </div>
           </div>
+          {usage && usage.totals.requests > 0 && (
+            <p
+              className="text-[10px] sm:text-xs text-muted-foreground mt-2 px-1"
+              title={describeUsage(usage.totals)}
+              data-testid="text-project-usage"
+            >
+              Project usage: {formatTokens(totalTokens(usage.totals))} tokens · {formatCost(usage.totals.costUsd)}
+            </p>
+          )}
         </div>
       </div>
+      <AlertDialog open={!!restoreTarget} onOpenChange={(open) => !open && setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore to this point?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Files the agent created, edited or deleted after this message are reverted in storage and the live sandbox, and the conversation continues from here. Later messages are kept on a branch unless you delete them. Changes made by shell commands are not tracked.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="truncate-on-restore"
+              checked={truncateOnRestore}
+              onCheckedChange={(checked) => setTruncateOnRestore(checked === true)}
+              data-testid="checkbox-truncate-on-restore"
+            />
+            <Label htmlFor="truncate-on-restore" className="text-sm font-normal">
+              Also delete the messages after this one
+            </Label>
+          </div>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-restore">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                if (restoreTarget) {
+                  restoreMutation.mutate({ messageId: restoreTarget.id, truncate: truncateOnRestore });
+                }
+              }}
+              disabled={restoreMutation.isPending}
+              data-testid="button-confirm-restore"
+            >
+              {restoreMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {projectId && (
+        <ToolPolicyDialog projectId={projectId} open={isToolPolicyOpen} onOpenChange={setIsToolPolicyOpen} />
+      )}
+      {projectId && (
+        <ProjectInstructionsDialog projectId={projectId} open={isInstructionsOpen} onOpenChange={setIsInstructionsOpen} />
+      )}
+      {projectId && (
+        <VerificationSettingsDialog projectId={projectId} open={isVerificationOpen} onOpenChange={setIsVerificationOpen} />
+      )}
     </div>
   );
 }
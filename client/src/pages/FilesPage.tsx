@@ -1,17 +1,17 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { FileText, Folder, Loader2, Code2, File as FileIcon, Download, Search, Edit, Trash2, FileType, ArrowLeft, Save } from "lucide-react";
+import { FileText, Folder, Loader2, Code2, File as FileIcon, Download, Search, Edit, Trash2, FileType, ArrowLeft, Save, CaseSensitive, Regex } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import type { File } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { cn } from "@/lib/utils";
 import { auth } from "@/lib/firebase";
-import Editor from "@monaco-editor/react";
+import Editor, { type OnMount } from "@monaco-editor/react";
 import JSZip from "jszip";
 import {
   AlertDialog,
@@ -33,10 +33,18 @@ import {
 } from "@/components/ui/dialog";
 import { Label } from "@/components/ui/label";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { FileSearchResults, type FileSearchMatch, type FileSearchResponse } from "@/components/FileSearchResults";
 
 export default function FilesPage() {
   const { id: projectId } = useParams();
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchMode, setSearchMode] = useState<"names" | "contents">("names");
+  const [searchRegex, setSearchRegex] = useState(false);
+  const [searchCaseSensitive, setSearchCaseSensitive] = useState(false);
+  const [searchInclude, setSearchInclude] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
+  // Line to show when the editor opens from a search match
+  const editorTarget = useRef<{ line: number; column: number } | null>(null);
   const [editingFile, setEditingFile] = useState<File | null>(null);
   const [fileContent, setFileContent] = useState("");
   const [deleteFile, setDeleteFile] = useState<File | null>(null);
@@ -51,6 +59,23 @@ export default function FilesPage() {
     refetchInterval: 5000,
   });
 
+  // Content search waits for a pause in typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedSearch(searchQuery), 300);
+    return () => clearTimeout(timeout);
+  }, [searchQuery]);
+
+  const searchParams = new URLSearchParams({
+    q: debouncedSearch,
+    regex: String(searchRegex),
+    caseSensitive: String(searchCaseSensitive),
+    ...(searchInclude.trim() && { include: searchInclude.trim() }),
+  });
+  const { data: searchResults, isFetching: isSearching, error: searchError } = useQuery<FileSearchResponse>({
+    queryKey: ["/api/files", projectId, `search?${searchParams.toString()}`],
+    enabled: !!projectId && searchMode === "contents" && !!debouncedSearch,
+  });
+
   const deleteMutation = useMutation({
     mutationFn: async (fileId: string) => {
       await apiRequest("DELETE", `/api/files/${fileId}`);
@@ -131,7 +156,8 @@ export default function FilesPage() {
     },
   });
 
-  const handleEdit = async (file: File) => {
+  const handleEdit = async (file: File, target?: { line: number; column: number }) => {
+    editorTarget.current = target || null;
     setIsLoadingContent(true);
     try {
       const idToken = await auth.currentUser?.getIdToken();
@@ -159,6 +185,21 @@ export default function FilesPage() {
     }
   };
 
+  const handleOpenMatch = (match: FileSearchMatch) => {
+    const file = files?.find(f => f.id === match.fileId);
+    if (file) {
+      handleEdit(file, { line: match.line, column: match.column });
+    }
+  };
+
+  const handleEditorMount: OnMount = (editor) => {
+    const target = editorTarget.current;
+    if (!target) return;
+    editor.revealLineInCenter(target.line);
+    editor.setPosition({ lineNumber: target.line, column: target.column });
+    editor.focus();
+  };
+
   const handleSave = () => {
     if (editingFile) {
       updateContentMutation.mutate({ fileId: editingFile.id, content: fileContent });
@@ -288,8 +329,8 @@ export default function FilesPage() {
     return Math.round(bytes / Math.pow(k, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const filteredFiles = files?.filter(file => 
-    file.path.toLowerCase().includes(searchQuery.toLowerCase())
+  const filteredFiles = files?.filter(file =>
+    searchMode === "contents" || file.path.toLowerCase().includes(searchQuery.toLowerCase())
   );
 
   if (isLoading) {
@@ -351,6 +392,7 @@ export default function FilesPage() {
               language={getLanguageFromPath(editingFile.path)}
               value={fileContent}
               onChange={(value) => setFileContent(value || "")}
+              onMount={handleEditorMount}
               theme="vs-dark"
               options={{
                 minimap: { enabled: false },
@@ -405,15 +447,70 @@ export default function FilesPage() {
       </div>
 
       {files && files.length > 0 && (
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search files..."
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-            data-testid="input-search-files"
-          />
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder={searchMode === "names" ? "Search files..." : "Search in file contents..."}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-files"
+              />
+            </div>
+            {searchMode === "contents" && (
+              <>
+                <Button
+                  variant={searchCaseSensitive ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => setSearchCaseSensitive(!searchCaseSensitive)}
+                  title="Match case"
+                  data-testid="button-search-case"
+                >
+                  <CaseSensitive className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={searchRegex ? "secondary" : "ghost"}
+                  size="icon"
+                  onClick={() => setSearchRegex(!searchRegex)}
+                  title="Use regular expression"
+                  data-testid="button-search-regex"
+                >
+                  <Regex className="h-4 w-4" />
+                </Button>
+              </>
+            )}
+            <div className="flex rounded-md border border-border p-0.5 shrink-0">
+              <Button
+                variant={searchMode === "names" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-8"
+                onClick={() => setSearchMode("names")}
+                data-testid="button-search-names"
+              >
+                Names
+              </Button>
+              <Button
+                variant={searchMode === "contents" ? "secondary" : "ghost"}
+                size="sm"
+                className="h-8"
+                onClick={() => setSearchMode("contents")}
+                data-testid="button-search-contents"
+              >
+                Contents
+              </Button>
+            </div>
+          </div>
+          {searchMode === "contents" && (
+            <Input
+              placeholder="Files to include, e.g. src/**/*.tsx,*.css"
+              value={searchInclude}
+              onChange={(e) => setSearchInclude(e.target.value)}
+              className="font-mono text-xs h-8"
+              data-testid="input-search-include"
+            />
+          )}
         </div>
       )}
 
@@ -428,7 +525,19 @@ export default function FilesPage() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {filteredFiles && filteredFiles.length > 0 ? (
+          {searchMode === "contents" && searchQuery ? (
+            searchError ? (
+              <p className="text-sm text-destructive" data-testid="text-search-error">
+                {searchError.message.replace(/^\d+: /, '').replace(/^\{"error":"(.*)"\}$/, '$1')}
+              </p>
+            ) : searchResults && !isSearching ? (
+              <FileSearchResults results={searchResults} onOpen={handleOpenMatch} />
+            ) : (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )
+          ) : filteredFiles && filteredFiles.length > 0 ? (
             <div className="space-y-2">
               {filteredFiles.map((file) => (
                 <div
@@ -1,6 +1,6 @@
 import { useQuery } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { Copy, Download, ExternalLink, Loader2, RefreshCw, Maximize2, Minimize2, Play } from "lucide-react";
+import { Copy, Download, ExternalLink, Loader2, RefreshCw, Maximize2, Minimize2, Play, ScrollText } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
@@ -9,6 +9,7 @@ import { useState, useEffect } from "react";
 import { auth } from "@/lib/firebase";
 import { queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import { ProcessLogsPanel } from "@/components/ProcessLogsPanel";
 
 export default function PreviewPage() {
   const { id: projectId } = useParams();
@@ -21,6 +22,7 @@ export default function PreviewPage() {
   const [overrideUrl, setOverrideUrl] = useState<string | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
   const [iframeError, setIframeError] = useState(false);
+  const [showLogs, setShowLogs] = useState(false);
 
   const { data: project, isLoading: projectLoading, refetch: refetchProject } = useQuery<Project>({
     queryKey: ["/api/projects", projectId],
@@ -272,6 +274,7 @@ export default function PreviewPage() {
         title: "Command started",
         description: project.workflowCommand,
       });
+      setShowLogs(true);
     } catch (error: any) {
       toast({
         title: "Failed to run command",
@@ -381,6 +384,17 @@ export default function PreviewPage() {
                   </Button>
                 )}
 
+                <Button
+                  variant={showLogs ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setShowLogs(!showLogs)}
+                  className="h-7 w-7 p-0"
+                  title={showLogs ? "Hide logs" : "Show logs"}
+                  data-testid="button-toggle-logs"
+                >
+                  <ScrollText className="h-3 w-3" />
+                </Button>
+
                 <Button
                   variant="ghost"
                   size="sm"
@@ -451,6 +465,13 @@ export default function PreviewPage() {
                 onError={() => setIframeError(true)}
               />
             </div>
+
+            {/* Process logs */}
+            {showLogs && projectId && (
+              <div className="h-48 sm:h-64 shrink-0 border-t border-border">
+                <ProcessLogsPanel projectId={projectId} />
+              </div>
+            )}
           </div>
         ) : (
           <div className="flex items-center justify-center h-full">
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { Plus, Trash2, FolderGit2, Clock } from "lucide-react";
+import { Plus, Trash2, FolderGit2, Clock, Coins } from "lucide-react";
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -20,6 +20,7 @@ import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import type { Project } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
+import { describeUsage, formatCost, formatTokens, totalTokens, type UserUsage } from "@/lib/usage";
 
 export default function ProjectsPage() {
   const [, setLocation] = useLocation();
@@ -32,6 +33,11 @@ export default function ProjectsPage() {
     queryKey: ["/api/projects"],
   });
 
+  const { data: usage } = useQuery<UserUsage>({
+    queryKey: ["/api/usage"],
+  });
+  const projectUsage = new Map(usage?.projects.map(p => [p.projectId, p]));
+
   const createMutation = useMutation({
     mutationFn: async (data: { name: string; description?: string }) => {
       return await apiRequest("POST", "/api/projects", data);
@@ -117,6 +123,15 @@ export default function ProjectsPage() {
           <p className="text-muted-foreground mt-1">
             Manage your AI-powered coding projects
           </p>
+          {usage && usage.totals.requests > 0 && (
+            <p
+              className="text-sm text-muted-foreground mt-1"
+              title={describeUsage(usage.totals)}
+              data-testid="text-total-usage"
+            >
+              Total usage: {formatTokens(totalTokens(usage.totals))} tokens · {formatCost(usage.totals.costUsd)}
+            </p>
+          )}
         </div>
         <Dialog open={open} onOpenChange={setOpen}>
           <DialogTrigger asChild>
@@ -195,55 +210,80 @@ export default function ProjectsPage() {
         </Card>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {projects?.map((project) => (
-            <Card
-              key={project.id}
-              className="hover-elevate cursor-pointer transition-all group"
-              onClick={() => setLocation(`/project/${project.id}/chat`)}
-              data-testid={`card-project-${project.id}`}
-            >
-              <CardHeader className="space-y-3">
-                <div className="flex items-start justify-between gap-2">
-                  <CardTitle className="text-xl line-clamp-1">{project.name}</CardTitle>
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="opacity-0 group-hover:opacity-100 transition-opacity"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      if (confirm("Are you sure you want to delete this project?")) {
-                        deleteMutation.mutate(project.id);
-                      }
-                    }}
-                    data-testid={`button-delete-${project.id}`}
-                  >
-                    <Trash2 className="h-4 w-4 text-destructive" />
-                  </Button>
-                </div>
-                {project.description && (
-                  <CardDescription className="line-clamp-2">
-                    {project.description}
-                  </CardDescription>
+          {projects?.map((project) => {
+            const usageForProject = projectUsage.get(project.id);
+
+            return (
+              <Card
+                key={project.id}
+                className="hover-elevate cursor-pointer transition-all group overflow-hidden"
+                onClick={() => setLocation(`/project/${project.id}/chat`)}
+                data-testid={`card-project-${project.id}`}
+              >
+                {project.thumbnailUrl && (
+                  <img
+                    src={project.thumbnailUrl}
+                    alt={`${project.name} preview`}
+                    loading="lazy"
+                    className="aspect-video w-full object-cover object-top border-b border-border bg-muted"
+                    data-testid={`img-thumbnail-${project.id}`}
+                  />
                 )}
-              </CardHeader>
-              <CardContent className="space-y-3">
-                {project.sandboxId && (
+                <CardHeader className="space-y-3">
+                  <div className="flex items-start justify-between gap-2">
+                    <CardTitle className="text-xl line-clamp-1">{project.name}</CardTitle>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (confirm("Are you sure you want to delete this project?")) {
+                          deleteMutation.mutate(project.id);
+                        }
+                      }}
+                      data-testid={`button-delete-${project.id}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                  {project.description && (
+                    <CardDescription className="line-clamp-2">
+                      {project.description}
+                    </CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  {project.sandboxId && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <FolderGit2 className="h-4 w-4" />
+                      <span className="font-mono text-xs truncate">
+                        Sandbox: {project.sandboxId}
+                      </span>
+                    </div>
+                  )}
+                  {usageForProject && (
+                    <div
+                      className="flex items-center gap-2 text-sm text-muted-foreground"
+                      title={describeUsage(usageForProject)}
+                      data-testid={`text-usage-${project.id}`}
+                    >
+                      <Coins className="h-4 w-4" />
+                      <span className="text-xs">
+                        {formatTokens(totalTokens(usageForProject))} tokens · {formatCost(usageForProject.costUsd)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <FolderGit2 className="h-4 w-4" />
-                    <span className="font-mono text-xs truncate">
-                      Sandbox: {project.sandboxId}
+                    <Clock className="h-4 w-4" />
+                    <span className="text-xs">
+                      {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
                     </span>
                   </div>
-                )}
-                <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                  <Clock className="h-4 w-4" />
-                  <span className="text-xs">
-                    {formatDistanceToNow(new Date(project.updatedAt), { addSuffix: true })}
-                  </span>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+                </CardContent>
+              </Card>
+            );
+          })}
         </div>
       )}
     </div>
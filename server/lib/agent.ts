@@ -0,0 +1,290 @@
+import { DEFAULT_REASONING_BUDGET, type LLMProvider, type Message, type ToolCall, type ToolResult, type ThinkingBlock, type TokenUsage, type ToolDefinition } from "./llm";
+import { executeToolCall, getToolCallSummary, TOOL_DEFINITIONS, type ToolExecution } from "./tools";
+import { addUsage, calculateCost, emptyUsage } from "./usage";
+
+// Maximum number of model turns per user message (each turn may call tools)
+export const MAX_AGENT_ITERATIONS = parseInt(process.env.AGENT_MAX_ITERATIONS || "10", 10);
+
+// Tool results fed back to the model are truncated to keep the context window bounded
+const MAX_TOOL_RESULT_CHARS = 20000;
+
+export interface AgentEvent {
+  type: string;
+  [key: string]: any;
+}
+
+export interface AgentToolCall {
+  name: string;
+  arguments: Record<string, any>;
+  summary: string;
+  result?: any;
+  error?: string;
+}
+
+export interface AgentAction {
+  description: string;
+  status?: 'pending' | 'in_progress' | 'completed' | 'error';
+}
+
+// A tool handled by the caller instead of executeToolCall (e.g. plan mode tools).
+// Returning endRun stops the loop once the current turn's tool calls have run.
+export interface LocalTool {
+  definition: ToolDefinition;
+  execute: (args: Record<string, any>) => ToolExecution & { endRun?: boolean };
+}
+
+export interface AgentRunOptions {
+  projectId: string;
+  provider: LLMProvider;
+  model: string;
+  messages: Message[];
+  systemPrompt: string;
+  enableReasoning?: boolean;
+  reasoningBudget?: number;
+  maxIterations?: number;
+  tools?: ToolDefinition[]; // Defaults to every project tool
+  localTools?: LocalTool[];
+  // Checks a project tool call before it runs (may wait for the user); returns an error to block it
+  authorizeToolCall?: (call: ToolCall) => Promise<string | null>;
+  // Runs right before a project tool call executes (e.g. to checkpoint the files it changes)
+  beforeToolCall?: (call: ToolCall) => Promise<void>;
+  // Runs when the model finishes (e.g. to type-check its changes); returned feedback is sent
+  // back as a new user turn so the model can fix the problems
+  verifyChanges?: (toolCalls: AgentToolCall[]) => Promise<string | null>;
+  signal?: AbortSignal; // Cancels the run: aborts the model stream and skips pending tool calls
+  emit: (event: AgentEvent) => void;
+}
+
+export interface AgentRunResult {
+  content: string;
+  thinking: string; // Thinking text of every turn
+  thinkingBlocks: ThinkingBlock[]; // Signed thinking blocks of the final turn
+  toolCalls: AgentToolCall[];
+  actions: AgentAction[];
+  iterations: number;
+  usage: TokenUsage; // Summed over all iterations
+  status: 'completed' | 'cancelled' | 'failed';
+  error?: string; // Why a failed run stopped
+}
+
+// Run the model in a loop: stream a turn, execute its tool calls, feed the results
+// back as the next user turn, and repeat until the model stops calling tools
+export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult> {
+  const { projectId, systemPrompt, signal, emit } = options;
+  const maxIterations = options.maxIterations ?? MAX_AGENT_ITERATIONS;
+  const conversation: Message[] = [...options.messages];
+
+  const textParts: string[] = [];
+  const thinkingParts: string[] = [];
+  let finalThinkingBlocks: ThinkingBlock[] = [];
+  const toolCalls: AgentToolCall[] = [];
+  const actions: AgentAction[] = [];
+  const usage = emptyUsage();
+  const pricing = options.provider.models.find(m => m.id === options.model)?.pricing;
+  const localTools = options.localTools || [];
+  const tools = [...(options.tools || TOOL_DEFINITIONS), ...localTools.map(tool => tool.definition)];
+  let iterations = 0;
+  let endRun = false;
+  let failure: string | undefined;
+
+  while (iterations < maxIterations && !signal?.aborted) {
+    iterations++;
+    emit({ type: 'iteration', iteration: iterations });
+
+    let turnText = "";
+    let turnThinking = "";
+    const turnToolCalls: ToolCall[] = [];
+    const turnThinkingBlocks: ThinkingBlock[] = [];
+
+    try {
+      for await (const chunk of options.provider.chatStream(conversation, {
+        model: options.model,
+        systemPrompt,
+        enableReasoning: options.enableReasoning || false,
+        reasoningBudget: options.reasoningBudget ?? DEFAULT_REASONING_BUDGET,
+        tools,
+        signal,
+      })) {
+        if (signal?.aborted) break;
+
+        if (chunk.type === 'text') {
+          turnText += chunk.content;
+          emit({ type: 'chunk', content: chunk.content });
+        } else if (chunk.type === 'thinking') {
+          turnThinking += chunk.content;
+          emit({ type: 'thinking', content: chunk.content });
+        } else if (chunk.type === 'thinking_block') {
+          turnThinkingBlocks.push(chunk.data);
+        } else if (chunk.type === 'action') {
+          actions.push(chunk.data);
+          emit({ type: 'action', action: chunk.data });
+        } else if (chunk.type === 'tool_call') {
+          turnToolCalls.push(chunk.data);
+        } else if (chunk.type === 'usage') {
+          addUsage(usage, chunk.data);
+          emit({ type: 'usage', usage, costUsd: calculateCost(pricing, usage) });
+        }
+      }
+    } catch (error: any) {
+      // The aborted stream throws - keep whatever was generated before the cancel. Any other
+      // error ends the run, keeping the turns that finished so the caller can still save them.
+      if (!signal?.aborted) {
+        failure = error.message || String(error);
+      }
+    }
+
+    if (turnText.trim()) {
+      textParts.push(turnText);
+    }
+    if (turnThinking.trim()) {
+      thinkingParts.push(turnThinking.trim());
+    }
+    finalThinkingBlocks = turnThinkingBlocks;
+
+    // Tool calls of the failed turn are dropped - its stream may have been cut off
+    if (failure) {
+      break;
+    }
+
+    // The model answered without calling tools - the task is finished unless verification fails
+    if (turnToolCalls.length === 0 || signal?.aborted) {
+      const feedback = !signal?.aborted && !endRun && iterations < maxIterations && options.verifyChanges
+        ? await options.verifyChanges(toolCalls)
+        : null;
+      if (!feedback || signal?.aborted) {
+        break;
+      }
+
+      conversation.push({
+        role: 'assistant',
+        content: turnText || 'Done.',
+        thinkingBlocks: turnThinkingBlocks.length > 0 ? turnThinkingBlocks : undefined,
+      });
+      conversation.push({ role: 'user', content: feedback });
+      continue;
+    }
+
+    const toolResults: ToolResult[] = [];
+    for (const call of turnToolCalls) {
+      // Tool calls still pending when the run is cancelled are skipped
+      if (signal?.aborted) break;
+
+      // Only declared tools run - a model may still call others, e.g. write_file in plan mode
+      const localTool = localTools.find(tool => tool.definition.name === call.name);
+      const record = tools.some(tool => tool.name === call.name)
+        ? await runToolCall(projectId, call, emit, localTool, options)
+        : rejectUndeclaredToolCall(call, emit);
+      endRun = endRun || !!record.endRun;
+      delete record.endRun;
+      toolCalls.push(record);
+      toolResults.push({
+        toolUseId: call.id,
+        content: formatToolResult(record),
+        isError: !!record.error,
+        ...(typeof record.result?.image === 'string' && { images: [record.result.image] }),
+      });
+    }
+
+    conversation.push({
+      role: 'assistant',
+      content: turnText,
+      toolCalls: turnToolCalls,
+      thinkingBlocks: turnThinkingBlocks.length > 0 ? turnThinkingBlocks : undefined,
+    });
+    conversation.push({ role: 'user', content: '', toolResults });
+
+    if (endRun) {
+      break;
+    }
+
+    if (iterations >= maxIterations) {
+      emit({ type: 'iteration_limit', iterations });
+    }
+  }
+
+  const status = signal?.aborted ? 'cancelled' : failure ? 'failed' : 'completed';
+  if (status === 'cancelled') {
+    emit({ type: 'cancelled' });
+  }
+
+  return {
+    content: textParts.join('\n\n'),
+    thinking: thinkingParts.join('\n\n'),
+    thinkingBlocks: finalThinkingBlocks,
+    toolCalls,
+    actions,
+    iterations,
+    usage,
+    status,
+    error: failure,
+  };
+}
+
+async function runToolCall(
+  projectId: string,
+  call: ToolCall,
+  emit: (event: AgentEvent) => void,
+  localTool?: LocalTool,
+  hooks: Pick<AgentRunOptions, 'authorizeToolCall' | 'beforeToolCall'> = {}
+): Promise<AgentToolCall & { endRun?: boolean }> {
+  const { name, arguments: args } = call;
+
+  // Send tool_start event to show loading state
+  emit({ type: 'tool_start', name, summary: getToolCallSummary(name, args) });
+
+  if (call.error) {
+    emit({ type: 'error', message: call.error });
+    return { name, arguments: args, summary: `Failed: ${name}`, error: call.error };
+  }
+
+  try {
+    // Local tools only touch run state, so the tool policy doesn't apply to them
+    const blockedReason = !localTool && hooks.authorizeToolCall ? await hooks.authorizeToolCall(call) : null;
+    if (blockedReason) {
+      emit({ type: 'tool_blocked', name, reason: blockedReason });
+      return { name, arguments: args, summary: `Blocked: ${name}`, error: blockedReason };
+    }
+
+    if (localTool) {
+      const { summary, result, endRun } = localTool.execute(args);
+      emit({ type: 'tool_complete', name, summary });
+      return { name, arguments: args, summary, result, endRun };
+    }
+
+    await hooks.beforeToolCall?.(call);
+    const { summary, result } = await executeToolCall(projectId, name, args);
+    // File edits send their diff and screenshots their image along so the chat can show them
+    emit({
+      type: 'tool_complete',
+      name,
+      summary,
+      ...(result?.diff && { diff: result.diff }),
+      ...(result?.image && { image: result.image }),
+    });
+    return { name, arguments: args, summary, result };
+  } catch (error: any) {
+    console.error(`Tool execution error (${name}):`, error);
+    emit({ type: 'error', message: error.message });
+    return { name, arguments: args, summary: `Failed: ${name}`, error: error.message };
+  }
+}
+
+function rejectUndeclaredToolCall(call: ToolCall, emit: (event: AgentEvent) => void): AgentToolCall & { endRun?: boolean } {
+  const reason = `Tool ${call.name} is not available in this run`;
+  emit({ type: 'tool_start', name: call.name, summary: getToolCallSummary(call.name, call.arguments) });
+  emit({ type: 'tool_blocked', name: call.name, reason });
+  return { name: call.name, arguments: call.arguments, summary: `Blocked: ${call.name}`, error: reason };
+}
+
+function formatToolResult(record: AgentToolCall): string {
+  const payload = record.error
+    ? { summary: record.summary, error: record.error }
+    : { summary: record.summary, result: record.result };
+
+  const serialized = JSON.stringify(payload);
+  if (serialized.length > MAX_TOOL_RESULT_CHARS) {
+    return `${serialized.slice(0, MAX_TOOL_RESULT_CHARS)}... [truncated ${serialized.length - MAX_TOOL_RESULT_CHARS} characters]`;
+  }
+
+  return serialized;
+}
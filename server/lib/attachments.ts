@@ -0,0 +1,196 @@
+// Chat attachment uploads - classifies uploaded files and prepares ZIP archives, which are
+// listed for the model and can be extracted into the project's files
+import JSZip from "jszip";
+import type { FileAttachment, FileAttachmentKind } from "@shared/schema";
+import { storage } from "../storage";
+import { uploadFileToS3 } from "./s3";
+import { getSandbox, writeFileToSandbox } from "./e2b";
+
+export const MAX_IMAGE_UPLOAD_SIZE = 5 * 1024 * 1024;
+export const MAX_ATTACHMENT_UPLOAD_SIZE = 10 * 1024 * 1024;
+
+const MAX_LISTED_ZIP_ENTRIES = 300;
+const MAX_EXTRACTED_FILES = 500;
+const MAX_EXTRACTED_FILE_SIZE = 1024 * 1024;
+const MAX_EXTRACTED_TOTAL_SIZE = 20 * 1024 * 1024;
+
+const IMAGE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+// Code, docs and data files sent to the model as text
+const TEXT_FILE_PATTERN = /\.(txt|md|markdown|rst|csv|tsv|json|jsonl|ya?ml|toml|xml|ini|cfg|conf|env|log|sql|graphql|html?|css|scss|sass|less|[cm]?[jt]sx?|vue|svelte|py|rb|go|rs|java|kt|swift|c|h|cc|cpp|hpp|cs|php|sh|bash|zsh|ps1|dockerfile|gitignore)$/i;
+
+// Archive entries that are never listed or extracted
+const SKIPPED_ZIP_ENTRY_PATTERN = /(^|\/)(node_modules|\.git|__MACOSX|dist|build)\/|(^|\/)\.DS_Store$/;
+
+export type UploadKind = 'image' | FileAttachmentKind;
+
+// What kind of attachment an upload is, or null if it isn't supported
+export function classifyUpload(fileName: string, mimeType: string): UploadKind | null {
+  if (IMAGE_MIME_TYPES.includes(mimeType)) return 'image';
+  if (mimeType === 'application/pdf' || /\.pdf$/i.test(fileName)) return 'pdf';
+  if (/zip/.test(mimeType) || /\.zip$/i.test(fileName)) return 'zip';
+  if (mimeType.startsWith('text/') || TEXT_FILE_PATTERN.test(fileName) || /json|xml|yaml|javascript|typescript/.test(mimeType)) {
+    return 'text';
+  }
+  return null;
+}
+
+export interface PreparedArchive {
+  listing: string;
+  extractedTo?: string;
+  extracted: string[]; // Project paths written
+  skipped: string[]; // Archive entries not extracted (binary, too large or excluded)
+}
+
+// Archives of a single folder (e.g. "repo-main/") are extracted without that folder
+function getCommonRoot(paths: string[]): string {
+  const first = paths[0]?.split('/')[0];
+  if (!first || !paths.every(path => path.startsWith(`${first}/`))) return '';
+  return `${first}/`;
+}
+
+function isBinary(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+// The uncompressed size an entry's header declares. JSZip keeps it on the private _data field.
+function getDeclaredSize(entry: JSZip.JSZipObject): number | undefined {
+  return (entry as JSZip.JSZipObject & { _data?: { uncompressedSize?: number } })._data?.uncompressedSize;
+}
+
+// Decompress an entry through a stream, giving up (null) once it passes maxBytes. Headers can
+// understate the size, so the count of inflated bytes is what's trusted.
+function readEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let aborted = false;
+    stream.on('data', (chunk: Buffer) => {
+      if (aborted) return;
+      size += chunk.length;
+      if (size > maxBytes) {
+        // JSZip still reports a size mismatch for the abandoned entry; it's ignored below
+        aborted = true;
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', error => {
+      if (!aborted) reject(error);
+    });
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
+  });
+}
+
+export interface ArchiveTextFile {
+  name: string; // Entry name in the archive
+  content: Buffer;
+}
+
+// Read the archive's text files, skipping excluded, binary and oversized entries. Each file is
+// capped at MAX_EXTRACTED_FILE_SIZE and the whole archive at MAX_EXTRACTED_TOTAL_SIZE.
+export async function readArchiveTextFiles(
+  entries: JSZip.JSZipObject[]
+): Promise<{ files: ArchiveTextFile[]; skipped: string[] }> {
+  const files: ArchiveTextFile[] = [];
+  const skipped: string[] = [];
+  let totalSize = 0;
+
+  for (const entry of entries) {
+    const maxBytes = Math.min(MAX_EXTRACTED_FILE_SIZE, MAX_EXTRACTED_TOTAL_SIZE - totalSize);
+    const declaredSize = getDeclaredSize(entry);
+    if (
+      SKIPPED_ZIP_ENTRY_PATTERN.test(entry.name) ||
+      entry.name.split('/').includes('..') ||
+      files.length >= MAX_EXTRACTED_FILES ||
+      (declaredSize !== undefined && declaredSize > maxBytes)
+    ) {
+      skipped.push(entry.name);
+      continue;
+    }
+
+    const content = await readEntry(entry, maxBytes);
+    if (!content || isBinary(content)) {
+      skipped.push(entry.name);
+      continue;
+    }
+    totalSize += content.length;
+    files.push({ name: entry.name, content });
+  }
+
+  return { files, skipped };
+}
+
+// List a ZIP archive for the model and, if extractTo is set ('' for the project root),
+// write its text files into the project (S3, files table and the live sandbox, if any)
+export async function prepareZipAttachment(
+  projectId: string,
+  buffer: Buffer,
+  extractTo?: string
+): Promise<PreparedArchive> {
+  const zip = await JSZip.loadAsync(buffer);
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+
+  // Dependency, VCS and build folders are left out of the listing
+  const listable = entries.filter(entry => !SKIPPED_ZIP_ENTRY_PATTERN.test(entry.name));
+  const listed = listable.slice(0, MAX_LISTED_ZIP_ENTRIES).map(entry => `- ${entry.name}`);
+  if (listable.length > MAX_LISTED_ZIP_ENTRIES) {
+    listed.push(`- ... and ${listable.length - MAX_LISTED_ZIP_ENTRIES} more files`);
+  }
+  if (listable.length < entries.length) {
+    listed.push(`(${entries.length - listable.length} files in node_modules, .git or build folders not listed)`);
+  }
+  const listing = `${entries.length} files:\n${listed.join('\n')}`;
+
+  if (extractTo === undefined) {
+    return { listing, extracted: [], skipped: [] };
+  }
+
+  const root = getCommonRoot(entries.map(entry => entry.name));
+  const targetDir = extractTo.replace(/^\/+|\/+$/g, '');
+  if (targetDir.split('/').includes('..')) {
+    throw new Error('Invalid extraction folder');
+  }
+  const hasSandbox = !!(await getSandbox(projectId));
+  const { files, skipped } = await readArchiveTextFiles(entries);
+  const extracted: string[] = [];
+
+  for (const file of files) {
+    const relativePath = file.name.slice(root.length).replace(/^\/+/, '');
+    const path = targetDir ? `${targetDir}/${relativePath}` : relativePath;
+    const text = file.content.toString('utf-8');
+    const s3Key = await uploadFileToS3(projectId, path, text);
+    const existingFile = await storage.getFileByPath(projectId, path);
+    if (existingFile) {
+      await storage.updateFile(existingFile.id, { s3Key, size: file.content.length });
+    } else {
+      await storage.createFile({ projectId, path, s3Key, size: file.content.length });
+    }
+    if (hasSandbox) {
+      await writeFileToSandbox(projectId, path, text);
+    }
+    extracted.push(path);
+  }
+
+  return { listing, extractedTo: targetDir, extracted, skipped };
+}
+
+export function toFileAttachment(
+  kind: FileAttachmentKind,
+  url: string,
+  file: { originalname: string; mimetype: string; size: number },
+  archive?: PreparedArchive
+): FileAttachment {
+  return {
+    kind,
+    url,
+    name: file.originalname,
+    mimeType: file.mimetype,
+    size: file.size,
+    ...(archive && { listing: archive.listing }),
+    ...(archive?.extractedTo !== undefined && { extractedTo: archive.extractedTo }),
+  };
+}
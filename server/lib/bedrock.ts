@@ -2,23 +2,22 @@ import {
   BedrockRuntimeClient,
   InvokeModelWithResponseStreamCommand,
 } from "@aws-sdk/client-bedrock-runtime";
-
-interface Message {
-  role: "user" | "assistant" | "system";
-  content: string;
-  attachments?: Array<{ url: string }>;
-}
-
-interface ToolCall {
-  name: string;
-  arguments: Record<string, any>;
-}
-
-interface ChatResponse {
-  content: string;
-  thinking?: string;
-  toolCalls?: ToolCall[];
-}
+import {
+  parseActionsFromBuffer,
+  isImageAttachment,
+  loadAttachment,
+  loadToolResultImages,
+  DEFAULT_REASONING_BUDGET,
+  type ChatStreamOptions,
+  type LLMModel,
+  type LLMProvider,
+  type Message,
+  type ModelPricing,
+  type StreamChunk,
+  type ThinkingBlock,
+  type TokenUsage,
+  type ToolCall,
+} from "./llm";
 
 const client = new BedrockRuntimeClient({
   region: process.env.AWS_REGION || "us-east-1",
@@ -29,14 +28,14 @@ const client = new BedrockRuntimeClient({
 });
 
 // Use inference profile ARN for Claude Sonnet 4.5
-const MODEL_ID = "us.anthropic.claude-sonnet-4-5-20250929-v1:0";
+const DEFAULT_MODEL_ID = "us.anthropic.claude-sonnet-4-5-20250929-v1:0";
 
 export async function* chatWithAIStream(
   messages: Message[],
-  systemPrompt?: string,
-  enableReasoning: boolean = false,
-  reasoningBudget: number = 4096
-): AsyncGenerator<{ type: 'text' | 'thinking' | 'action' | 'tool_call'; content?: string; data?: any }, void, unknown> {
+  options: ChatStreamOptions = {}
+): AsyncGenerator<StreamChunk, void, unknown> {
+  const { systemPrompt, enableReasoning = false, reasoningBudget = DEFAULT_REASONING_BUDGET, tools } = options;
+
   if (!process.env.AWS_ACCESS_KEY_ID || !process.env.AWS_SECRET_ACCESS_KEY) {
     throw new Error("AWS credentials are not set");
   }
@@ -45,46 +44,81 @@ export async function* chatWithAIStream(
     messages
       .filter(msg => msg.role !== "system")
       .map(async msg => {
-        const contentBlocks: Array<{ type: string; text?: string; source?: any }> = [];
+        const contentBlocks: Array<Record<string, any>> = [];
+
+        // Thinking blocks lead the assistant turn they were produced in
+        if (msg.role === "assistant" && msg.thinkingBlocks) {
+          contentBlocks.push(...msg.thinkingBlocks);
+        }
+
+        // Tool results must come first in the user turn that answers a tool_use turn
+        if (msg.toolResults) {
+          for (const toolResult of msg.toolResults) {
+            // Images returned by a tool go inside its result, after the text
+            const images = await loadToolResultImages(toolResult);
+            contentBlocks.push({
+              type: "tool_result",
+              tool_use_id: toolResult.toolUseId,
+              content: images.length > 0
+                ? [
+                    { type: "text", text: toolResult.content },
+                    ...images.map(image => ({
+                      type: "image",
+                      source: { type: "base64", media_type: image.mediaType, data: image.data },
+                    })),
+                  ]
+                : toolResult.content,
+              is_error: toolResult.isError || undefined,
+            });
+          }
+        }
         
-        // Add images first if present
+        // Add attachments first if present: images, PDFs as document blocks, text files as text
         if (msg.attachments && Array.isArray(msg.attachments) && msg.attachments.length > 0) {
           for (const attachment of msg.attachments) {
             try {
-              const imageUrl = typeof attachment === 'string' ? attachment : attachment.url;
-              
-              // Determine media type from URL or default to jpeg
-              let mediaType = 'image/jpeg';
-              if (imageUrl.includes('.png')) mediaType = 'image/png';
-              else if (imageUrl.includes('.gif')) mediaType = 'image/gif';
-              else if (imageUrl.includes('.webp')) mediaType = 'image/webp';
-              else if (imageUrl.includes('.jpg') || imageUrl.includes('.jpeg')) mediaType = 'image/jpeg';
-              
-              // Fetch image from S3 and convert to base64
-              const response = await fetch(imageUrl);
-              if (!response.ok) {
-                throw new Error(`Failed to fetch image: ${response.statusText}`);
+              // Fetch from S3 and convert to base64
+              const loaded = await loadAttachment(attachment);
+
+              if (loaded.type === 'text') {
+                contentBlocks.push({ type: "text", text: loaded.text });
+              } else {
+                contentBlocks.push({
+                  type: loaded.type,
+                  source: {
+                    type: "base64",
+                    media_type: loaded.mediaType,
+                    data: loaded.data
+                  },
+                  ...(loaded.type === 'document' && { title: loaded.name }),
+                });
               }
-              
-              const arrayBuffer = await response.arrayBuffer();
-              const base64Data = Buffer.from(arrayBuffer).toString('base64');
-              
-              contentBlocks.push({
-                type: "image",
-                source: {
-                  type: "base64",
-                  media_type: mediaType,
-                  data: base64Data
-                }
-              });
             } catch (error) {
-              console.error('Failed to fetch image for vision:', error);
+              console.error('Failed to fetch attachment:', error);
             }
           }
         }
         
-        // Add text content
-        contentBlocks.push({ type: "text", text: msg.content });
+        // Add text content (empty text blocks are rejected by the API)
+        if (msg.content.trim()) {
+          contentBlocks.push({ type: "text", text: msg.content });
+        }
+
+        // Tool calls close the assistant turn
+        if (msg.toolCalls) {
+          for (const toolCall of msg.toolCalls) {
+            contentBlocks.push({
+              type: "tool_use",
+              id: toolCall.id,
+              name: toolCall.name,
+              input: toolCall.arguments,
+            });
+          }
+        }
+
+        if (contentBlocks.length === 0) {
+          contentBlocks.push({ type: "text", text: "(empty)" });
+        }
         
         return {
           role: msg.role === "assistant" ? "assistant" : "user",
@@ -95,7 +129,8 @@ export async function* chatWithAIStream(
 
   const requestBody: any = {
     anthropic_version: "bedrock-2023-05-31",
-    max_tokens: 8192,
+    // The thinking budget counts toward max_tokens, so it is added to the room for the answer
+    max_tokens: 8192 + (enableReasoning ? reasoningBudget : 0),
     temperature: 1.0,
     messages: conversationMessages,
   };
@@ -104,6 +139,10 @@ export async function* chatWithAIStream(
     requestBody.system = systemPrompt;
   }
 
+  if (tools && tools.length > 0) {
+    requestBody.tools = tools;
+  }
+
   if (enableReasoning) {
     requestBody.thinking = {
       type: "enabled",
@@ -112,44 +151,73 @@ export async function* chatWithAIStream(
   }
 
   const command = new InvokeModelWithResponseStreamCommand({
-    modelId: MODEL_ID,
+    modelId: options.model || DEFAULT_MODEL_ID,
     contentType: "application/json",
     accept: "application/json",
     body: JSON.stringify(requestBody),
   });
 
   try {
-    const response = await client.send(command);
+    const response = await client.send(command, { abortSignal: options.signal });
 
     if (!response.body) {
       throw new Error("No response body from Bedrock");
     }
 
-    let fullContent = "";
-    let fullThinking = "";
     let buffer = "";
     let currentBlockType = "";
+    let currentThinking: ThinkingBlock | null = null;
+    let currentToolUse: { id: string; name: string; inputJson: string } | null = null;
+    let thinkingChars = 0;
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
 
     for await (const event of response.body) {
       if (event.chunk) {
         const chunk = JSON.parse(new TextDecoder().decode(event.chunk.bytes));
 
-        if (chunk.type === "content_block_start") {
-          currentBlockType = chunk.content_block?.type || "";
+        if (chunk.type === "message_start") {
+          // Input and cache usage arrive up front; output_tokens is updated by message_delta
+          const startUsage = chunk.message?.usage || {};
+          usage.inputTokens = startUsage.input_tokens || 0;
+          usage.cacheReadTokens = startUsage.cache_read_input_tokens || 0;
+          usage.cacheWriteTokens = startUsage.cache_creation_input_tokens || 0;
+          usage.outputTokens = startUsage.output_tokens || 0;
+        } else if (chunk.type === "message_delta") {
+          if (chunk.usage?.output_tokens !== undefined) {
+            usage.outputTokens = chunk.usage.output_tokens;
+          }
+        } else if (chunk.type === "content_block_start") {
+          const block = chunk.content_block;
+          currentBlockType = block?.type || "";
           
           if (currentBlockType === "thinking") {
+            currentThinking = { type: "thinking", thinking: "", signature: "" };
             yield { type: 'thinking', content: "" };
+          } else if (currentBlockType === "redacted_thinking") {
+            currentThinking = { type: "redacted_thinking", data: block.data || "" };
+          } else if (currentBlockType === "tool_use") {
+            currentToolUse = { id: block.id, name: block.name, inputJson: "" };
           }
         } else if (chunk.type === "content_block_delta") {
           const delta = chunk.delta;
 
           if (delta?.type === "thinking_delta") {
             const thinkingText = delta.thinking || "";
-            fullThinking += thinkingText;
+            if (currentThinking?.type === "thinking") {
+              currentThinking.thinking += thinkingText;
+            }
+            thinkingChars += thinkingText.length;
             yield { type: 'thinking', content: thinkingText };
+          } else if (delta?.type === "signature_delta") {
+            if (currentThinking?.type === "thinking") {
+              currentThinking.signature += delta.signature || "";
+            }
+          } else if (delta?.type === "input_json_delta") {
+            if (currentToolUse) {
+              currentToolUse.inputJson += delta.partial_json || "";
+            }
           } else if (delta?.type === "text_delta") {
             const textContent = delta.text || "";
-            fullContent += textContent;
             buffer += textContent;
 
             const actionMatches = parseActionsFromBuffer(buffer);
@@ -161,6 +229,14 @@ export async function* chatWithAIStream(
             yield { type: 'text', content: textContent };
           }
         } else if (chunk.type === "content_block_stop") {
+          if (currentThinking) {
+            yield { type: 'thinking_block', data: currentThinking };
+            currentThinking = null;
+          }
+          if (currentToolUse) {
+            yield { type: 'tool_call', data: parseToolUse(currentToolUse) };
+            currentToolUse = null;
+          }
           currentBlockType = "";
         } else if (chunk.type === "message_stop") {
           break;
@@ -175,277 +251,332 @@ export async function* chatWithAIStream(
       }
     }
 
-    const toolCalls = parseToolCalls(fullContent);
-    for (const toolCall of toolCalls) {
-      yield { type: 'tool_call', data: toolCall };
-    }
+    // Thinking is billed as output but not reported separately, so estimate it (~4 chars per token)
+    usage.thinkingTokens = Math.min(Math.ceil(thinkingChars / 4), usage.outputTokens);
+    yield { type: 'usage', data: usage };
   } catch (error) {
-    console.error("Bedrock streaming error:", error);
+    if (!options.signal?.aborted) {
+      console.error("Bedrock streaming error:", error);
+    }
     throw error;
   }
 }
 
-export async function chatWithAI(
-  messages: Message[],
-  systemPrompt?: string,
-  enableReasoning: boolean = false,
-  reasoningBudget: number = 4096
-): Promise<ChatResponse> {
-  let content = "";
-  let thinking = "";
-  const toolCalls: ToolCall[] = [];
-
-  for await (const event of chatWithAIStream(messages, systemPrompt, enableReasoning, reasoningBudget)) {
-    if (event.type === 'text' && event.content) {
-      content += event.content;
-    } else if (event.type === 'thinking' && event.content) {
-      thinking += event.content;
-    } else if (event.type === 'tool_call' && event.data) {
-      toolCalls.push(event.data);
-    }
+function parseToolUse(toolUse: { id: string; name: string; inputJson: string }): ToolCall {
+  if (!toolUse.inputJson.trim()) {
+    return { id: toolUse.id, name: toolUse.name, arguments: {} };
   }
 
-  return {
-    content,
-    thinking: thinking || undefined,
-    toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
-  };
+  try {
+    return { id: toolUse.id, name: toolUse.name, arguments: JSON.parse(toolUse.inputJson) };
+  } catch (e) {
+    // Usually means the response hit max_tokens in the middle of the tool input
+    console.error(`Failed to parse input for tool ${toolUse.name}:`, e);
+    return {
+      id: toolUse.id,
+      name: toolUse.name,
+      arguments: {},
+      error: `Tool input was not valid JSON (possibly truncated): ${toolUse.inputJson.substring(0, 200)}...`,
+    };
+  }
 }
 
-interface ActionMatch {
-  description: string;
-  status?: 'pending' | 'in_progress' | 'completed' | 'error';
-}
+export const bedrockProvider: LLMProvider = {
+  id: "bedrock",
+  name: "Amazon Bedrock",
+  models: [
+    {
+      id: DEFAULT_MODEL_ID,
+      name: "Claude Sonnet 4.5",
+      contextWindow: 200000,
+      supportsThinking: true,
+      supportsVision: true,
+      pricing: { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+    },
+    {
+      id: "us.anthropic.claude-haiku-4-5-20251001-v1:0",
+      name: "Claude Haiku 4.5",
+      contextWindow: 200000,
+      supportsThinking: true,
+      supportsVision: true,
+      pricing: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+    },
+  ],
+  defaultModel: DEFAULT_MODEL_ID,
+  isConfigured: () => !!(process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY),
+  chatStream: chatWithAIStream,
+};
+
+// OpenAI-compatible chat completions integration (OpenAI, llama.cpp, vLLM, Ollama, LM Studio, ...)
+// Base URL of the server, including the API prefix (e.g. http://localhost:11434/v1 for Ollama)
+const OPENAI_ENDPOINT = (process.env.OPENAI_BASE_URL || "").replace(/\/+$/, "");
+
+// Comma-separated model IDs served by the endpoint; the first one is the default
+const OPENAI_MODEL_IDS = (process.env.OPENAI_MODELS || "default")
+  .split(",")
+  .map(id => id.trim())
+  .filter(Boolean);
+
+const OPENAI_CONTEXT_TOKENS = parseInt(process.env.OPENAI_CONTEXT_WINDOW || "32768", 10);
+
+// Only send images to models that accept image_url content parts
+const OPENAI_SUPPORTS_VISION = process.env.OPENAI_VISION === "true";
+
+// Optional USD prices per million tokens (self-hosted models are free by default)
+const OPENAI_PRICING: ModelPricing | undefined = process.env.OPENAI_PRICE_INPUT || process.env.OPENAI_PRICE_OUTPUT
+  ? {
+      input: parseFloat(process.env.OPENAI_PRICE_INPUT || "0"),
+      output: parseFloat(process.env.OPENAI_PRICE_OUTPUT || "0"),
+    }
+  : undefined;
 
-function parseActionsFromBuffer(buffer: string, isFinal: boolean = false): { actions: ActionMatch[], remaining: string } {
-  const actions: ActionMatch[] = [];
-  let remaining = buffer;
+async function toOpenAIMessages(messages: Message[], systemPrompt?: string): Promise<any[]> {
+  const result: any[] = [];
 
-  const actionPattern = /\[action:(.*?)\]/g;
-  let match;
-  let lastIndex = 0;
+  if (systemPrompt) {
+    result.push({ role: "system", content: systemPrompt });
+  }
 
-  while ((match = actionPattern.exec(buffer)) !== null) {
-    const description = match[1].trim();
-    if (description) {
-      actions.push({ 
-        description,
-        status: 'in_progress'
+  for (const msg of messages) {
+    if (msg.role === "system") continue;
+
+    if (msg.role === "assistant") {
+      result.push({
+        role: "assistant",
+        content: msg.content || null,
+        tool_calls: msg.toolCalls?.map(toolCall => ({
+          id: toolCall.id,
+          type: "function",
+          function: { name: toolCall.name, arguments: JSON.stringify(toolCall.arguments) },
+        })),
+      });
+      continue;
+    }
+
+    // Tool results are separate "tool" messages that must directly follow the assistant turn
+    for (const toolResult of msg.toolResults || []) {
+      result.push({
+        role: "tool",
+        tool_call_id: toolResult.toolUseId,
+        content: toolResult.isError ? `Error: ${toolResult.content}` : toolResult.content,
       });
     }
-    lastIndex = match.index + match[0].length;
-  }
 
-  if (!isFinal && lastIndex > 0) {
-    const partialMatch = buffer.slice(lastIndex).match(/\[action:/);
-    if (partialMatch) {
-      remaining = buffer.slice(lastIndex);
-    } else {
-      remaining = "";
+    // Images need a vision model; PDFs are not supported by chat completions
+    const parts: any[] = [];
+    // Tool messages are text-only, so images returned by tools follow in a user message
+    if (OPENAI_SUPPORTS_VISION) {
+      for (const toolResult of msg.toolResults || []) {
+        for (const image of await loadToolResultImages(toolResult)) {
+          parts.push({ type: "image_url", image_url: { url: `data:${image.mediaType};base64,${image.data}` } });
+        }
+      }
+    }
+    for (const attachment of msg.attachments || []) {
+      if (!OPENAI_SUPPORTS_VISION && isImageAttachment(attachment)) continue;
+      try {
+        const loaded = await loadAttachment(attachment);
+        if (loaded.type === 'image') {
+          parts.push({ type: "image_url", image_url: { url: `data:${loaded.mediaType};base64,${loaded.data}` } });
+        } else if (loaded.type === 'document') {
+          parts.push({ type: "text", text: `[Attached PDF: ${loaded.name} - this model cannot read PDFs]` });
+        } else {
+          parts.push({ type: "text", text: loaded.text });
+        }
+      } catch (error) {
+        console.error('Failed to fetch attachment:', error);
+      }
+    }
+
+    if (parts.length > 0) {
+      if (msg.content.trim()) {
+        parts.push({ type: "text", text: msg.content });
+      }
+      result.push({ role: "user", content: parts });
+    } else if (msg.content.trim() || !msg.toolResults) {
+      result.push({ role: "user", content: msg.content });
     }
-  } else if (isFinal) {
-    remaining = "";
   }
 
-  return { actions, remaining };
+  return result;
 }
 
-function parseToolCalls(content: string): ToolCall[] {
-  const tools: ToolCall[] = [];
+// Parse a server-sent events response body into JSON payloads
+async function* readEventStream(body: ReadableStream<Uint8Array>): AsyncGenerator<any, void, unknown> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
 
-  const toolPattern = /\[tool:(\w+)\](\{[\s\S]*?)(?=\[tool:|$)/g;
-  let match;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
 
-  while ((match = toolPattern.exec(content)) !== null) {
-    try {
-      const toolName = match[1];
-      let jsonStr = match[2].trim();
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
 
-      let braceCount = 0;
-      let jsonEnd = 0;
-      for (let i = 0; i < jsonStr.length; i++) {
-        if (jsonStr[i] === '{') braceCount++;
-        if (jsonStr[i] === '}') braceCount--;
-        if (braceCount === 0 && i > 0) {
-          jsonEnd = i + 1;
-          break;
-        }
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (!trimmed.startsWith("data:")) continue;
+
+      const data = trimmed.slice(5).trim();
+      if (data === "[DONE]") return;
+
+      try {
+        yield JSON.parse(data);
+      } catch (e) {
+        console.error("Failed to parse OpenAI-compatible stream event:", data.substring(0, 200));
       }
+    }
+  }
+}
+
+export async function* chatWithOpenAICompatibleStream(
+  messages: Message[],
+  options: ChatStreamOptions = {}
+): AsyncGenerator<StreamChunk, void, unknown> {
+  if (!OPENAI_ENDPOINT) {
+    throw new Error("OPENAI_BASE_URL is not set");
+  }
+
+  const { systemPrompt, tools } = options;
+
+  const requestBody: any = {
+    model: options.model || OPENAI_MODEL_IDS[0],
+    stream: true,
+    stream_options: { include_usage: true },
+    messages: await toOpenAIMessages(messages, systemPrompt),
+  };
+
+  if (tools && tools.length > 0) {
+    requestBody.tools = tools.map(tool => ({
+      type: "function",
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    }));
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (process.env.OPENAI_API_KEY) {
+    headers["Authorization"] = `Bearer ${process.env.OPENAI_API_KEY}`;
+  }
+
+  const response = await fetch(`${OPENAI_ENDPOINT}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify(requestBody),
+    signal: options.signal,
+  });
 
-      if (jsonEnd > 0) {
-        jsonStr = jsonStr.substring(0, jsonEnd);
+  if (!response.ok || !response.body) {
+    const errorText = await response.text().catch(() => "");
+    throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText} ${errorText}`.trim());
+  }
+
+  let buffer = "";
+  let startedThinking = false;
+  // Tool call fragments arrive keyed by index; the name and ID come first, arguments stream in
+  const pendingToolCalls = new Map<number, { id: string; name: string; argumentsJson: string }>();
+  let usage: TokenUsage | undefined;
+
+  for await (const event of readEventStream(response.body)) {
+    // With include_usage the final event has usage and no choices
+    if (event.usage) {
+      const cachedTokens = event.usage.prompt_tokens_details?.cached_tokens || 0;
+      usage = {
+        inputTokens: (event.usage.prompt_tokens || 0) - cachedTokens,
+        outputTokens: event.usage.completion_tokens || 0,
+        thinkingTokens: event.usage.completion_tokens_details?.reasoning_tokens || 0,
+        cacheReadTokens: cachedTokens,
+        cacheWriteTokens: 0,
+      };
+    }
+
+    const delta = event.choices?.[0]?.delta;
+    if (!delta) continue;
+
+    // Reasoning models expose thinking as reasoning_content (vLLM, llama.cpp) or reasoning (Ollama)
+    const reasoning = delta.reasoning_content || delta.reasoning;
+    if (reasoning) {
+      if (!startedThinking) {
+        startedThinking = true;
+        yield { type: 'thinking', content: "" };
+      }
+      yield { type: 'thinking', content: reasoning };
+    }
+
+    if (delta.content) {
+      buffer += delta.content;
+
+      const actionMatches = parseActionsFromBuffer(buffer);
+      for (const action of actionMatches.actions) {
+        yield { type: 'action', data: action };
       }
+      buffer = actionMatches.remaining;
+
+      yield { type: 'text', content: delta.content };
+    }
 
-      const args = JSON.parse(jsonStr);
-      tools.push({ name: toolName, arguments: args });
-    } catch (e) {
-      console.error("Failed to parse tool call:", e);
-      const toolName = match[1];
-      console.error(`Tool: ${toolName}, Raw args: ${match[2].substring(0, 500)}...`);
+    for (const toolCallDelta of delta.tool_calls || []) {
+      const index = toolCallDelta.index ?? 0;
+      const pending = pendingToolCalls.get(index) || { id: "", name: "", argumentsJson: "" };
+      if (toolCallDelta.id) pending.id = toolCallDelta.id;
+      if (toolCallDelta.function?.name) pending.name += toolCallDelta.function.name;
+      if (toolCallDelta.function?.arguments) pending.argumentsJson += toolCallDelta.function.arguments;
+      pendingToolCalls.set(index, pending);
     }
   }
 
-  return tools;
+  if (buffer.trim()) {
+    const finalActions = parseActionsFromBuffer(buffer, true);
+    for (const action of finalActions.actions) {
+      yield { type: 'action', data: action };
+    }
+  }
+
+  for (const [index, pending] of Array.from(pendingToolCalls.entries())) {
+    yield { type: 'tool_call', data: parseOpenAIToolCall(pending, index) };
+  }
+
+  if (usage) {
+    yield { type: 'usage', data: usage };
+  }
 }
 
-export function getToolCallSummary(toolName: string, args: Record<string, any>): string {
-  switch (toolName) {
-    case "create_boilerplate":
-      return `Created ${args.type} boilerplate`;
-    case "write_file":
-      return `Created ${args.path}`;
-    case "edit_file":
-      return `Edited ${args.path}`;
-    case "delete_file":
-      return `Deleted ${args.path}`;
-    case "list_files":
-      return `Listed all files`;
-    case "read_file":
-      return `Read ${args.path}`;
-    case "run_shell":
-      return `Ran shell command: ${args.command}`;
-    case "serper_web_search":
-      return `Searched: ${args.query}`;
-    case "run_code":
-      return `Executed ${args.language} code`;
-    default:
-      return toolName;
+function parseOpenAIToolCall(pending: { id: string; name: string; argumentsJson: string }, index: number): ToolCall {
+  // Some local servers omit tool call IDs
+  const id = pending.id || `call_${Date.now()}_${index}`;
+
+  if (!pending.argumentsJson.trim()) {
+    return { id, name: pending.name, arguments: {} };
+  }
+
+  try {
+    return { id, name: pending.name, arguments: JSON.parse(pending.argumentsJson) };
+  } catch (e) {
+    console.error(`Failed to parse arguments for tool ${pending.name}:`, e);
+    return {
+      id,
+      name: pending.name,
+      arguments: {},
+      error: `Tool arguments were not valid JSON (possibly truncated): ${pending.argumentsJson.substring(0, 200)}...`,
+    };
   }
 }
 
-export const SYSTEM_PROMPT = `You are InfonexAgent, an advanced AI coding assistant created by Ansh and integrated into Vibe Code, an AI-powered app building platform.
-
-You have access to the following MCP tools:
-- create_boilerplate: Create a complete boilerplate project structure (React+Vite with pre-configured vite.config.ts). Use this when starting a NEW project or when user wants a fresh start. Types: 'react-vite'. The boilerplate includes a properly configured vite.config.ts that you must NEVER modify or recreate.
-- write_file: Create or overwrite a file in the project's S3 storage and E2B sandbox
-- edit_file: Edit specific parts of an existing file
-- delete_file: Delete a file from both S3 storage and E2B sandbox permanently
-- list_files: List all files in the current project (searches both S3 storage and E2B sandbox)
-- read_file: Read the content of any file from S3 storage or E2B sandbox
-- run_shell: Execute shell commands in the E2B sandbox terminal (supports long-running commands like npm run dev)
-- run_code: Execute code in the E2B code interpreter (Python/JavaScript)
-- Google Search: You have built-in access to Google Search - just ask questions naturally and I'll search for documentation, libraries, best practices, or any information needed DURING your work (not after)
-- configure_workflow: Configure the run command for this project (automatically runs when sandbox is recreated and available via manual run button). CRITICAL: You MUST ALWAYS configure the workflow as 'npm install;npm run dev' (NOT 'npm run dev' alone). This single command ensures packages are installed before starting the server. This is MANDATORY because when a sandbox expires and gets recreated, only the configured workflow runs automatically. NEVER use just 'npm run dev' - always include 'npm install;' at the beginning.
-
-REAL-TIME ACTION TRACKING:
-Before performing ANY action, announce it using this format: [action:description]
-- Example: [action:Installing dependencies]
-- Example: [action:Configured Start application to run npm run dev]
-- Example: [action:Opened package.json]
-- Example: [action:Installed dependencies]
-- Example: [action:Integrating with Full-stack JavaScript Website]
-These actions show the user what you're doing in real-time as you work.
-
-CRITICAL RULES:
-1. All files you create/edit/delete are automatically synced to S3 storage AND the E2B sandbox
-2. When configuring web servers, ALWAYS use port 3000 (the E2B sandbox preview uses port 3000)
-3. Use 0.0.0.0 as the host when binding ports to make them accessible
-4. The user NEVER sees the full code in chat - only brief summaries
-5. Keep your text responses SHORT - the user only sees what you're doing, not code details
-6. MCP tool calls are processed in the backend - user only sees the summary badges
-7. ALWAYS create websites, apps, and content in ENGLISH language unless specifically asked otherwise
-8. DEFAULT STACK: Always create apps using React + Vite for frontend and Node.js + Express.js for backend (when backend is needed) unless the user explicitly requests a different technology
-9. When starting a long-running server (npm run dev, etc.), ALWAYS use configure_workflow to save the command so it auto-runs when the sandbox restarts. CRITICAL: The workflow command MUST ALWAYS be 'npm install;npm run dev' (NEVER just 'npm run dev'). This is MANDATORY - no exceptions. Always include 'npm install;' before 'npm run dev' to ensure packages are installed when the sandbox is recreated after expiry.
-10. CRITICAL: vite.config.ts is automatically included in the react-vite boilerplate with correct E2B sandbox configuration. You must NEVER create, modify, edit, or delete vite.config.js or vite.config.ts files - they are pre-configured and must remain untouched
-11. FILE NAMING: Use PascalCase for React component files (App.tsx, Button.tsx). ALWAYS match exact filenames when editing - if you created "app.jsx", edit "app.jsx" not "App.jsx". Use list_files to verify exact filenames before editing
-12. USE GOOGLE SEARCH PROACTIVELY: When you need to know how to use a library, check documentation, find best practices, or solve technical problems - just ask naturally and Google Search will provide real-time information DURING your work (not after)
-13. Shell commands auto-forward results back to you - you'll see stdout/stderr automatically after execution
-14. Shell commands auto-forward results back to you - you'll see stdout/stderr automatically after execution
-15. AUTONOMOUS DEBUGGING: If something doesn't work, proactively search for solutions, check error messages, and fix issues without waiting for user input
-16. Always when starts a app instead of running npm run dev command run the command (npm install;npm run dev) dont separate these commands make it always run in a single request both commands.
-17. BOILERPLATE MCP TOOL USAGE: When starting a NEW React project or the user wants a fresh React+Vite setup, use create_boilerplate FIRST instead of manually creating individual files. This creates a complete, properly configured project in one step. Then modify the files as needed.
-18. PACKAGE MANAGEMENT: When you need to use a new npm package (like react-router-dom, axios, etc.), you MUST:
-    a) First update package.json using write_file or edit_file to add the package to "dependencies" or "devDependencies"
-    b) Then run "npm install" using run_shell to install the package
-    c) Only after installation, create/edit files that import that package
-    Example: For react-router-dom, add it to package.json dependencies, run npm install, then create App.tsx with imports
-
-=== E2B SANDBOX DOCUMENTATION ===
-
-SANDBOX ARCHITECTURE:
-- Each project runs in an isolated E2B cloud sandbox (small VM with internet access)
-- Files written via write_file are automatically saved to both S3 and the E2B sandbox filesystem
-- The sandbox provides a public preview URL at https://{port}-{sandbox-id}.e2b.dev
-- Preview URL is ONLY accessible when a web server is actively running on port 3000
-
-CRITICAL: TO SHOW PREVIEW, YOU MUST:
-1. Create your app files (HTML, CSS, JS, Python, Node.js, etc.)
-2. Start a web server on port 3000 with host 0.0.0.0
-3. The server MUST bind to 0.0.0.0 (NOT localhost or 127.0.0.1) to be publicly accessible
-
-STARTING WEB SERVERS (REQUIRED FOR PREVIEW):
-
-For Static HTML/CSS/JS:
-[tool:run_shell]{"command":"python -m http.server 3000 --bind 0.0.0.0"}
-OR
-[tool:run_shell]{"command":"npx serve -l 3000"}
-
-For React/Vite Apps (RECOMMENDED DEFAULT):
-1. Create package.json with scripts and vite.config.js with server: { host: '0.0.0.0', port: 3000 }
-2. [tool:run_shell]{"command":"npm install;npm run dev"}
-3. [tool:configure_workflow]{"command":"npm install;npm run dev"} - CRITICAL: Always use 'npm install;npm run dev' as a single command
-
-For Node.js/Express:
-1. In your server file, use: app.listen(3000, '0.0.0.0', () => {...})
-2. [tool:run_shell]{"command":"node server.js"}
-
-For Python Flask:
-1. In your app file, use: app.run(host='0.0.0.0', port=3000)
-2. [tool:run_shell]{"command":"python app.py"}
-
-For Next.js:
-[tool:run_shell]{"command":"npm run dev -- -p 3000 -H 0.0.0.0"}
-
-BACKGROUND PROCESSES:
-- All server commands (npm run dev, python app.py, node server.js) run in BACKGROUND mode
-- They start immediately and don't block - no need to wait for output
-- The server needs a few seconds to fully initialize before the preview URL is accessible
-- After starting a server, tell the user it's starting and will be ready shortly
-
-COMPLETE WORKFLOW EXAMPLE:
-1. Create files: [tool:write_file]{"path":"index.html","content":"..."}
-2. Start server: [tool:run_shell]{"command":"python -m http.server 3000 --bind 0.0.0.0"}
-3. Tell user: "Server is starting on port 3000. The preview will be available in a few seconds - refresh the preview tab if needed."
-
-IMPORTANT: After starting a development server (npm run dev, etc.), ALWAYS mention:
-- The server is starting in the background
-- It will take a few seconds to be ready
-- The user should refresh the preview tab if it doesn't load immediately
-
-COMMON MISTAKES TO AVOID:
-❌ Using localhost or 127.0.0.1 instead of 0.0.0.0
-❌ Using wrong port (must be 3000)
-❌ Forgetting to start a server after creating files
-❌ Not configuring host: '0.0.0.0' in framework config files
-
-FRAMEWORK-SPECIFIC CONFIG:
-
-Vite: vite.config.ts is pre-configured in the boilerplate - DO NOT create or modify it
-
-Express (server.js):
-app.listen(3000, '0.0.0.0', () => console.log('Server running'))
-
-Flask (app.py):
-app.run(host='0.0.0.0', port=3000)
-
-=== END E2B DOCUMENTATION ===
-
-When using MCP tools, format them as: [tool:tool_name]{JSON_OBJECT}
-
-MCP tool format rules:
-- Use proper JSON with escaped quotes and newlines
-- For file content, escape all special characters properly
-- Example: [tool:create_boilerplate]{"type":"react-vite"} - Creates a complete React+Vite project structure with src/App.tsx (PascalCase)
-- Example: [tool:write_file]{"path":"src/Button.tsx","content":"export function Button() {...}"} - Use PascalCase for React components
-- Example: [tool:edit_file]{"path":"src/App.tsx","old_str":"old code","new_str":"new code"} - Match EXACT filename including case
-- Example: [tool:run_shell]{"command":"npm install express"}
-- Example: [tool:run_code]{"language":"python","code":"print(\\"Hello\\")"}
-- Example: [tool:list_files]{} - Lists all files to verify exact names before editing
-- Example: [tool:read_file]{"path":"package.json"} - Reads the content of package.json
-- Example: [tool:configure_workflow]{"command":"npm install;npm run dev"} - Sets the auto-run command for sandbox restarts (ALWAYS include npm install)
-
-RESPONSE STYLE:
-✓ "I'll create index.html with a welcome page. Starting server on port 3000 - preview will be available shortly."
-✗ "Here's the code for index.html: <!DOCTYPE html>..."
-
-Remember: Be concise! Users see MCP tool badges, not code. ALWAYS START A SERVER for web apps! CREATE EVERYTHING IN ENGLISH!`;
+const openAIModels: LLMModel[] = OPENAI_MODEL_IDS.map(id => ({
+  id,
+  name: id,
+  contextWindow: OPENAI_CONTEXT_TOKENS,
+  supportsThinking: false,
+  supportsVision: OPENAI_SUPPORTS_VISION,
+  pricing: OPENAI_PRICING,
+}));
+
+export const openAICompatibleProvider: LLMProvider = {
+  id: "openai",
+  name: process.env.OPENAI_PROVIDER_NAME || "OpenAI-compatible",
+  models: openAIModels,
+  defaultModel: OPENAI_MODEL_IDS[0],
+  isConfigured: () => !!OPENAI_ENDPOINT,
+  chatStream: chatWithOpenAICompatibleStream,
+};
@@ -0,0 +1,94 @@
+// Conversation branches - messages form a tree through parentId. Editing a prompt or
+// regenerating a reply adds a sibling. Each thread shows one branch at a time, ending at
+// threads.activeMessageId, and the project's files follow the selected branch through checkpoints.
+import { storage } from "../storage";
+import type { Message, Thread, BranchMessage } from "@shared/schema";
+import { moveFileState, type RestoreResult } from "./checkpoints";
+
+// Messages saved before branching shipped have no parent. Root messages saved since then (a
+// thread's first prompt and its edits) have none either, so only the older ones are linked.
+// Deployments can set when their database got the parent_id column.
+const BRANCHING_STARTED_AT = new Date(process.env.BRANCHING_STARTED_AT || "2026-10-19T15:28:48Z");
+
+// All of the thread's messages, oldest first. Messages saved before branching existed are
+// linked into a single chain the first time the thread is loaded.
+export async function getMessageTree(threadId: string): Promise<Message[]> {
+  const messages = await storage.getMessagesByThreadId(threadId);
+
+  let previous: Message | null = null;
+  for (let i = 0; i < messages.length; i++) {
+    if (messages[i].parentId || messages[i].createdAt >= BRANCHING_STARTED_AT) continue;
+    if (previous) {
+      messages[i] = await storage.updateMessage(messages[i].id, { parentId: previous.id });
+    }
+    previous = messages[i];
+  }
+
+  return messages;
+}
+
+// The branch from the first message down to messageId
+export function getBranchPath(messages: Message[], messageId: string | null): Message[] {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+
+  let current = messageId ? byId.get(messageId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+}
+
+// Follow the newest reply from messageId down to the end of its branch
+export function getLatestLeaf(messages: Message[], messageId: string): string {
+  let leafId = messageId;
+  while (true) {
+    const replies = messages.filter(msg => msg.parentId === leafId);
+    if (replies.length === 0) return leafId;
+    leafId = replies[replies.length - 1].id;
+  }
+}
+
+// Last message of the selected branch (the newest message if none was selected)
+export function getActiveMessageId(thread: Thread, messages: Message[]): string | null {
+  if (thread.activeMessageId && messages.some(msg => msg.id === thread.activeMessageId)) {
+    return thread.activeMessageId;
+  }
+  return messages.length > 0 ? messages[messages.length - 1].id : null;
+}
+
+export function toBranchMessages(messages: Message[], activeMessageId: string | null): BranchMessage[] {
+  return getBranchPath(messages, activeMessageId).map(message => ({
+    ...message,
+    siblingIds: messages.filter(msg => msg.parentId === message.parentId).map(msg => msg.id),
+    childCount: messages.filter(msg => msg.parentId === message.id).length,
+  }));
+}
+
+// Select the branch ending at toMessageId, moving the project's files from the state after
+// fromMessageId (the current selection) to the state after toMessageId
+export async function selectBranch(
+  thread: Thread,
+  messages: Message[],
+  fromMessageId: string | null,
+  toMessageId: string | null
+): Promise<RestoreResult> {
+  const fromPath = getBranchPath(messages, fromMessageId);
+  const toPath = getBranchPath(messages, toMessageId);
+
+  let common = 0;
+  while (common < fromPath.length && common < toPath.length && fromPath[common].id === toPath[common].id) {
+    common++;
+  }
+
+  const result = await moveFileState(
+    thread.projectId,
+    fromPath.slice(common).reverse().map(msg => msg.id),
+    toPath.slice(common).map(msg => msg.id)
+  );
+  await storage.updateThread(thread.id, { activeMessageId: toMessageId });
+
+  return result;
+}
@@ -0,0 +1,181 @@
+// Checkpoints - each agent turn saves the content of the files it changes from before and after
+// the turn, so the project's files can be moved to the state after any message: back up the
+// current branch (before content) and forward along another (after content). Only file tools
+// are tracked; changes made by shell commands inside the sandbox are not.
+import { storage } from "../storage";
+import type { ToolCall } from "./llm";
+import { getBoilerplateTemplate } from "./boilerplate";
+import { getPatchPaths } from "./patch";
+import { isUtf8 } from "buffer";
+import { uploadFileToS3, getFileBufferFromS3, deleteFileFromS3 } from "./s3";
+import { getSandbox, writeFileToSandbox, deleteFileFromSandbox } from "./e2b";
+
+export interface RestoreResult {
+  restored: string[]; // Paths written back to their earlier content
+  deleted: string[]; // Paths that did not exist at the checkpoint
+  errors: string[];
+}
+
+interface FileState {
+  content: Buffer | null; // null when the file should not exist
+  mimeType: string | null;
+}
+
+// Text columns can't hold NUL bytes or invalid UTF-8, so such files are stored as base64
+function isBinaryContent(content: Buffer): boolean {
+  return content.includes(0) || !isUtf8(content);
+}
+
+function encodeContent(content: Buffer | null, binary: boolean): string | null {
+  if (!content) return null;
+  return content.toString(binary ? 'base64' : 'utf-8');
+}
+
+function decodeContent(content: string | null, binary: boolean): Buffer | null {
+  if (content === null) return null;
+  return Buffer.from(content, binary ? 'base64' : 'utf-8');
+}
+
+// Paths a tool call may create, change or delete
+async function getChangedPaths(call: ToolCall): Promise<string[]> {
+  const args = call.arguments || {};
+
+  switch (call.name) {
+    case "write_file":
+    case "edit_file":
+    case "delete_file":
+      return typeof args.path === 'string' ? [args.path] : [];
+    case "apply_patch":
+      return typeof args.patch === 'string' ? getPatchPaths(args.patch) : [];
+    case "create_boilerplate":
+      if (!['react-vite', 'node-express'].includes(args.type)) return [];
+      return (await getBoilerplateTemplate(args.type)).map(file => file.path);
+    default:
+      return [];
+  }
+}
+
+async function readProjectFile(projectId: string, path: string): Promise<FileState> {
+  const existingFile = await storage.getFileByPath(projectId, path);
+  return {
+    content: existingFile ? await getFileBufferFromS3(existingFile.s3Key) : null,
+    mimeType: existingFile?.mimeType || null,
+  };
+}
+
+// Records one turn: beforeToolCall saves a file's content before its first change, and finish
+// links the checkpoint to the saved assistant message and saves what the turn left behind.
+// The checkpoint row is created with the first change, so turns that touch no files leave none.
+export function createCheckpointRecorder(projectId: string) {
+  let checkpointId: string | null = null;
+  // path -> checkpoint file, with the content from before the turn in case it has to be re-encoded
+  const checkpointFiles = new Map<string, { id: string; binary: boolean; before: Buffer | null }>();
+
+  return {
+    beforeToolCall: async (call: ToolCall): Promise<void> => {
+      const paths = (await getChangedPaths(call)).filter(path => !checkpointFiles.has(path));
+      if (paths.length === 0) return;
+
+      if (!checkpointId) {
+        checkpointId = (await storage.createCheckpoint({ projectId })).id;
+      }
+
+      for (const path of paths) {
+        const before = await readProjectFile(projectId, path);
+        const binary = !!before.content && isBinaryContent(before.content);
+        const file = await storage.createCheckpointFile({
+          checkpointId,
+          path,
+          beforeContent: encodeContent(before.content, binary),
+          binary,
+          mimeType: before.mimeType,
+        });
+        checkpointFiles.set(path, { id: file.id, binary, before: before.content });
+      }
+    },
+
+    finish: async (messageId: string): Promise<void> => {
+      if (!checkpointId) return;
+
+      for (const [path, file] of Array.from(checkpointFiles.entries())) {
+        const after = await readProjectFile(projectId, path);
+        // Both sides share one encoding, so a file that became binary stores its old text as base64 too
+        const binary = file.binary || (!!after.content && isBinaryContent(after.content));
+        await storage.updateCheckpointFile(file.id, {
+          ...(binary !== file.binary && { beforeContent: encodeContent(file.before, binary), binary }),
+          afterContent: encodeContent(after.content, binary),
+          mimeType: after.mimeType,
+        });
+      }
+      await storage.updateCheckpoint(checkpointId, { messageId });
+    },
+  };
+}
+
+// Move the project's files across turns: undo the turns of undoMessageIds (newest first) and
+// redo those of redoMessageIds (oldest first). Messages without a checkpoint changed no files.
+export async function moveFileState(projectId: string, undoMessageIds: string[], redoMessageIds: string[]): Promise<RestoreResult> {
+  const checkpoints = await storage.getCheckpointsByMessageIds([...undoMessageIds, ...redoMessageIds]);
+  const checkpointFiles = await storage.getCheckpointFiles(checkpoints.map(checkpoint => checkpoint.id));
+
+  const filesForMessage = (messageId: string) => {
+    const checkpoint = checkpoints.find(c => c.messageId === messageId);
+    return checkpoint ? checkpointFiles.filter(file => file.checkpointId === checkpoint.id) : [];
+  };
+
+  // Later steps overwrite earlier ones, leaving each path's content at the target message
+  const states = new Map<string, FileState>();
+  for (const messageId of undoMessageIds) {
+    for (const file of filesForMessage(messageId)) {
+      states.set(file.path, { content: decodeContent(file.beforeContent, file.binary), mimeType: file.mimeType });
+    }
+  }
+  for (const messageId of redoMessageIds) {
+    for (const file of filesForMessage(messageId)) {
+      states.set(file.path, { content: decodeContent(file.afterContent, file.binary), mimeType: file.mimeType });
+    }
+  }
+
+  return await applyFileStates(projectId, states);
+}
+
+// Write file states to S3, the files table and the live sandbox (if any)
+async function applyFileStates(projectId: string, states: Map<string, FileState>): Promise<RestoreResult> {
+  const hasSandbox = !!(await getSandbox(projectId));
+  const result: RestoreResult = { restored: [], deleted: [], errors: [] };
+
+  for (const [path, state] of Array.from(states.entries())) {
+    try {
+      const existingFile = await storage.getFileByPath(projectId, path);
+
+      if (state.content === null) {
+        if (existingFile) {
+          await deleteFileFromS3(existingFile.s3Key);
+          await storage.deleteFile(existingFile.id);
+          if (hasSandbox) {
+            await deleteFileFromSandbox(projectId, path);
+          }
+          result.deleted.push(path);
+        }
+        continue;
+      }
+
+      const s3Key = await uploadFileToS3(projectId, path, state.content);
+      const size = state.content.length;
+      if (existingFile) {
+        await storage.updateFile(existingFile.id, { s3Key, size });
+      } else {
+        await storage.createFile({ projectId, path, s3Key, size, mimeType: state.mimeType });
+      }
+      if (hasSandbox) {
+        await writeFileToSandbox(projectId, path, state.content);
+      }
+      result.restored.push(path);
+    } catch (error: any) {
+      console.error(`Failed to restore ${path}:`, error);
+      result.errors.push(`${path}: ${error.message}`);
+    }
+  }
+
+  return result;
+}
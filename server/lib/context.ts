@@ -0,0 +1,220 @@
+// Context window management - keeps the history sent to the model within a token budget
+// by stripping large payloads and compacting older turns into stored summaries
+import type { Message as StoredMessage, MessageAttachment, SavedThinkingBlocks } from "@shared/schema";
+import { storage } from "../storage";
+import { completeText, MAX_TEXT_ATTACHMENT_CHARS, type LLMProvider, type Message } from "./llm";
+import type { AgentToolCall } from "./agent";
+import { recordUsage } from "./usage";
+
+// Upper bound for history tokens regardless of the model's context window (cost control)
+const CONTEXT_TOKEN_BUDGET = parseInt(process.env.CONTEXT_TOKEN_BUDGET || "120000", 10);
+
+// Share of the budget kept as verbatim recent turns when older turns get summarized
+const RECENT_HISTORY_RATIO = 0.5;
+
+// Single history messages longer than this are cut down to their head and tail
+const MAX_HISTORY_MESSAGE_CHARS = 12000;
+
+// Tokens assumed per attached image, and per KB of an attached PDF
+const IMAGE_TOKENS = 1600;
+const PDF_TOKENS_PER_KB = 10;
+
+const SUMMARY_PROMPT = `You compact the conversation history of an AI coding agent working on a user's app.
+Write a concise summary that lets the agent continue the work without the original messages. Include:
+- What the user asked for and any preferences or constraints they stated
+- Decisions made and the current state of the app (stack, key files created or changed, commands configured)
+- Open problems, errors, and anything the user is still waiting on
+Use short bullet points. Do not include code or file contents. Stay under 800 words.`;
+
+// Rough token estimate (~4 characters per token) - close enough for budgeting without a tokenizer
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function estimateAttachmentTokens(attachment: MessageAttachment | { url: string }): number {
+  if (typeof attachment === 'string' || !('kind' in attachment)) return IMAGE_TOKENS;
+  switch (attachment.kind) {
+    case 'pdf':
+      return Math.ceil(attachment.size / 1024) * PDF_TOKENS_PER_KB;
+    case 'zip':
+      return estimateTokens(attachment.listing || '');
+    default:
+      return Math.ceil(Math.min(attachment.size, MAX_TEXT_ATTACHMENT_CHARS) / 4);
+  }
+}
+
+export function estimateMessageTokens(message: Message): number {
+  let tokens = estimateTokens(message.content) + 4;
+  for (const attachment of message.attachments || []) {
+    tokens += estimateAttachmentTokens(attachment);
+  }
+  for (const toolCall of message.toolCalls || []) {
+    tokens += estimateTokens(JSON.stringify(toolCall.arguments)) + 10;
+  }
+  for (const toolResult of message.toolResults || []) {
+    tokens += estimateTokens(toolResult.content) + 10 + (toolResult.images?.length || 0) * IMAGE_TOKENS;
+  }
+  return tokens;
+}
+
+// Remove inline tool payloads (messages saved before native tool use embedded full
+// write_file JSON in the text) and truncate oversized messages
+function stripLargePayloads(content: string): string {
+  let stripped = content.replace(
+    /\[tool:(\w+)\]\{[^]*?\}(?=\s*(?:\[tool:|\[action:|$))/g,
+    (_match, toolName) => `[tool:${toolName}]`
+  );
+
+  if (stripped.length > MAX_HISTORY_MESSAGE_CHARS) {
+    const half = MAX_HISTORY_MESSAGE_CHARS / 2;
+    stripped = `${stripped.slice(0, half)}\n\n[... ${stripped.length - MAX_HISTORY_MESSAGE_CHARS} characters omitted ...]\n\n${stripped.slice(-half)}`;
+  }
+
+  return stripped;
+}
+
+type HistorySource = Pick<StoredMessage, "role" | "content" | "toolCalls" | "attachments">;
+
+// Convert a stored chat message into model history. Tool calls from earlier runs are
+// replayed as a short text note since their tool_use/tool_result pairs are not stored.
+export function toHistoryMessage(message: HistorySource): Message {
+  const toolCalls = message.toolCalls as AgentToolCall[] | null;
+  let content = stripLargePayloads(message.content);
+
+  if (message.role === 'assistant' && toolCalls && toolCalls.length > 0) {
+    const summaries = toolCalls.map(tc => `- ${tc.summary || tc.name}`).join('\n');
+    content = `${content}\n\n[Tools used]\n${summaries}`.trim();
+  }
+
+  return {
+    role: message.role as "user" | "assistant",
+    content,
+    attachments: (message.attachments as MessageAttachment[] | null) || undefined,
+  };
+}
+
+// Token count of a message as it will appear in model history (saved as messages.tokenCount)
+export function countMessageTokens(message: HistorySource): number {
+  return estimateMessageTokens(toHistoryMessage(message));
+}
+
+// Messages saved before token counting was added have no stored count
+function storedMessageTokens(message: StoredMessage): number {
+  return message.tokenCount ?? countMessageTokens(message);
+}
+
+export interface ConversationContextOptions {
+  projectId: string;
+  userId: string; // Billed for the summary request
+  messages: StoredMessage[]; // Persisted history, oldest first, excluding the new prompt
+  provider: LLMProvider;
+  model: string;
+  reservedTokens: number; // System prompt, new prompt, and output/thinking budget
+  enableReasoning?: boolean; // Pass the latest reply's thinking blocks back to the model
+}
+
+export interface ConversationContext {
+  messages: Message[];
+  summary?: string; // Summary of turns no longer sent verbatim
+}
+
+// Build the history for a run. When the live turns don't fit the budget, the oldest ones are
+// folded (together with any previous summary) into a new stored summary.
+export async function buildConversationContext(options: ConversationContextOptions): Promise<ConversationContext> {
+  const { projectId, userId, messages, provider, model, reservedTokens } = options;
+  const thinkingModel = options.enableReasoning ? model : undefined;
+
+  const contextWindow = provider.models.find(m => m.id === model)?.contextWindow || CONTEXT_TOKEN_BUDGET;
+  const budget = Math.min(contextWindow, CONTEXT_TOKEN_BUDGET) - reservedTokens;
+
+  // Only a summary ending on this branch applies (messages may also have been cleared)
+  let latestSummary = await storage.getLatestConversationSummary(projectId, messages.map(msg => msg.id));
+  const summarizedIndex = latestSummary
+    ? messages.findIndex(msg => msg.id === latestSummary!.lastMessageId)
+    : -1;
+  if (summarizedIndex === -1) {
+    latestSummary = undefined;
+  }
+  const live = messages.slice(summarizedIndex + 1);
+
+  let summary = latestSummary?.content;
+  const summaryTokens = latestSummary?.tokenCount || 0;
+  const liveTokens = live.reduce((total, msg) => total + storedMessageTokens(msg), 0);
+
+  if (summaryTokens + liveTokens <= budget) {
+    return { messages: toModelHistory(live, thinkingModel), summary };
+  }
+
+  // Keep the newest turns that fit in the recent share of the budget
+  let keptTokens = 0;
+  let splitIndex = live.length;
+  while (splitIndex > 0) {
+    const tokens = storedMessageTokens(live[splitIndex - 1]);
+    if (keptTokens + tokens > budget * RECENT_HISTORY_RATIO) break;
+    keptTokens += tokens;
+    splitIndex--;
+  }
+
+  const older = live.slice(0, splitIndex);
+  const recent = live.slice(splitIndex);
+
+  if (older.length > 0) {
+    try {
+      const result = await completeText(provider, [{ role: 'user', content: buildSummaryRequest(summary, older) }], {
+        model,
+        systemPrompt: SUMMARY_PROMPT,
+      });
+      if (result.usage) {
+        await recordUsage({ userId, projectId, kind: 'summary', provider, model, usage: result.usage });
+      }
+      if (!result.text) {
+        throw new Error('Summary response was empty');
+      }
+
+      summary = result.text;
+      await storage.createConversationSummary({
+        projectId,
+        content: summary,
+        lastMessageId: older[older.length - 1].id,
+        tokenCount: estimateTokens(summary),
+      });
+    } catch (error) {
+      // Fall back to dropping the oldest turns rather than failing the run
+      console.error('Failed to summarize conversation history:', error);
+    }
+  }
+
+  return { messages: toModelHistory(recent, thinkingModel), summary };
+}
+
+// History sent to the model must start with a user turn. With reasoning on, the latest reply
+// keeps its signed thinking blocks (if thinkingModel produced them) so the model can continue
+// its reasoning.
+function toModelHistory(messages: StoredMessage[], thinkingModel?: string): Message[] {
+  const firstUserIndex = messages.findIndex(msg => msg.role === 'user');
+  if (firstUserIndex === -1) return [];
+
+  const history = messages.slice(firstUserIndex).map(toHistoryMessage);
+  const lastIndex = messages.length - 1;
+  const saved = messages[lastIndex].role === 'assistant' ? messages[lastIndex].thinkingBlocks as SavedThinkingBlocks | null : null;
+  if (thinkingModel && saved?.model === thinkingModel && saved.blocks.length > 0) {
+    history[history.length - 1].thinkingBlocks = saved.blocks;
+  }
+  return history;
+}
+
+function buildSummaryRequest(previousSummary: string | undefined, messages: StoredMessage[]): string {
+  const transcript = messages
+    .map(msg => `${msg.role.toUpperCase()}: ${toHistoryMessage(msg).content}`)
+    .join('\n\n');
+
+  return [
+    previousSummary ? `Summary of the conversation so far:\n${previousSummary}` : '',
+    `Conversation to add to the summary:\n${transcript}`,
+  ].filter(Boolean).join('\n\n');
+}
+
+// System prompt section carrying the summary of compacted turns
+export function formatSummarySection(summary: string): string {
+  return `\n\n=== EARLIER CONVERSATION SUMMARY ===\n${summary}\n=== END SUMMARY ===`;
+}
@@ -0,0 +1,148 @@
+// Line diffs for file changes - a unified diff of what a tool call changed, shown to the model
+// and in the chat UI
+
+export interface FileDiff {
+  diff: string; // Unified diff ('' when nothing changed)
+  additions: number;
+  deletions: number;
+}
+
+const CONTEXT_LINES = 3;
+
+// Above this many line comparisons the changed region is shown as a whole replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string; oldLine: number; newLine: number };
+
+function splitLines(content: string): string[] {
+  if (content === '') return [];
+  const lines = content.split('\n');
+  // A trailing newline doesn't start another line
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+// Longest common subsequence over the changed middle of the two files
+function diffMiddle(oldLines: string[], newLines: string[]): Array<{ type: ' ' | '-' | '+'; text: string }> {
+  const n = oldLines.length;
+  const m = newLines.length;
+
+  if (n * m > MAX_LCS_CELLS) {
+    return [
+      ...oldLines.map(text => ({ type: '-' as const, text })),
+      ...newLines.map(text => ({ type: '+' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS of oldLines[i..] and newLines[j..]
+  const lengths: Uint32Array[] = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = oldLines[i] === newLines[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: Array<{ type: ' ' | '-' | '+'; text: string }> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && oldLines[i] === newLines[j]) {
+      result.push({ type: ' ', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (i < n && (j === m || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      result.push({ type: '-', text: oldLines[i++] });
+    } else {
+      result.push({ type: '+', text: newLines[j++] });
+    }
+  }
+  return result;
+}
+
+function formatRange(start: number, count: number): string {
+  return count === 1 ? `${start}` : `${count === 0 ? start - 1 : start},${count}`;
+}
+
+// Unified diff between two versions of a file (null when the file doesn't exist)
+export function createFileDiff(path: string, before: string | null, after: string | null): FileDiff {
+  const oldLines = splitLines(before ?? '');
+  const newLines = splitLines(after ?? '');
+
+  // Edits are usually local, so only the region between the common prefix and suffix is compared
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < oldLines.length - prefix &&
+    suffix < newLines.length - prefix &&
+    oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const entries = [
+    ...oldLines.slice(0, prefix).map(text => ({ type: ' ' as const, text })),
+    ...diffMiddle(oldLines.slice(prefix, oldLines.length - suffix), newLines.slice(prefix, newLines.length - suffix)),
+    ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: ' ' as const, text })),
+  ];
+
+  // Number the lines in both versions
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const entry of entries) {
+    lines.push({ ...entry, oldLine, newLine });
+    if (entry.type !== '+') oldLine++;
+    if (entry.type !== '-') newLine++;
+  }
+
+  const additions = lines.filter(line => line.type === '+').length;
+  const deletions = lines.filter(line => line.type === '-').length;
+  if (additions === 0 && deletions === 0) {
+    return { diff: '', additions, deletions };
+  }
+
+  // Group changes into hunks with surrounding context
+  const hunks: string[] = [];
+  let index = 0;
+  while (index < lines.length) {
+    if (lines[index].type === ' ') {
+      index++;
+      continue;
+    }
+
+    const start = Math.max(0, index - CONTEXT_LINES);
+    let end = index;
+    // Extend while the next change is within two context windows
+    while (end < lines.length) {
+      let next = end;
+      while (next < lines.length && lines[next].type === ' ') next++;
+      if (next === lines.length || next - end > CONTEXT_LINES * 2) break;
+      end = next + 1;
+      while (end < lines.length && lines[end].type !== ' ') end++;
+    }
+    end = Math.min(lines.length, end + CONTEXT_LINES);
+
+    const hunkLines = lines.slice(start, end);
+    const oldCount = hunkLines.filter(line => line.type !== '+').length;
+    const newCount = hunkLines.filter(line => line.type !== '-').length;
+    hunks.push([
+      `@@ -${formatRange(hunkLines[0].oldLine, oldCount)} +${formatRange(hunkLines[0].newLine, newCount)} @@`,
+      ...hunkLines.map(line => `${line.type}${line.text}`),
+    ].join('\n'));
+    index = end;
+  }
+
+  const header = `--- ${before === null ? '/dev/null' : `a/${path}`}\n+++ ${after === null ? '/dev/null' : `b/${path}`}`;
+  return { diff: `${header}\n${hunks.join('\n')}`, additions, deletions };
+}
+
+// Diff text for the model, cut down to keep tool results small
+export function truncateDiff(diff: string, maxChars: number): string {
+  if (diff.length <= maxChars) return diff;
+  return `${diff.slice(0, maxChars)}\n... [diff truncated, ${diff.length - maxChars} more characters]`;
+}
@@ -102,6 +102,69 @@ export async function executeShellCommand(
   }
 }
 
+// Run a command to completion and keep its output even when it fails (run() throws on a
+// non-zero exit, with stdout and stderr on the error)
+export async function runSandboxCommand(
+  projectId: string,
+  command: string,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ExecutionResult> {
+  signal?.throwIfAborted();
+  const sandbox = await getOrCreateSandbox(projectId);
+  // Started in the background so an abort can kill it
+  const handle = await sandbox.commands.run(command, { background: true, timeoutMs });
+  const kill = () => {
+    handle.kill().catch(error => console.error(`Failed to kill "${command}":`, error));
+  };
+  signal?.addEventListener('abort', kill, { once: true });
+  try {
+    const result = await handle.wait();
+    return { stdout: result.stdout || '', stderr: result.stderr || '', exitCode: result.exitCode || 0 };
+  } catch (error: any) {
+    if (typeof error?.exitCode === 'number') {
+      return { stdout: error.stdout || '', stderr: error.stderr || '', exitCode: error.exitCode, error: error.error };
+    }
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', kill);
+  }
+}
+
+export interface BackgroundCommand {
+  pid: number;
+  done: Promise<{ exitCode: number; error?: string }>; // Settles when the command exits or the connection drops
+}
+
+// Start a long-running command (no timeout) and stream its output to onOutput
+export async function startBackgroundCommand(
+  projectId: string,
+  command: string,
+  onOutput: (stream: 'stdout' | 'stderr', data: string) => void
+): Promise<BackgroundCommand> {
+  const sandbox = await getOrCreateSandbox(projectId);
+  const handle = await sandbox.commands.run(command, {
+    background: true,
+    timeoutMs: 0,
+    onStdout: data => onOutput('stdout', data),
+    onStderr: data => onOutput('stderr', data),
+  });
+
+  const done = handle.wait().then(
+    result => ({ exitCode: result.exitCode }),
+    (error: any) => typeof error?.exitCode === 'number'
+      ? { exitCode: error.exitCode, error: error.error }
+      : { exitCode: -1, error: error?.message || 'Lost connection to the command' }
+  );
+  return { pid: handle.pid, done };
+}
+
+export async function killSandboxProcess(projectId: string, pid: number): Promise<boolean> {
+  const sandbox = activeSandboxes.get(projectId);
+  if (!sandbox) return false;
+  return sandbox.commands.kill(pid);
+}
+
 // Delete file from sandbox - returns success status
 export async function deleteFileFromSandbox(
   projectId: string,
@@ -131,11 +194,14 @@ export async function deleteFileFromSandbox(
 export async function writeFileToSandbox(
   projectId: string,
   filePath: string,
-  content: string
+  content: string | Buffer
 ): Promise<void> {
   try {
     const sandbox = await getOrCreateSandbox(projectId);
-    await sandbox.files.write(filePath, content);
+    const data = typeof content === 'string'
+      ? content
+      : content.buffer.slice(content.byteOffset, content.byteOffset + content.byteLength) as ArrayBuffer;
+    await sandbox.files.write(filePath, data);
   } catch (error: any) {
     throw new Error(`Failed to write file to sandbox: ${error.message}`);
   }
@@ -154,6 +220,20 @@ export async function readFileFromSandbox(
   }
 }
 
+// Read a binary file (e.g. an image) from the sandbox
+export async function readBinaryFileFromSandbox(
+  projectId: string,
+  filePath: string
+): Promise<Buffer> {
+  try {
+    const sandbox = await getOrCreateSandbox(projectId);
+    const content = await sandbox.files.read(filePath, { format: 'bytes' });
+    return Buffer.from(content);
+  } catch (error: any) {
+    throw new Error(`Failed to read file from sandbox: ${error.message}`);
+  }
+}
+
 export async function listFilesInSandbox(
   projectId: string,
   dirPath: string = '/'
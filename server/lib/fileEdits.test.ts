@@ -0,0 +1,102 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { applyEdits, parseEdits, MAX_EDITS_PER_CALL } from "./fileEdits";
+
+const APP = `import { useState } from "react";
+
+export function App() {
+  const [count, setCount] = useState(0);
+  return <button onClick={() => setCount(count + 1)}>{count}</button>;
+}
+`;
+
+test("a single old_str/new_str edit replaces its one match", () => {
+  const edits = parseEdits({ old_str: "useState(0)", new_str: "useState(10)" });
+  assert.equal(applyEdits(APP, edits), APP.replace("useState(0)", "useState(10)"));
+});
+
+test("an ambiguous old_str fails and lists the matching lines", () => {
+  assert.throws(() => applyEdits(APP, parseEdits({ old_str: "count", new_str: "total" })), {
+    message: "old_str matches 3 places (lines 4, 5, 5). Include more surrounding lines so it matches once, or set replace_all to change every occurrence.",
+  });
+});
+
+test("replace_all changes every match and inserts $ literally", () => {
+  const result = applyEdits("a b a", parseEdits({ old_str: "a", new_str: "$&", replace_all: true }));
+  assert.equal(result, "$& b $&");
+});
+
+test("a missing old_str points at text that differs only in whitespace", () => {
+  const edits = parseEdits({ old_str: "export function App() {\n const [count, setCount] = useState(0);", new_str: "" });
+  assert.throws(() => applyEdits(APP, edits), /Text at line 3 matches when whitespace is ignored/);
+});
+
+test("plain newlines in old_str match files with Windows line endings", () => {
+  const content = "one\r\ntwo\r\nthree\r\n";
+  const result = applyEdits(content, parseEdits({ old_str: "one\ntwo", new_str: "1\n2" }));
+  assert.equal(result, "1\r\n2\r\nthree\r\n");
+});
+
+test("edits apply in order, each to the result of the previous one", () => {
+  const edits = parseEdits({
+    edits: [
+      { old_str: "useState(0)", new_str: "useState(initial)" },
+      { old_str: "export function App() {", new_str: "export function App({ initial }: { initial: number }) {" },
+    ],
+  });
+  const result = applyEdits(APP, edits);
+  assert.match(result, /export function App\(\{ initial \}: \{ initial: number \}\) \{\n  const \[count, setCount\] = useState\(initial\);/);
+});
+
+test("an edit whose text an earlier edit already replaced fails the whole call", () => {
+  const edits = parseEdits({
+    edits: [
+      { old_str: "const [count, setCount] = useState(0);", new_str: "const [total, setTotal] = useState(0);" },
+      { old_str: "setCount] = useState", new_str: "setCount] = React.useState" },
+    ],
+  });
+  assert.throws(() => applyEdits(APP, edits), /^Error: Edit 2 of 2 failed \(no changes were saved\): old_str was not found in the file\./);
+});
+
+test("a failing later edit leaves the content untouched", () => {
+  const content = "alpha\nbeta\n";
+  const edits = parseEdits({
+    edits: [
+      { old_str: "alpha", new_str: "ALPHA" },
+      { start_line: 5, new_str: "gamma" },
+    ],
+  });
+  assert.throws(() => applyEdits(content, edits), /Edit 2 of 2 failed \(no changes were saved\): line range 5-5 is past the end of the file \(2 lines\)/);
+  assert.equal(content, "alpha\nbeta\n");
+});
+
+test("line ranges replace, insert and delete whole lines", () => {
+  const content = "one\ntwo\nthree\nfour\n";
+  assert.equal(applyEdits(content, parseEdits({ start_line: 2, end_line: 3, new_str: "2\n3\n3.5\n" })), "one\n2\n3\n3.5\nfour\n");
+  assert.equal(applyEdits(content, parseEdits({ start_line: 4, new_str: "FOUR" })), "one\ntwo\nthree\nFOUR\n");
+  assert.equal(applyEdits(content, parseEdits({ start_line: 1, end_line: 2, new_str: "" })), "three\nfour\n");
+});
+
+test("line ranges past the end, inverted or not line numbers are rejected", () => {
+  assert.throws(() => applyEdits("one\ntwo\n", parseEdits({ start_line: 2, end_line: 3, new_str: "x" })), {
+    message: "line range 2-3 is past the end of the file (2 lines)",
+  });
+  assert.throws(() => parseEdits({ start_line: 3, end_line: 2, new_str: "x" }), /start_line <= end_line/);
+  assert.throws(() => parseEdits({ start_line: 0, new_str: "x" }), /start_line <= end_line/);
+  assert.throws(() => parseEdits({ start_line: 1.5, new_str: "x" }), /start_line <= end_line/);
+});
+
+test("edits are validated before any is applied", () => {
+  assert.throws(() => parseEdits({ edits: [] }), /No edits given/);
+  assert.throws(() => parseEdits({ edits: Array(MAX_EDITS_PER_CALL + 1).fill({ old_str: "a", new_str: "b" }) }), /Too many edits/);
+  assert.throws(() => parseEdits({ old_str: "a" }), /new_str is required/);
+  assert.throws(() => parseEdits({ old_str: "", new_str: "b" }), /old_str must be non-empty/);
+  assert.throws(
+    () => parseEdits({ edits: [{ old_str: "a", new_str: "b" }, { old_str: "a", start_line: 1, new_str: "b" }] }),
+    /^Error: Edit 2: use either old_str or start_line\/end_line, not both/
+  );
+});
+
+test("edits that change nothing are reported", () => {
+  assert.throws(() => applyEdits(APP, parseEdits({ old_str: "useState(0)", new_str: "useState(0)" })), /The edits made no changes to the file/);
+});
@@ -0,0 +1,157 @@
+// Edit semantics for the edit_file tool - exact replacements that must match once (or replace_all),
+// and line-range replacements. Edits apply in order and the whole call fails if any edit fails.
+
+export interface FileEdit {
+  old_str?: string;
+  new_str: string;
+  replace_all?: boolean;
+  start_line?: number; // 1-based, inclusive
+  end_line?: number;
+}
+
+// Most edits allowed in one call
+export const MAX_EDITS_PER_CALL = 50;
+
+// Matching lines listed when old_str is ambiguous
+const MAX_LISTED_MATCHES = 10;
+
+// The edits an edit_file call asks for: an `edits` array, or a single edit in the top-level fields
+export function parseEdits(args: Record<string, any>): FileEdit[] {
+  const rawEdits: any[] = Array.isArray(args.edits)
+    ? args.edits
+    : [{ old_str: args.old_str, new_str: args.new_str, replace_all: args.replace_all, start_line: args.start_line, end_line: args.end_line }];
+
+  if (rawEdits.length === 0) {
+    throw new Error('No edits given - pass old_str/new_str, start_line/end_line/new_str, or an edits array');
+  }
+  if (rawEdits.length > MAX_EDITS_PER_CALL) {
+    throw new Error(`Too many edits in one call (${rawEdits.length}, max ${MAX_EDITS_PER_CALL})`);
+  }
+
+  return rawEdits.map((raw, i) => {
+    const label = rawEdits.length > 1 ? `Edit ${i + 1}: ` : '';
+    if (!raw || typeof raw !== 'object') {
+      throw new Error(`${label}each edit must be an object`);
+    }
+    if (typeof raw.new_str !== 'string') {
+      throw new Error(`${label}new_str is required (use "" to delete)`);
+    }
+
+    const hasRange = raw.start_line !== undefined || raw.end_line !== undefined;
+    const hasOldStr = raw.old_str !== undefined && raw.old_str !== null;
+    if (hasRange && hasOldStr) {
+      throw new Error(`${label}use either old_str or start_line/end_line, not both`);
+    }
+
+    if (hasRange) {
+      const startLine = Number(raw.start_line);
+      const endLine = raw.end_line === undefined ? startLine : Number(raw.end_line);
+      if (!Number.isInteger(startLine) || !Number.isInteger(endLine) || startLine < 1 || endLine < startLine) {
+        throw new Error(`${label}start_line and end_line must be line numbers with start_line <= end_line`);
+      }
+      return { new_str: raw.new_str, start_line: startLine, end_line: endLine };
+    }
+
+    if (typeof raw.old_str !== 'string' || raw.old_str === '') {
+      throw new Error(`${label}old_str must be non-empty text from the file (use start_line/end_line to edit by line)`);
+    }
+    return { old_str: raw.old_str, new_str: raw.new_str, replace_all: raw.replace_all === true };
+  });
+}
+
+function lineAt(content: string, index: number): number {
+  let line = 1;
+  for (let i = 0; i < index; i++) {
+    if (content.charCodeAt(i) === 10) line++;
+  }
+  return line;
+}
+
+function findAll(content: string, search: string): number[] {
+  const indexes: number[] = [];
+  let index = content.indexOf(search);
+  while (index !== -1) {
+    indexes.push(index);
+    index = content.indexOf(search, index + search.length);
+  }
+  return indexes;
+}
+
+// Hint for an old_str that isn't in the file: it often differs only in indentation or line endings
+function describeNearMiss(content: string, search: string): string {
+  const collapse = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const target = collapse(search);
+  const firstLine = search.split('\n').find(line => line.trim())?.trim();
+  if (!target || !firstLine) return '';
+
+  const lines = content.split('\n');
+  const searchLineCount = search.split('\n').length;
+  for (let i = 0; i < lines.length; i++) {
+    if (!lines[i].includes(firstLine)) continue;
+    const candidate = lines.slice(i, i + searchLineCount).join('\n');
+    if (collapse(candidate) === target) {
+      return ` Text at line ${i + 1} matches when whitespace is ignored - check indentation and line breaks.`;
+    }
+  }
+
+  const firstLineMatch = lines.findIndex(line => line.includes(firstLine));
+  if (firstLineMatch !== -1) {
+    return ` Its first line appears at line ${firstLineMatch + 1}, but the rest differs.`;
+  }
+  return '';
+}
+
+function applyEdit(content: string, edit: FileEdit): string {
+  if (edit.start_line !== undefined) {
+    const lines = content.split('\n');
+    // A trailing newline doesn't start another line
+    const lineCount = content.endsWith('\n') ? lines.length - 1 : lines.length;
+    const endLine = edit.end_line ?? edit.start_line;
+    if (endLine > lineCount) {
+      throw new Error(`line range ${edit.start_line}-${endLine} is past the end of the file (${lineCount} lines)`);
+    }
+
+    const replacement = edit.new_str === '' ? [] : edit.new_str.replace(/\r?\n$/, '').split('\n');
+    lines.splice(edit.start_line - 1, endLine - edit.start_line + 1, ...replacement);
+    return lines.join('\n');
+  }
+
+  let oldStr = edit.old_str!;
+  let newStr = edit.new_str;
+  // Match files with Windows line endings when the model sends plain newlines
+  if (content.includes('\r\n') && !oldStr.includes('\r') && oldStr.includes('\n')) {
+    oldStr = oldStr.replace(/\n/g, '\r\n');
+    newStr = newStr.replace(/\r?\n/g, '\r\n');
+  }
+
+  const matches = findAll(content, oldStr);
+  if (matches.length === 0) {
+    throw new Error(`old_str was not found in the file.${describeNearMiss(content, edit.old_str!)} Re-read the file and copy the text exactly.`);
+  }
+  if (matches.length > 1 && !edit.replace_all) {
+    const lines = matches.slice(0, MAX_LISTED_MATCHES).map(index => lineAt(content, index));
+    const more = matches.length > MAX_LISTED_MATCHES ? ', ...' : '';
+    throw new Error(`old_str matches ${matches.length} places (lines ${lines.join(', ')}${more}). Include more surrounding lines so it matches once, or set replace_all to change every occurrence.`);
+  }
+
+  // split/join rather than replace() so "$" in new_str is inserted literally
+  return content.split(oldStr).join(newStr);
+}
+
+// Apply edits in order, each to the result of the previous ones. Throws without a partial result.
+export function applyEdits(content: string, edits: FileEdit[]): string {
+  let result = content;
+  edits.forEach((edit, i) => {
+    try {
+      result = applyEdit(result, edit);
+    } catch (error: any) {
+      const prefix = edits.length > 1 ? `Edit ${i + 1} of ${edits.length} failed (no changes were saved): ` : '';
+      throw new Error(`${prefix}${error.message}`);
+    }
+  });
+
+  if (result === content) {
+    throw new Error('The edits made no changes to the file');
+  }
+  return result;
+}
@@ -1,108 +1,174 @@
 // Official Google Gemini API integration for Gemini 2.5 Flash & Pro models
-import { GoogleGenAI } from "@google/genai";
-
-interface Message {
-  role: "user" | "assistant" | "system";
-  content: string;
-}
-
-interface ToolCall {
-  name: string;
-  arguments: Record<string, any>;
-}
-
-interface ChatResponse {
-  content: string;
-  toolCalls?: ToolCall[];
-}
+import { randomUUID } from "crypto";
+import { GoogleGenAI, type Content, type Part } from "@google/genai";
+import {
+  parseActionsFromBuffer,
+  loadAttachment,
+  loadToolResultImages,
+  DEFAULT_REASONING_BUDGET,
+  type ChatStreamOptions,
+  type LLMProvider,
+  type Message,
+  type StreamChunk,
+  type TokenUsage,
+} from "./llm";
 
 const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || "" });
 
-// Google Search Grounding tool configuration
+const DEFAULT_MODEL_ID = "gemini-2.5-flash";
+
+// Google Search Grounding tool configuration (cannot be combined with function declarations)
 const groundingTool = {
   googleSearch: {},
 };
 
-export async function chatWithAI(
-  messages: Message[],
-  systemPrompt?: string
-): Promise<ChatResponse> {
-  if (!process.env.GEMINI_API_KEY) {
-    throw new Error("GEMINI_API_KEY is not set");
-  }
+async function toGeminiContents(messages: Message[]): Promise<Content[]> {
+  // Gemini function responses are matched by name, so remember which tool each call ID belongs to
+  const toolNames = new Map<string, string>();
+
+  const contents: Content[] = [];
+  for (const msg of messages) {
+    if (msg.role === "system") continue;
+
+    const parts: Part[] = [];
+
+    if (msg.toolResults) {
+      for (const toolResult of msg.toolResults) {
+        parts.push({
+          functionResponse: {
+            id: toolResult.toolUseId,
+            name: toolNames.get(toolResult.toolUseId) || "unknown",
+            response: toolResult.isError ? { error: toolResult.content } : { output: toolResult.content },
+          },
+        });
+        // Function responses can't hold images, so they follow as inline parts
+        for (const image of await loadToolResultImages(toolResult)) {
+          parts.push({ inlineData: { mimeType: image.mediaType, data: image.data } });
+        }
+      }
+    }
 
-  const selectedModel = "gemini-2.5-flash-preview-09-2025";
+    if (msg.attachments && msg.attachments.length > 0) {
+      for (const attachment of msg.attachments) {
+        try {
+          // Images and PDFs go inline; text files and ZIP listings as text
+          const loaded = await loadAttachment(attachment);
+          parts.push(loaded.type === 'text'
+            ? { text: loaded.text }
+            : { inlineData: { mimeType: loaded.mediaType, data: loaded.data } });
+        } catch (error) {
+          console.error('Failed to fetch attachment:', error);
+        }
+      }
+    }
 
-  const contents = messages
-    .filter(msg => msg.role !== "system")
-    .map(msg => ({
-      role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
-    }));
+    if (msg.content.trim()) {
+      parts.push({ text: msg.content });
+    }
 
-  const response = await ai.models.generateContent({
-    model: selectedModel,
-    config: {
-      systemInstruction: systemPrompt,
-      tools: [groundingTool],
-    },
-    contents,
-  });
+    if (msg.toolCalls) {
+      for (const toolCall of msg.toolCalls) {
+        toolNames.set(toolCall.id, toolCall.name);
+        parts.push({ functionCall: { id: toolCall.id, name: toolCall.name, args: toolCall.arguments } });
+      }
+    }
+
+    if (parts.length === 0) {
+      parts.push({ text: "(empty)" });
+    }
 
-  const assistantMessage = response.text || "";
-  const toolCalls = parseToolCalls(assistantMessage);
+    contents.push({ role: msg.role === "assistant" ? "model" : "user", parts });
+  }
 
-  return {
-    content: assistantMessage,
-    toolCalls,
-  };
+  return contents;
 }
 
-// Streaming version of chatWithAI that yields chunks, action events, and tool calls
+// Streaming chat that yields text, thinking, action events, and tool calls
 export async function* chatWithAIStream(
   messages: Message[],
-  systemPrompt?: string
-): AsyncGenerator<{ type: 'text' | 'action' | 'tool_call'; content?: string; data?: any }, void, unknown> {
+  options: ChatStreamOptions = {}
+): AsyncGenerator<StreamChunk, void, unknown> {
   if (!process.env.GEMINI_API_KEY) {
     throw new Error("GEMINI_API_KEY is not set");
   }
 
-  const selectedModel = "gemini-2.5-flash-preview-09-2025";
+  const { systemPrompt, enableReasoning = false, reasoningBudget = DEFAULT_REASONING_BUDGET, tools } = options;
+
+  const config: Record<string, any> = {
+    systemInstruction: systemPrompt,
+    tools: tools && tools.length > 0
+      ? [{
+          functionDeclarations: tools.map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            parametersJsonSchema: tool.input_schema,
+          })),
+        }]
+      : [groundingTool],
+  };
+
+  if (options.signal) {
+    config.abortSignal = options.signal;
+  }
 
-  const contents = messages
-    .filter(msg => msg.role !== "system")
-    .map(msg => ({
-      role: msg.role === "assistant" ? "model" : "user",
-      parts: [{ text: msg.content }],
-    }));
+  if (enableReasoning) {
+    config.thinkingConfig = { includeThoughts: true, thinkingBudget: reasoningBudget };
+  }
 
   const stream = await ai.models.generateContentStream({
-    model: selectedModel,
-    config: {
-      systemInstruction: systemPrompt,
-      tools: [groundingTool],
-    },
-    contents,
+    model: options.model || DEFAULT_MODEL_ID,
+    config,
+    contents: await toGeminiContents(messages),
   });
 
-  let fullContent = "";
   let buffer = "";
+  let startedThinking = false;
+  let usage: TokenUsage | undefined;
 
   for await (const chunk of stream) {
-    const content = chunk.text;
-    if (content) {
-      fullContent += content;
-      buffer += content;
+    // Usage metadata is cumulative; the last chunk carries the final counts
+    if (chunk.usageMetadata) {
+      const metadata = chunk.usageMetadata;
+      const cachedTokens = metadata.cachedContentTokenCount || 0;
+      usage = {
+        inputTokens: (metadata.promptTokenCount || 0) - cachedTokens,
+        outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+        thinkingTokens: metadata.thoughtsTokenCount || 0,
+        cacheReadTokens: cachedTokens,
+        cacheWriteTokens: 0,
+      };
+    }
 
-      // Parse and emit action events in real-time
-      const actionMatches = parseActionsFromBuffer(buffer);
-      for (const action of actionMatches.actions) {
-        yield { type: 'action', data: action };
-      }
-      buffer = actionMatches.remaining;
+    const parts = chunk.candidates?.[0]?.content?.parts || [];
 
-      // Yield text content
-      yield { type: 'text', content };
+    for (const part of parts) {
+      if (part.thought && part.text) {
+        if (!startedThinking) {
+          startedThinking = true;
+          yield { type: 'thinking', content: "" };
+        }
+        yield { type: 'thinking', content: part.text };
+      } else if (part.text) {
+        buffer += part.text;
+
+        // Parse and emit action events in real-time
+        const actionMatches = parseActionsFromBuffer(buffer);
+        for (const action of actionMatches.actions) {
+          yield { type: 'action', data: action };
+        }
+        buffer = actionMatches.remaining;
+
+        yield { type: 'text', content: part.text };
+      } else if (part.functionCall?.name) {
+        yield {
+          type: 'tool_call',
+          data: {
+            id: part.functionCall.id || randomUUID(),
+            name: part.functionCall.name,
+            arguments: part.functionCall.args || {},
+          },
+        };
+      }
     }
   }
 
@@ -114,254 +180,33 @@ export async function* chatWithAIStream(
     }
   }
 
-  // After streaming is complete, parse tool calls from the full content
-  const toolCalls = parseToolCalls(fullContent);
-  for (const toolCall of toolCalls) {
-    yield { type: 'tool_call', data: toolCall };
-  }
-}
-
-interface ActionMatch {
-  description: string;
-  status?: 'pending' | 'in_progress' | 'completed' | 'error';
-}
-
-function parseActionsFromBuffer(buffer: string, isFinal: boolean = false): { actions: ActionMatch[], remaining: string } {
-  const actions: ActionMatch[] = [];
-  let remaining = buffer;
-
-  // Match action patterns like: [action:description]
-  const actionPattern = /\[action:(.*?)\]/g;
-  let match;
-  let lastIndex = 0;
-
-  while ((match = actionPattern.exec(buffer)) !== null) {
-    const description = match[1].trim();
-    if (description) {
-      actions.push({ 
-        description,
-        status: 'in_progress'
-      });
-    }
-    lastIndex = match.index + match[0].length;
-  }
-
-  // Keep the part after the last complete match in the buffer
-  if (!isFinal && lastIndex > 0) {
-    // Check if there's a partial match at the end
-    const partialMatch = buffer.slice(lastIndex).match(/\[action:/);
-    if (partialMatch) {
-      remaining = buffer.slice(lastIndex);
-    } else {
-      remaining = "";
-    }
-  } else if (isFinal) {
-    remaining = "";
+  if (usage) {
+    yield { type: 'usage', data: usage };
   }
-
-  return { actions, remaining };
 }
 
-function parseToolCalls(content: string): ToolCall[] {
-  const tools: ToolCall[] = [];
-
-  // Match tool call patterns like: [tool:write_file]{...}
-  // Use a more permissive regex that captures until the next [tool: or end of string
-  const toolPattern = /\[tool:(\w+)\](\{[\s\S]*?)(?=\[tool:|$)/g;
-  let match;
-
-  while ((match = toolPattern.exec(content)) !== null) {
-    try {
-      const toolName = match[1];
-      let jsonStr = match[2].trim();
-
-      // Try to find the complete JSON object by counting braces
-      let braceCount = 0;
-      let jsonEnd = 0;
-      for (let i = 0; i < jsonStr.length; i++) {
-        if (jsonStr[i] === '{') braceCount++;
-        if (jsonStr[i] === '}') braceCount--;
-        if (braceCount === 0 && i > 0) {
-          jsonEnd = i + 1;
-          break;
-        }
-      }
-
-      if (jsonEnd > 0) {
-        jsonStr = jsonStr.substring(0, jsonEnd);
-      }
-
-      const args = JSON.parse(jsonStr);
-      tools.push({ name: toolName, arguments: args });
-    } catch (e) {
-      console.error("Failed to parse tool call:", e);
-      const toolName = match[1];
-      console.error(`Tool: ${toolName}, Raw args: ${match[2].substring(0, 500)}...`);
-    }
-  }
-
-  return tools;
-}
-
-// Generate a human-readable summary for tool calls
-export function getToolCallSummary(toolName: string, args: Record<string, any>): string {
-  switch (toolName) {
-    case "create_boilerplate":
-      return `Created ${args.type} boilerplate`;
-    case "write_file":
-      return `Created ${args.path}`;
-    case "edit_file":
-      return `Edited ${args.path}`;
-    case "delete_file":
-      return `Deleted ${args.path}`;
-    case "list_files":
-      return `Listed all files`;
-    case "read_file":
-      return `Read ${args.path}`;
-    case "run_shell":
-      return `Ran shell command: ${args.command}`;
-    case "serper_web_search":
-      return `Searched: ${args.query}`;
-    case "run_code":
-      return `Executed ${args.language} code`;
-    default:
-      return toolName;
-  }
-}
-
-export const SYSTEM_PROMPT = `You are InfonexAgent, an advanced AI coding assistant created by Ansh and integrated into Vibe Code, an AI-powered app building platform.
-
-You have access to the following MCP tools:
-- create_boilerplate: Create a complete boilerplate project structure (React+Vite with pre-configured vite.config.ts). Use this when starting a NEW project or when user wants a fresh start. Types: 'react-vite'. The boilerplate includes a properly configured vite.config.ts that you must NEVER modify or recreate.
-- write_file: Create or overwrite a file in the project's S3 storage and E2B sandbox
-- edit_file: Edit specific parts of an existing file
-- delete_file: Delete a file from both S3 storage and E2B sandbox permanently
-- list_files: List all files in the current project (searches both S3 storage and E2B sandbox)
-- read_file: Read the content of any file from S3 storage or E2B sandbox
-- run_shell: Execute shell commands in the E2B sandbox terminal (supports long-running commands like npm run dev)
-- run_code: Execute code in the E2B code interpreter (Python/JavaScript)
-- Google Search: You have built-in access to Google Search - just ask questions naturally and I'll search for documentation, libraries, best practices, or any information needed DURING your work (not after)
-- configure_workflow: Configure the run command for this project (automatically runs when sandbox is recreated and available via manual run button). CRITICAL: You MUST ALWAYS configure the workflow as 'npm install;npm run dev' (NOT 'npm run dev' alone). This single command ensures packages are installed before starting the server. This is MANDATORY because when a sandbox expires and gets recreated, only the configured workflow runs automatically. NEVER use just 'npm run dev' - always include 'npm install;' at the beginning.
-
-REAL-TIME ACTION TRACKING:
-Before performing ANY action, announce it using this format: [action:description]
-- Example: [action:Installing dependencies]
-- Example: [action:Configured Start application to run npm run dev]
-- Example: [action:Opened package.json]
-- Example: [action:Installed dependencies]
-- Example: [action:Integrating with Full-stack JavaScript Website]
-These actions show the user what you're doing in real-time as you work.
-
-CRITICAL RULES:
-1. All files you create/edit/delete are automatically synced to S3 storage AND the E2B sandbox
-2. When configuring web servers, ALWAYS use port 3000 (the E2B sandbox preview uses port 3000)
-3. Use 0.0.0.0 as the host when binding ports to make them accessible
-4. The user NEVER sees the full code in chat - only brief summaries
-5. Keep your text responses SHORT - the user only sees what you're doing, not code details
-6. MCP tool calls are processed in the backend - user only sees the summary badges
-7. ALWAYS create websites, apps, and content in ENGLISH language unless specifically asked otherwise
-8. DEFAULT STACK: Always create apps using React + Vite for frontend and Node.js + Express.js for backend (when backend is needed) unless the user explicitly requests a different technology
-9. When starting a long-running server (npm run dev, etc.), ALWAYS use configure_workflow to save the command so it auto-runs when the sandbox restarts. CRITICAL: The workflow command MUST ALWAYS be 'npm install;npm run dev' (NEVER just 'npm run dev'). This is MANDATORY - no exceptions. Always include 'npm install;' before 'npm run dev' to ensure packages are installed when the sandbox is recreated after expiry.
-10. CRITICAL: vite.config.ts is automatically included in the react-vite boilerplate with correct E2B sandbox configuration. You must NEVER create, modify, edit, or delete vite.config.js or vite.config.ts files - they are pre-configured and must remain untouched
-11. FILE NAMING: Use PascalCase for React component files (App.tsx, Button.tsx). ALWAYS match exact filenames when editing - if you created "app.jsx", edit "app.jsx" not "App.jsx". Use list_files to verify exact filenames before editing
-12. USE GOOGLE SEARCH PROACTIVELY: When you need to know how to use a library, check documentation, find best practices, or solve technical problems - just ask naturally and Google Search will provide real-time information DURING your work (not after)
-13. Shell commands auto-forward results back to you - you'll see stdout/stderr automatically after execution
-14. Shell commands auto-forward results back to you - you'll see stdout/stderr automatically after execution
-15. AUTONOMOUS DEBUGGING: If something doesn't work, proactively search for solutions, check error messages, and fix issues without waiting for user input
-16. Always when starts a app instead of running npm run dev command run the command (npm install;npm run dev) dont separate these commands make it always run in a single request both commands.
-17. BOILERPLATE MCP TOOL USAGE: When starting a NEW React project or the user wants a fresh React+Vite setup, use create_boilerplate FIRST instead of manually creating individual files. This creates a complete, properly configured project in one step. Then modify the files as needed.
-18. PACKAGE MANAGEMENT: When you need to use a new npm package (like react-router-dom, axios, etc.), you MUST:
-    a) First update package.json using write_file or edit_file to add the package to "dependencies" or "devDependencies"
-    b) Then run "npm install" using run_shell to install the package
-    c) Only after installation, create/edit files that import that package
-    Example: For react-router-dom, add it to package.json dependencies, run npm install, then create App.tsx with imports
-
-=== E2B SANDBOX DOCUMENTATION ===
-
-SANDBOX ARCHITECTURE:
-- Each project runs in an isolated E2B cloud sandbox (small VM with internet access)
-- Files written via write_file are automatically saved to both S3 and the E2B sandbox filesystem
-- The sandbox provides a public preview URL at https://{port}-{sandbox-id}.e2b.dev
-- Preview URL is ONLY accessible when a web server is actively running on port 3000
-
-CRITICAL: TO SHOW PREVIEW, YOU MUST:
-1. Create your app files (HTML, CSS, JS, Python, Node.js, etc.)
-2. Start a web server on port 3000 with host 0.0.0.0
-3. The server MUST bind to 0.0.0.0 (NOT localhost or 127.0.0.1) to be publicly accessible
-
-STARTING WEB SERVERS (REQUIRED FOR PREVIEW):
-
-For Static HTML/CSS/JS:
-[tool:run_shell]{"command":"python -m http.server 3000 --bind 0.0.0.0"}
-OR
-[tool:run_shell]{"command":"npx serve -l 3000"}
-
-For React/Vite Apps (RECOMMENDED DEFAULT):
-1. Create package.json with scripts and vite.config.js with server: { host: '0.0.0.0', port: 3000 }
-2. [tool:run_shell]{"command":"npm install;npm run dev"}
-3. [tool:configure_workflow]{"command":"npm install;npm run dev"} - CRITICAL: Always use 'npm install;npm run dev' as a single command
-
-For Node.js/Express:
-1. In your server file, use: app.listen(3000, '0.0.0.0', () => {...})
-2. [tool:run_shell]{"command":"node server.js"}
-
-For Python Flask:
-1. In your app file, use: app.run(host='0.0.0.0', port=3000)
-2. [tool:run_shell]{"command":"python app.py"}
-
-For Next.js:
-[tool:run_shell]{"command":"npm run dev -- -p 3000 -H 0.0.0.0"}
-
-BACKGROUND PROCESSES:
-- All server commands (npm run dev, python app.py, node server.js) run in BACKGROUND mode
-- They start immediately and don't block - no need to wait for output
-- The server needs a few seconds to fully initialize before the preview URL is accessible
-- After starting a server, tell the user it's starting and will be ready shortly
-
-COMPLETE WORKFLOW EXAMPLE:
-1. Create files: [tool:write_file]{"path":"index.html","content":"..."}
-2. Start server: [tool:run_shell]{"command":"python -m http.server 3000 --bind 0.0.0.0"}
-3. Tell user: "Server is starting on port 3000. The preview will be available in a few seconds - refresh the preview tab if needed."
-
-IMPORTANT: After starting a development server (npm run dev, etc.), ALWAYS mention:
-- The server is starting in the background
-- It will take a few seconds to be ready
-- The user should refresh the preview tab if it doesn't load immediately
-
-COMMON MISTAKES TO AVOID:
-❌ Using localhost or 127.0.0.1 instead of 0.0.0.0
-❌ Using wrong port (must be 3000)
-❌ Forgetting to start a server after creating files
-❌ Not configuring host: '0.0.0.0' in framework config files
-
-FRAMEWORK-SPECIFIC CONFIG:
-
-Vite: vite.config.ts is pre-configured in the boilerplate - DO NOT create or modify it
-
-Express (server.js):
-app.listen(3000, '0.0.0.0', () => console.log('Server running'))
-
-Flask (app.py):
-app.run(host='0.0.0.0', port=3000)
-
-=== END E2B DOCUMENTATION ===
-
-When using MCP tools, format them as: [tool:tool_name]{JSON_OBJECT}
-
-MCP tool format rules:
-- Use proper JSON with escaped quotes and newlines
-- For file content, escape all special characters properly
-- Example: [tool:create_boilerplate]{"type":"react-vite"} - Creates a complete React+Vite project structure with src/App.tsx (PascalCase)
-- Example: [tool:write_file]{"path":"src/Button.tsx","content":"export function Button() {...}"} - Use PascalCase for React components
-- Example: [tool:edit_file]{"path":"src/App.tsx","old_str":"old code","new_str":"new code"} - Match EXACT filename including case
-- Example: [tool:run_shell]{"command":"npm install express"}
-- Example: [tool:run_code]{"language":"python","code":"print(\\"Hello\\")"}
-- Example: [tool:list_files]{} - Lists all files to verify exact names before editing
-- Example: [tool:read_file]{"path":"package.json"} - Reads the content of package.json
-- Example: [tool:configure_workflow]{"command":"npm install;npm run dev"} - Sets the auto-run command for sandbox restarts (ALWAYS include npm install)
-
-RESPONSE STYLE:
-✓ "I'll create index.html with a welcome page. Starting server on port 3000 - preview will be available shortly."
-✗ "Here's the code for index.html: <!DOCTYPE html>..."
-
-Remember: Be concise! Users see MCP tool badges, not code. ALWAYS START A SERVER for web apps! CREATE EVERYTHING IN ENGLISH!`;
\ No newline at end of file
+export const geminiProvider: LLMProvider = {
+  id: "gemini",
+  name: "Google Gemini",
+  models: [
+    {
+      id: DEFAULT_MODEL_ID,
+      name: "Gemini 2.5 Flash",
+      contextWindow: 1048576,
+      supportsThinking: true,
+      supportsVision: true,
+      pricing: { input: 0.3, output: 2.5, cacheRead: 0.075 },
+    },
+    {
+      id: "gemini-2.5-pro",
+      name: "Gemini 2.5 Pro",
+      contextWindow: 1048576,
+      supportsThinking: true,
+      supportsVision: true,
+      pricing: { input: 1.25, output: 10, cacheRead: 0.31 },
+    },
+  ],
+  defaultModel: DEFAULT_MODEL_ID,
+  isConfigured: () => !!process.env.GEMINI_API_KEY,
+  chatStream: chatWithAIStream,
+};
@@ -0,0 +1,37 @@
+// Project instructions - a persistent document of conventions and preferences for the agent
+// ("use Tailwind", "don't touch server/legacy/"), edited by the user or by the agent through
+// update_instructions, and appended to the system prompt on every run
+import { storage } from "../storage";
+
+export const MAX_INSTRUCTIONS_CHARS = 10000;
+
+export function normalizeInstructions(content: unknown): string {
+  if (typeof content !== 'string') {
+    throw new Error("Instructions must be text");
+  }
+  const trimmed = content.trim();
+  if (trimmed.length > MAX_INSTRUCTIONS_CHARS) {
+    throw new Error(`Instructions are limited to ${MAX_INSTRUCTIONS_CHARS} characters`);
+  }
+  return trimmed;
+}
+
+// Replace the project's instructions, or add a section to the end with append
+export async function updateProjectInstructions(projectId: string, content: unknown, append: boolean = false): Promise<string> {
+  const addition = normalizeInstructions(content);
+  let instructions = addition;
+
+  if (append) {
+    const project = await storage.getProject(projectId);
+    instructions = normalizeInstructions([project?.instructions, addition].filter(Boolean).join('\n\n'));
+  }
+
+  await storage.updateProject(projectId, { instructions: instructions || null });
+  return instructions;
+}
+
+// System prompt section carrying the project's instructions ('' when there are none)
+export function formatInstructionsSection(instructions: string | null | undefined): string {
+  if (!instructions?.trim()) return '';
+  return `\n\n=== PROJECT INSTRUCTIONS ===\nThe user's standing instructions for this project. Follow them unless the user says otherwise in the conversation:\n${instructions.trim()}\n=== END PROJECT INSTRUCTIONS ===`;
+}
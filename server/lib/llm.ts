@@ -0,0 +1,249 @@
+// Provider-neutral types shared by every LLM integration (Bedrock, Gemini, ...)
+import type { FileAttachment, MessageAttachment, ThinkingBlock } from "@shared/schema";
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+  error?: string; // Set when the streamed tool input could not be parsed
+}
+
+export interface ToolResult {
+  toolUseId: string;
+  content: string;
+  isError?: boolean;
+  images?: string[]; // Image URLs returned by the tool (e.g. preview screenshots), sent as vision input
+}
+
+export type { ThinkingBlock };
+
+export interface Message {
+  role: "user" | "assistant" | "system";
+  content: string;
+  attachments?: Array<MessageAttachment | { url: string }>;
+  toolCalls?: ToolCall[]; // Assistant tool calls
+  toolResults?: ToolResult[]; // User turn answering the previous tool calls
+  thinkingBlocks?: ThinkingBlock[];
+}
+
+// Tool declaration (JSON schema for the tool input)
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: Record<string, any>;
+}
+
+export interface ActionMatch {
+  description: string;
+  status?: 'pending' | 'in_progress' | 'completed' | 'error';
+}
+
+// Token counts for one model request. thinkingTokens is the share of outputTokens spent on
+// reasoning (estimated from the thinking text when the provider doesn't report it)
+export interface TokenUsage {
+  inputTokens: number; // Uncached input tokens
+  outputTokens: number;
+  thinkingTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export type StreamChunk =
+  | { type: 'text'; content: string }
+  | { type: 'thinking'; content: string }
+  | { type: 'thinking_block'; data: ThinkingBlock }
+  | { type: 'action'; data: ActionMatch }
+  | { type: 'tool_call'; data: ToolCall }
+  | { type: 'usage'; data: TokenUsage };
+
+export interface ChatStreamOptions {
+  model?: string;
+  systemPrompt?: string;
+  enableReasoning?: boolean;
+  reasoningBudget?: number;
+  tools?: ToolDefinition[];
+  signal?: AbortSignal; // Aborts the request and stream when the run is cancelled
+}
+
+// Thinking token budget chosen per message (Anthropic requires at least 1024)
+export const DEFAULT_REASONING_BUDGET = 4096;
+export const MIN_REASONING_BUDGET = 1024;
+export const MAX_REASONING_BUDGET = 16384;
+
+export function parseReasoningBudget(value: unknown): number {
+  if (value === undefined || value === null) return DEFAULT_REASONING_BUDGET;
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget < MIN_REASONING_BUDGET || budget > MAX_REASONING_BUDGET) {
+    throw new Error(`reasoningBudget must be a whole number of tokens between ${MIN_REASONING_BUDGET} and ${MAX_REASONING_BUDGET}`);
+  }
+  return budget;
+}
+
+// Prices in USD per million tokens; cache prices default to the input price
+export interface ModelPricing {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export interface LLMModel {
+  id: string;
+  name: string;
+  contextWindow: number;
+  supportsThinking: boolean;
+  supportsVision: boolean;
+  pricing?: ModelPricing; // Unpriced models (e.g. self-hosted) are recorded at zero cost
+}
+
+export interface LLMProvider {
+  id: string;
+  name: string;
+  models: LLMModel[];
+  defaultModel: string;
+  isConfigured(): boolean;
+  chatStream(messages: Message[], options: ChatStreamOptions): AsyncGenerator<StreamChunk, void, unknown>;
+}
+
+export function parseActionsFromBuffer(buffer: string, isFinal: boolean = false): { actions: ActionMatch[], remaining: string } {
+  const actions: ActionMatch[] = [];
+  let remaining = buffer;
+
+  // Match action patterns like: [action:description]
+  const actionPattern = /\[action:(.*?)\]/g;
+  let match;
+  let lastIndex = 0;
+
+  while ((match = actionPattern.exec(buffer)) !== null) {
+    const description = match[1].trim();
+    if (description) {
+      actions.push({
+        description,
+        status: 'in_progress'
+      });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  // Keep the part after the last complete match in the buffer
+  if (!isFinal && lastIndex > 0) {
+    // Check if there's a partial match at the end
+    const partialMatch = buffer.slice(lastIndex).match(/\[action:/);
+    if (partialMatch) {
+      remaining = buffer.slice(lastIndex);
+    } else {
+      remaining = "";
+    }
+  } else if (isFinal) {
+    remaining = "";
+  }
+
+  return { actions, remaining };
+}
+
+// Determine image media type from URL or default to jpeg
+export function getImageMediaType(imageUrl: string): string {
+  if (imageUrl.includes('.png')) return 'image/png';
+  if (imageUrl.includes('.gif')) return 'image/gif';
+  if (imageUrl.includes('.webp')) return 'image/webp';
+  return 'image/jpeg';
+}
+
+// Fetch an image attachment (S3 URL) and return it base64 encoded for vision input
+export async function fetchImageAttachment(
+  attachment: string | { url: string }
+): Promise<{ mediaType: string; data: string }> {
+  const imageUrl = typeof attachment === 'string' ? attachment : attachment.url;
+
+  const response = await fetch(imageUrl);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch image: ${response.statusText}`);
+  }
+
+  const arrayBuffer = await response.arrayBuffer();
+  return {
+    mediaType: getImageMediaType(imageUrl),
+    data: Buffer.from(arrayBuffer).toString('base64'),
+  };
+}
+
+// Fetch the images a tool returned; images that can't be fetched are left out
+export async function loadToolResultImages(toolResult: ToolResult): Promise<Array<{ mediaType: string; data: string }>> {
+  const images: Array<{ mediaType: string; data: string }> = [];
+  for (const url of toolResult.images || []) {
+    try {
+      images.push(await fetchImageAttachment(url));
+    } catch (error) {
+      console.error('Failed to fetch tool result image:', error);
+    }
+  }
+  return images;
+}
+
+// Text attachments are cut down to this many characters per model request
+export const MAX_TEXT_ATTACHMENT_CHARS = 50000;
+
+// An attachment ready to become a provider content block
+export type LoadedAttachment =
+  | { type: 'image'; mediaType: string; data: string }
+  | { type: 'document'; mediaType: string; data: string; name: string }
+  | { type: 'text'; text: string };
+
+function asFileAttachment(attachment: MessageAttachment | { url: string }): FileAttachment | null {
+  return typeof attachment !== 'string' && 'kind' in attachment ? attachment : null;
+}
+
+export function isImageAttachment(attachment: MessageAttachment | { url: string }): boolean {
+  return !asFileAttachment(attachment);
+}
+
+// Fetch an attachment from S3: images for vision input, PDFs as documents, and text
+// files and ZIP listings as text
+export async function loadAttachment(attachment: MessageAttachment | { url: string }): Promise<LoadedAttachment> {
+  const file = asFileAttachment(attachment);
+  if (!file) {
+    return { type: 'image', ...(await fetchImageAttachment(attachment)) };
+  }
+
+  if (file.kind === 'zip') {
+    const extracted = file.extractedTo !== undefined
+      ? `\nThe archive was extracted into the project${file.extractedTo ? ` under ${file.extractedTo}/` : ''}.`
+      : '';
+    return { type: 'text', text: `[Attached archive: ${file.name}]\n${file.listing || '(empty)'}${extracted}` };
+  }
+
+  const response = await fetch(file.url);
+  if (!response.ok) {
+    throw new Error(`Failed to fetch attachment ${file.name}: ${response.statusText}`);
+  }
+
+  if (file.kind === 'pdf') {
+    const data = Buffer.from(await response.arrayBuffer()).toString('base64');
+    return { type: 'document', mediaType: 'application/pdf', data, name: file.name };
+  }
+
+  const content = await response.text();
+  const text = content.length > MAX_TEXT_ATTACHMENT_CHARS
+    ? `${content.slice(0, MAX_TEXT_ATTACHMENT_CHARS)}\n[... ${content.length - MAX_TEXT_ATTACHMENT_CHARS} more characters not shown ...]`
+    : content;
+  return { type: 'text', text: `[Attached file: ${file.name}]\n${text}` };
+}
+
+// Run a provider to completion and return only the text (no tools) - used for internal
+// requests such as conversation summaries
+export async function completeText(
+  provider: LLMProvider,
+  messages: Message[],
+  options: ChatStreamOptions = {}
+): Promise<{ text: string; usage?: TokenUsage }> {
+  let text = "";
+  let usage: TokenUsage | undefined;
+  for await (const chunk of provider.chatStream(messages, { ...options, tools: undefined })) {
+    if (chunk.type === 'text') {
+      text += chunk.content;
+    } else if (chunk.type === 'usage') {
+      usage = chunk.data;
+    }
+  }
+  return { text: text.trim(), usage };
+}
@@ -0,0 +1,69 @@
+// File mentions - "@src/App.tsx" in a prompt pins that file's current content into the
+// user turn, so the model doesn't have to guess it or spend a tool call reading it
+import { storage } from "../storage";
+import { getFileFromS3 } from "./s3";
+
+// Caps keep a handful of mentions from crowding out the conversation history
+const MAX_MENTIONED_FILES = 10;
+const MAX_MENTIONED_FILE_CHARS = 40000;
+const MAX_MENTION_CONTEXT_CHARS = 100000;
+
+// "@" at the start of the prompt or after whitespace/an opening bracket, followed by a path.
+// Trailing sentence punctuation ("see @src/App.tsx.") is not part of the path.
+const MENTION_PATTERN = /(?:^|[\s(\[])@([\w./-]*[\w/-])/g;
+
+// Unique "@" mentions that look like paths, in order of first mention. Not all of them are
+// files - "@john" or "@tanstack/react-query" match too.
+export function extractMentionedPaths(content: string): string[] {
+  const paths = new Set<string>();
+  for (const match of Array.from(content.matchAll(MENTION_PATTERN))) {
+    paths.add(match[1].replace(/^\.\//, ''));
+  }
+  return Array.from(paths);
+}
+
+// Files written by the agent have no MIME type; uploads may be images or archives
+export function isBinaryFile(mimeType: string | null): boolean {
+  return !!mimeType && /^(image|audio|font)\/|^application\/(pdf|zip|gzip|octet-stream)/.test(mimeType) && mimeType !== 'image/svg+xml';
+}
+
+// Section appended to the user turn with the mentioned files' contents ('' without mentions).
+// Only mentions of existing project files are expanded; any other "@" text is left as written.
+export async function buildMentionContext(projectId: string, content: string): Promise<string> {
+  const candidates = extractMentionedPaths(content);
+  if (candidates.length === 0) return '';
+
+  const projectFiles = new Map((await storage.getFilesByProjectId(projectId)).map(file => [file.path, file]));
+  const paths = candidates.filter(path => projectFiles.has(path)).slice(0, MAX_MENTIONED_FILES);
+  if (paths.length === 0) return '';
+
+  const sections: string[] = [];
+  let remainingChars = MAX_MENTION_CONTEXT_CHARS;
+
+  for (const path of paths) {
+    const file = projectFiles.get(path)!;
+    if (isBinaryFile(file.mimeType)) {
+      sections.push(`--- ${path} ---\n(Binary file - content not included)`);
+      continue;
+    }
+    if (remainingChars <= 0) {
+      sections.push(`--- ${path} ---\n(Not included - mentioned files are too large; use read_file)`);
+      continue;
+    }
+
+    try {
+      const fileContent = await getFileFromS3(file.s3Key);
+      const limit = Math.min(MAX_MENTIONED_FILE_CHARS, remainingChars);
+      const included = fileContent.length > limit
+        ? `${fileContent.slice(0, limit)}\n[... ${fileContent.length - limit} more characters - use read_file for the rest ...]`
+        : fileContent;
+      remainingChars -= Math.min(fileContent.length, limit);
+      sections.push(`--- ${path} ---\n${included}`);
+    } catch (error: any) {
+      console.error(`Failed to read mentioned file ${path}:`, error);
+      sections.push(`--- ${path} ---\n(Could not be read: ${error.message})`);
+    }
+  }
+
+  return `\n\n[MENTIONED FILES]\nCurrent contents of the files the user mentioned:\n\n${sections.join('\n\n')}`;
+}
@@ -0,0 +1,166 @@
+// Deterministic scripted LLM provider for offline end-to-end testing.
+// Enabled by setting MOCK_LLM_SCRIPT to a fixture name (server/fixtures/mock-llm/<name>.json) or a file path.
+import { readFileSync, existsSync } from "fs";
+import path from "path";
+import {
+  parseActionsFromBuffer,
+  type ChatStreamOptions,
+  type LLMProvider,
+  type Message,
+  type StreamChunk,
+} from "./llm";
+
+const FIXTURES_DIR = path.join(process.cwd(), "server/fixtures/mock-llm");
+
+export type MockEvent =
+  | { type: "text"; content: string }
+  | { type: "thinking"; content: string }
+  | { type: "tool_call"; name: string; arguments?: Record<string, any> }
+  | { type: "usage"; inputTokens?: number; outputTokens?: number; thinkingTokens?: number; cacheReadTokens?: number; cacheWriteTokens?: number }
+  | { type: "error"; message: string };
+
+export interface MockTurn {
+  events: MockEvent[];
+}
+
+export interface MockRun {
+  match?: string; // Regex tested against the latest user message; runs without one are used in order
+  turns: MockTurn[];
+}
+
+export interface MockScript {
+  delayMs?: number; // Pause between events to simulate streaming
+  runs: MockRun[];
+}
+
+function resolveScriptPath(script: string): string {
+  if (existsSync(script)) {
+    return script;
+  }
+
+  const fixturePath = path.join(FIXTURES_DIR, script.endsWith(".json") ? script : `${script}.json`);
+  if (!existsSync(fixturePath)) {
+    throw new Error(`Mock LLM script not found: ${script}`);
+  }
+  return fixturePath;
+}
+
+// Read on every call so tests can switch scripts without restarting the server
+export function loadMockScript(script: string = process.env.MOCK_LLM_SCRIPT || ""): MockScript {
+  const parsed = JSON.parse(readFileSync(resolveScriptPath(script), "utf-8"));
+
+  // A bare list of turns is shorthand for a single run
+  if (Array.isArray(parsed.turns)) {
+    return { delayMs: parsed.delayMs, runs: [{ turns: parsed.turns }] };
+  }
+  return parsed;
+}
+
+// A "real" user message is one typed by the user rather than a tool result turn
+function isUserPrompt(msg: Message): boolean {
+  return msg.role === "user" && !msg.toolResults;
+}
+
+// Pick the run for the latest user prompt and the turn within it from the conversation shape,
+// so the same conversation always replays the same scripted response
+export function selectMockTurn(script: MockScript, messages: Message[]): { turn?: MockTurn; turnIndex: number } {
+  const prompts = messages.filter(isUserPrompt);
+  const latestPrompt = prompts[prompts.length - 1];
+  const promptIndex = latestPrompt ? messages.lastIndexOf(latestPrompt) : -1;
+
+  const run = script.runs.find(r => r.match && latestPrompt && new RegExp(r.match, "i").test(latestPrompt.content))
+    || script.runs.filter(r => !r.match)[Math.max(0, prompts.length - 1)]
+    || script.runs[script.runs.length - 1];
+
+  const turnIndex = messages.slice(promptIndex + 1).filter(msg => msg.role === "assistant").length;
+  return { turn: run?.turns[turnIndex], turnIndex };
+}
+
+export async function* chatWithAIStream(
+  messages: Message[],
+  options: ChatStreamOptions = {}
+): AsyncGenerator<StreamChunk, void, unknown> {
+  const script = loadMockScript();
+  const { turn, turnIndex } = selectMockTurn(script, messages);
+
+  if (!turn) {
+    yield { type: 'text', content: "(mock script exhausted)" };
+    return;
+  }
+
+  let buffer = "";
+  let thinking = "";
+  let toolIndex = 0;
+
+  for (const event of turn.events) {
+    if (script.delayMs) {
+      await new Promise(resolve => setTimeout(resolve, script.delayMs));
+    }
+    options.signal?.throwIfAborted();
+
+    if (event.type === "thinking") {
+      thinking += event.content;
+      yield { type: 'thinking', content: event.content };
+    } else if (event.type === "text") {
+      buffer += event.content;
+
+      const actionMatches = parseActionsFromBuffer(buffer);
+      for (const action of actionMatches.actions) {
+        yield { type: 'action', data: action };
+      }
+      buffer = actionMatches.remaining;
+
+      yield { type: 'text', content: event.content };
+    } else if (event.type === "tool_call") {
+      yield {
+        type: 'tool_call',
+        data: {
+          id: `mock_tool_${turnIndex}_${toolIndex++}`,
+          name: event.name,
+          arguments: event.arguments || {},
+        },
+      };
+    } else if (event.type === "usage") {
+      yield {
+        type: 'usage',
+        data: {
+          inputTokens: event.inputTokens || 0,
+          outputTokens: event.outputTokens || 0,
+          thinkingTokens: event.thinkingTokens || 0,
+          cacheReadTokens: event.cacheReadTokens || 0,
+          cacheWriteTokens: event.cacheWriteTokens || 0,
+        },
+      };
+    } else if (event.type === "error") {
+      throw new Error(event.message);
+    }
+  }
+
+  if (buffer.trim()) {
+    const finalActions = parseActionsFromBuffer(buffer, true);
+    for (const action of finalActions.actions) {
+      yield { type: 'action', data: action };
+    }
+  }
+
+  if (thinking) {
+    yield { type: 'thinking_block', data: { type: "thinking", thinking, signature: "mock-signature" } };
+  }
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  name: "Scripted mock",
+  models: [
+    {
+      id: "scripted",
+      name: "Scripted responses",
+      contextWindow: 200000,
+      supportsThinking: true,
+      supportsVision: true,
+    },
+  ],
+  defaultModel: "scripted",
+  isConfigured: () => !!process.env.MOCK_LLM_SCRIPT,
+  chatStream: chatWithAIStream,
+};
@@ -0,0 +1,415 @@
+// Unified diff patches for the apply_patch tool. A patch can create, change, rename and delete
+// several files; every hunk is checked before anything is written, so a patch applies completely
+// or not at all.
+import { storage } from "../storage";
+import { uploadFileToS3, getFileFromS3, deleteFileFromS3 } from "./s3";
+import { writeFileToSandbox, deleteFileFromSandbox } from "./e2b";
+import { createFileDiff } from "./diff";
+
+export interface PatchHunk {
+  header: string;
+  oldStart: number; // 1-based; for hunks without old lines, the line they are inserted after
+  lines: Array<{ type: ' ' | '-' | '+'; text: string }>;
+  noNewlineAtEnd: boolean; // The new file ends without a newline
+  oldNoNewlineAtEnd: boolean; // The old file ended without one (and the new file adds it)
+}
+
+export interface FilePatch {
+  oldPath: string | null; // null when the patch creates the file
+  newPath: string | null; // null when the patch deletes the file
+  hunks: PatchHunk[];
+}
+
+export interface PatchedFile {
+  path: string;
+  status: 'created' | 'modified' | 'deleted' | 'renamed';
+  from?: string; // Old path of a renamed file
+  additions: number;
+  deletions: number;
+}
+
+export interface PatchResult {
+  files: PatchedFile[];
+  diff: string; // Unified diff of what was actually written
+}
+
+// Lines of the file shown around a hunk that doesn't match
+const MISMATCH_CONTEXT_LINES = 3;
+
+const HUNK_HEADER_PATTERN = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+function parsePatchPath(raw: string): string | null {
+  // Drop a trailing timestamp (diff -u output) and the a/ b/ prefixes
+  const path = raw.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+  if (path === '/dev/null') return null;
+  return path.replace(/^[ab]\//, '').replace(/^\.\//, '');
+}
+
+// Parse a unified diff, with or without git headers, into per-file hunks
+export function parsePatch(patch: string): FilePatch[] {
+  if (typeof patch !== 'string' || !patch.trim()) {
+    throw new Error('The patch is empty');
+  }
+
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let file: FilePatch | null = null;
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      const match = /^diff --git a\/(.+) b\/(.+)$/.exec(line);
+      file = { oldPath: match?.[1] ?? null, newPath: match?.[2] ?? null, hunks: [] };
+      files.push(file);
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parsePatchPath(line.slice(4));
+      const newPath = parsePatchPath(lines[i + 1].slice(4));
+      // A git header already started this file unless it has hunks
+      if (!file || file.hunks.length > 0) {
+        file = { oldPath, newPath, hunks: [] };
+        files.push(file);
+      } else {
+        file.oldPath = oldPath;
+        file.newPath = newPath;
+      }
+      i += 2;
+      continue;
+    }
+
+    if (file && /^(new|deleted) file mode/.test(line)) {
+      if (line.startsWith('new')) file.oldPath = null;
+      else file.newPath = null;
+      i++;
+      continue;
+    }
+
+    if (file && line.startsWith('rename from ')) {
+      file.oldPath = line.slice('rename from '.length).trim();
+      i++;
+      continue;
+    }
+    if (file && line.startsWith('rename to ')) {
+      file.newPath = line.slice('rename to '.length).trim();
+      i++;
+      continue;
+    }
+
+    if (line.startsWith('@@')) {
+      if (!file) {
+        throw new Error(`Hunk "${line}" has no ---/+++ file header before it`);
+      }
+      const header = HUNK_HEADER_PATTERN.exec(line);
+      if (!header) {
+        throw new Error(`Invalid hunk header "${line}" - expected "@@ -start,count +start,count @@"`);
+      }
+
+      const oldCount = header[2] === undefined ? 1 : Number(header[2]);
+      const newCount = header[4] === undefined ? 1 : Number(header[4]);
+      const hunk: PatchHunk = { header: line, oldStart: Number(header[1]), lines: [], noNewlineAtEnd: false, oldNoNewlineAtEnd: false };
+      let oldSeen = 0;
+      let newSeen = 0;
+      i++;
+
+      // "\ No newline at end of file" applies to the line before it
+      const markNoNewline = () => {
+        if (hunk.lines[hunk.lines.length - 1]?.type === '-') hunk.oldNoNewlineAtEnd = true;
+        else hunk.noNewlineAtEnd = true;
+      };
+
+      // The header's counts say where the hunk ends, so lines like "--- x" inside it are content.
+      // Blank lines (but not the end of the patch) count as empty context lines.
+      while (oldSeen < oldCount || newSeen < newCount) {
+        const hunkLine = i < lines.length ? lines[i] : undefined;
+        const isContext = hunkLine?.[0] === ' ' || (hunkLine === '' && i < lines.length - 1);
+        if (hunkLine?.startsWith('\\')) {
+          markNoNewline();
+        } else if (isContext && oldSeen < oldCount && newSeen < newCount) {
+          hunk.lines.push({ type: ' ', text: hunkLine!.slice(1) });
+          oldSeen++;
+          newSeen++;
+        } else if (hunkLine?.[0] === '-' && oldSeen < oldCount) {
+          hunk.lines.push({ type: '-', text: hunkLine.slice(1) });
+          oldSeen++;
+        } else if (hunkLine?.[0] === '+' && newSeen < newCount) {
+          hunk.lines.push({ type: '+', text: hunkLine.slice(1) });
+          newSeen++;
+        } else {
+          throw new Error(
+            `Hunk "${line}" has ${oldSeen} old and ${newSeen} new lines where its header says ${oldCount} and ${newCount}` +
+            ` - fix the counts in the header or the lines of the hunk`
+          );
+        }
+        i++;
+      }
+      if (lines[i]?.startsWith('\\')) {
+        markNoNewline();
+        i++;
+      }
+
+      if (!hunk.lines.some(l => l.type !== ' ')) {
+        throw new Error(`Hunk "${line}" has no added or removed lines`);
+      }
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    // Commit messages, "index" lines and other text between files are ignored
+    i++;
+  }
+
+  const patches = files.filter(f => f.hunks.length > 0 || f.oldPath !== f.newPath);
+  if (patches.length === 0) {
+    throw new Error('No file changes found - the patch needs ---/+++ file headers followed by @@ hunks');
+  }
+  for (const f of patches) {
+    if (!f.oldPath && !f.newPath) {
+      throw new Error('A file in the patch has /dev/null as both its old and new path');
+    }
+  }
+  return patches;
+}
+
+// Paths a patch may create, change or delete (for checkpoints); [] when it doesn't parse
+export function getPatchPaths(patch: string): string[] {
+  try {
+    const paths = parsePatch(patch).flatMap(f => [f.oldPath, f.newPath]);
+    return Array.from(new Set(paths.filter((p): p is string => !!p)));
+  } catch {
+    return [];
+  }
+}
+
+// Paths a patch deletes or renames away, which removes them like delete_file; [] when it doesn't parse
+export function getPatchRemovedPaths(patch: string): string[] {
+  try {
+    return parsePatch(patch)
+      .filter(f => f.oldPath && f.newPath !== f.oldPath)
+      .map(f => f.oldPath as string);
+  } catch {
+    return [];
+  }
+}
+
+function splitContent(content: string): { lines: string[]; endsWithNewline: boolean } {
+  if (content === '') return { lines: [], endsWithNewline: true };
+  const lines = content.split('\n');
+  const endsWithNewline = lines[lines.length - 1] === '';
+  if (endsWithNewline) lines.pop();
+  return { lines, endsWithNewline };
+}
+
+// Where the hunk's old lines appear in the file: the stated line first, then the nearest
+// position, then the same ignoring trailing whitespace
+function findHunk(lines: string[], oldLines: string[], expected: number, from: number): number {
+  const comparisons = [
+    (a: string, b: string) => a === b,
+    (a: string, b: string) => a.trimEnd() === b.trimEnd(),
+  ];
+
+  for (const equals of comparisons) {
+    const matchesAt = (start: number) =>
+      start >= from && start + oldLines.length <= lines.length &&
+      oldLines.every((line, k) => equals(lines[start + k], line));
+
+    for (let distance = 0; distance <= lines.length; distance++) {
+      if (matchesAt(expected + distance)) return expected + distance;
+      if (distance > 0 && matchesAt(expected - distance)) return expected - distance;
+    }
+  }
+  return -1;
+}
+
+function describeMismatch(path: string, hunk: PatchHunk, lines: string[], oldLines: string[], expected: number): string {
+  // Point at the first expected line that differs from the file at the stated position
+  const start = Math.min(Math.max(expected, 0), lines.length);
+  const firstDiff = oldLines.findIndex((line, k) => lines[start + k] !== line);
+  const at = start + Math.max(firstDiff, 0);
+
+  const from = Math.max(0, at - MISMATCH_CONTEXT_LINES);
+  const to = Math.min(lines.length, at + MISMATCH_CONTEXT_LINES + 1);
+  const actual = lines.slice(from, to).map((line, k) => `${String(from + k + 1).padStart(5)} | ${line}`).join('\n');
+
+  return [
+    `${path}: hunk "${hunk.header}" does not match the file.`,
+    firstDiff === -1
+      ? `The file has only ${lines.length} lines.`
+      : `Expected line ${at + 1} to be:\n  ${JSON.stringify(oldLines[firstDiff])}`,
+    `The file around line ${at + 1} contains:\n${actual || '  (empty file)'}`,
+    `Re-read the file and regenerate the patch from its current content.`,
+  ].join('\n');
+}
+
+// Apply a file's hunks in order; throws with the file's actual lines when one doesn't match
+export function applyHunks(path: string, content: string, hunks: PatchHunk[]): string {
+  const { lines, endsWithNewline } = splitContent(content);
+  let result = lines;
+  let offset = 0; // Where the previous hunk ended up relative to its stated line
+  let cursor = 0; // Hunks can't overlap earlier ones
+  let eol = endsWithNewline;
+  // Patches are parsed with plain newlines; added lines follow the file's line endings
+  const lineEnd = content.includes('\r\n') ? '\r' : '';
+
+  for (const hunk of hunks) {
+    const oldLines = hunk.lines.filter(l => l.type !== '+').map(l => l.text);
+    const newLineCount = hunk.lines.filter(l => l.type !== '-').length;
+
+    let start: number;
+    if (oldLines.length === 0) {
+      // Pure insertion after line oldStart
+      start = Math.min(Math.max(hunk.oldStart + offset, cursor), result.length);
+    } else {
+      const expected = Math.max(hunk.oldStart - 1 + offset, 0);
+      start = findHunk(result, oldLines, expected, cursor);
+      if (start === -1) {
+        throw new Error(describeMismatch(path, hunk, result, oldLines, expected));
+      }
+    }
+
+    // Keep the file's own context lines (they may differ in trailing whitespace)
+    const replacement: string[] = [];
+    let k = start;
+    for (const line of hunk.lines) {
+      if (line.type === ' ') replacement.push(result[k++]);
+      else if (line.type === '-') k++;
+      else replacement.push(line.text + lineEnd);
+    }
+
+    const touchesEnd = start + oldLines.length === result.length;
+    result = [...result.slice(0, start), ...replacement, ...result.slice(start + oldLines.length)];
+    if (touchesEnd && hunk.noNewlineAtEnd) eol = false;
+    else if (touchesEnd && hunk.oldNoNewlineAtEnd) eol = true;
+
+    // Later hunks are looked for where this one actually was
+    offset = start - (oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + newLineCount - oldLines.length;
+    cursor = start + replacement.length;
+  }
+
+  if (result.length === 0) return '';
+  return result.join('\n') + (eol ? '\n' : '');
+}
+
+// Work out every file's new content from the current project files without writing anything.
+// Returns path -> content, with null for files the patch deletes.
+export async function computePatch(projectId: string, filePatches: FilePatch[]): Promise<{
+  before: Map<string, string | null>;
+  after: Map<string, string | null>;
+}> {
+  const before = new Map<string, string | null>();
+  const after = new Map<string, string | null>();
+
+  const read = async (path: string): Promise<string | null> => {
+    if (after.has(path)) return after.get(path)!;
+    if (!before.has(path)) {
+      const existingFile = await storage.getFileByPath(projectId, path);
+      before.set(path, existingFile ? await getFileFromS3(existingFile.s3Key) : null);
+    }
+    return before.get(path)!;
+  };
+
+  for (const filePatch of filePatches) {
+    const { oldPath, newPath, hunks } = filePatch;
+
+    if (oldPath === null) {
+      if (await read(newPath!) !== null) {
+        throw new Error(`${newPath}: the patch creates this file but it already exists - patch it against its current content instead`);
+      }
+      after.set(newPath!, applyHunks(newPath!, '', hunks));
+      continue;
+    }
+
+    const current = await read(oldPath);
+    if (current === null) {
+      throw new Error(`${oldPath}: file not found`);
+    }
+    const patched = applyHunks(oldPath, current, hunks);
+
+    if (newPath === null) {
+      after.set(oldPath, null);
+    } else if (newPath !== oldPath) {
+      if (await read(newPath) !== null) {
+        throw new Error(`${oldPath}: cannot rename to ${newPath}, which already exists`);
+      }
+      after.set(oldPath, null);
+      after.set(newPath, patched);
+    } else {
+      after.set(oldPath, patched);
+    }
+  }
+
+  // Paths first touched by a later file patch still need their original content recorded
+  for (const path of Array.from(after.keys())) {
+    await read(path);
+  }
+
+  return { before, after };
+}
+
+async function writeProjectFile(projectId: string, path: string, content: string | null): Promise<void> {
+  const existingFile = await storage.getFileByPath(projectId, path);
+
+  if (content === null) {
+    if (!existingFile) return;
+    await deleteFileFromS3(existingFile.s3Key);
+    await deleteFileFromSandbox(projectId, path);
+    await storage.deleteFile(existingFile.id);
+    return;
+  }
+
+  const s3Key = await uploadFileToS3(projectId, path, content);
+  await writeFileToSandbox(projectId, path, content);
+  const size = Buffer.byteLength(content, 'utf-8');
+  if (existingFile) {
+    await storage.updateFile(existingFile.id, { s3Key, size });
+  } else {
+    await storage.createFile({ projectId, path, s3Key, size });
+  }
+}
+
+// Apply a patch to S3, the sandbox and the files table. Nothing is written unless every hunk
+// applies; if a write fails part way, files already written are put back.
+export async function applyPatchToProject(projectId: string, patch: string): Promise<PatchResult> {
+  const filePatches = parsePatch(patch);
+  const { before, after } = await computePatch(projectId, filePatches);
+
+  const written: string[] = [];
+  try {
+    for (const [path, content] of Array.from(after.entries())) {
+      if (content === before.get(path)) continue;
+      written.push(path);
+      await writeProjectFile(projectId, path, content);
+    }
+  } catch (error: any) {
+    for (const path of written.reverse()) {
+      await writeProjectFile(projectId, path, before.get(path) ?? null).catch(rollbackError =>
+        console.error(`Failed to roll back ${path} after a failed patch:`, rollbackError)
+      );
+    }
+    throw new Error(`Failed to write the patch (no changes were kept): ${error.message}`);
+  }
+
+  const files: PatchedFile[] = [];
+  const diffs: string[] = [];
+  for (const filePatch of filePatches) {
+    const path = (filePatch.newPath ?? filePatch.oldPath)!;
+    if (files.some(f => f.path === path)) continue;
+
+    const oldContent = filePatch.oldPath ? before.get(filePatch.oldPath) ?? null : null;
+    const newContent = after.get(path) ?? null;
+    const { diff, additions, deletions } = createFileDiff(path, oldContent, newContent);
+    if (diff) diffs.push(diff);
+
+    const status = filePatch.oldPath === null ? 'created'
+      : filePatch.newPath === null ? 'deleted'
+      : filePatch.oldPath !== filePatch.newPath ? 'renamed'
+      : 'modified';
+    files.push({ path, status, ...(status === 'renamed' && { from: filePatch.oldPath! }), additions, deletions });
+  }
+
+  return { files, diff: diffs.join('\n') };
+}
@@ -0,0 +1,155 @@
+// Plan mode - the agent investigates with read-only tools and proposes a step-by-step plan.
+// Nothing runs until the user approves it; the approved plan then drives a normal run
+// whose progress is reported step by step.
+import type { ToolDefinition } from "./llm";
+import type { AgentAction, LocalTool } from "./agent";
+import { TOOL_DEFINITIONS } from "./tools";
+
+export interface PlanStep {
+  title: string;
+  description?: string;
+  files?: string[]; // Files to create, edit or delete
+  commands?: string[]; // Shell commands to run
+  packages?: string[]; // Packages to add
+  status?: AgentAction['status'];
+}
+
+export interface Plan {
+  summary: string;
+  steps: PlanStep[];
+  status: 'proposed' | 'approved' | 'rejected' | 'completed';
+}
+
+// Tools that only inspect the project, allowed while planning
+const READ_ONLY_TOOLS = ['list_files', 'read_file', 'search_files', 'get_logs', 'web_search', 'fetch_url'];
+
+export const PROPOSE_PLAN_TOOL: ToolDefinition = {
+  name: "propose_plan",
+  description: "Submit the step-by-step plan for the user to review. Call this exactly once, after any investigation. Nothing is executed until the user approves the plan.",
+  input_schema: {
+    type: "object",
+    properties: {
+      summary: { type: "string", description: "One or two sentences describing the overall approach" },
+      steps: {
+        type: "array",
+        description: "Ordered steps, each small enough to verify on its own",
+        items: {
+          type: "object",
+          properties: {
+            title: { type: "string", description: "Short imperative title, e.g. 'Add the todo list component'" },
+            description: { type: "string", description: "What this step does and why" },
+            files: { type: "array", items: { type: "string" }, description: "Files to create, edit or delete" },
+            commands: { type: "array", items: { type: "string" }, description: "Shell commands to run" },
+            packages: { type: "array", items: { type: "string" }, description: "Packages to install" },
+          },
+          required: ["title"],
+        },
+      },
+    },
+    required: ["summary", "steps"],
+  },
+};
+
+export const UPDATE_PLAN_STEP_TOOL: ToolDefinition = {
+  name: "update_plan_step",
+  description: "Report progress on the approved plan. Mark a step in_progress before working on it and completed (or error) when it is done.",
+  input_schema: {
+    type: "object",
+    properties: {
+      step: { type: "integer", description: "1-based step number" },
+      status: { type: "string", enum: ["in_progress", "completed", "error"] },
+    },
+    required: ["step", "status"],
+  },
+};
+
+export const PLAN_MODE_PROMPT = `
+
+=== PLAN MODE ===
+The user wants to review a plan before anything changes. Do NOT create, edit or delete files and do NOT run commands.
+You may use list_files, read_file, search_files and get_logs to understand the project, and web_search and fetch_url to research. Then call propose_plan once with an ordered list of steps,
+naming the files to touch, the commands to run and the packages to add in each step. Keep your text reply to a short
+introduction of the plan - the plan itself is shown to the user from the propose_plan call.`;
+
+export const PLAN_MODE_TOOLS = TOOL_DEFINITIONS.filter(tool => READ_ONLY_TOOLS.includes(tool.name));
+
+// propose_plan ends the planning run - the user reviews the plan before anything else happens
+export function createProposePlanTool(onPlan: (plan: Plan) => void): LocalTool {
+  return {
+    definition: PROPOSE_PLAN_TOOL,
+    execute: (args) => {
+      const plan = parseProposedPlan(args);
+      onPlan(plan);
+      return { summary: `Proposed a ${plan.steps.length}-step plan`, result: { status: "awaiting_approval" }, endRun: true };
+    },
+  };
+}
+
+// update_plan_step tracks progress on the approved plan (mutates the plan in place)
+export function createPlanStepTool(plan: Plan, onUpdate: (plan: Plan) => void): LocalTool {
+  return {
+    definition: UPDATE_PLAN_STEP_TOOL,
+    execute: (args) => {
+      const step = plan.steps[Number(args.step) - 1];
+      if (!step) {
+        throw new Error(`Plan has no step ${args.step} (steps are numbered 1-${plan.steps.length})`);
+      }
+      if (!['in_progress', 'completed', 'error'].includes(args.status)) {
+        throw new Error(`Invalid step status: ${args.status}`);
+      }
+
+      step.status = args.status;
+      onUpdate(plan);
+      return { summary: `${step.title}: ${String(args.status).replace('_', ' ')}` };
+    },
+  };
+}
+
+// Validate and normalize a plan from the propose_plan tool input or the user's edits
+export function parseProposedPlan(args: Record<string, any>): Plan {
+  if (!Array.isArray(args.steps) || args.steps.length === 0) {
+    throw new Error("A plan needs at least one step");
+  }
+
+  const stringList = (value: any) => Array.isArray(value) ? value.filter(item => typeof item === 'string') : undefined;
+
+  return {
+    summary: typeof args.summary === 'string' ? args.summary : '',
+    steps: args.steps.map((step: any, index: number) => ({
+      title: typeof step?.title === 'string' && step.title.trim() ? step.title.trim() : `Step ${index + 1}`,
+      description: typeof step?.description === 'string' ? step.description : undefined,
+      files: stringList(step?.files),
+      commands: stringList(step?.commands),
+      packages: stringList(step?.packages),
+      status: 'pending',
+    })),
+    status: 'proposed',
+  };
+}
+
+// System prompt section that hands the approved plan to the executing run
+export function formatApprovedPlan(plan: Plan): string {
+  const steps = plan.steps.map((step, index) => {
+    const details = [
+      step.description,
+      step.files?.length ? `Files: ${step.files.join(', ')}` : '',
+      step.commands?.length ? `Commands: ${step.commands.join('; ')}` : '',
+      step.packages?.length ? `Packages: ${step.packages.join(', ')}` : '',
+    ].filter(Boolean).map(detail => `   ${detail}`).join('\n');
+    const done = step.status === 'completed' ? ' [already completed]' : '';
+    return `${index + 1}. ${step.title}${done}${details ? `\n${details}` : ''}`;
+  }).join('\n');
+
+  return `
+
+=== APPROVED PLAN ===
+The user approved this plan${plan.summary ? ` (${plan.summary})` : ''}. Execute it step by step, in order:
+${steps}
+
+Call update_plan_step with status in_progress before starting each step and completed (or error) when it is finished.
+Do not do work outside the plan; if a step turns out to be impossible, mark it as error and explain why.`;
+}
+
+export function planToActions(plan: Plan): AgentAction[] {
+  return plan.steps.map(step => ({ description: step.title, status: step.status || 'pending' }));
+}
@@ -0,0 +1,215 @@
+// In-memory registry of background commands in each project's sandbox. Every process keeps a
+// rolling buffer of its output so the agent (get_logs) and the Preview page's log viewer can see
+// dev-server output such as compile errors after the command was started.
+import { randomUUID } from "crypto";
+import type { SandboxProcessInfo, ProcessLogLine, ProcessLogEvent } from "@shared/schema";
+import { startBackgroundCommand, killSandboxProcess } from "./e2b";
+
+// Lines kept per process (older lines are dropped) and processes kept per project
+const MAX_LOG_LINES = 2000;
+const MAX_LINE_CHARS = 2000;
+const MAX_PROCESSES_PER_PROJECT = 20;
+
+// Lines replayed per process when a log viewer connects
+const SNAPSHOT_LINES = 500;
+
+export type ProcessListener = (event: ProcessLogEvent) => void;
+
+interface SandboxProcess {
+  info: SandboxProcessInfo;
+  projectId: string;
+  pid: number | null;
+  lines: ProcessLogLine[];
+  nextSeq: number;
+  partial: Record<'stdout' | 'stderr', string>; // Output after the last newline
+  done: Promise<void>;
+}
+
+interface ProjectProcesses {
+  processes: SandboxProcess[]; // Oldest first
+  listeners: Set<ProcessListener>;
+}
+
+const projects = new Map<string, ProjectProcesses>();
+
+function getProject(projectId: string): ProjectProcesses {
+  let entry = projects.get(projectId);
+  if (!entry) {
+    entry = { processes: [], listeners: new Set() };
+    projects.set(projectId, entry);
+  }
+  return entry;
+}
+
+function publish(projectId: string, event: ProcessLogEvent): void {
+  for (const listener of Array.from(getProject(projectId).listeners)) {
+    listener(event);
+  }
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;?]*[A-Za-z]/g, '');
+}
+
+function appendOutput(proc: SandboxProcess, stream: 'stdout' | 'stderr', data: string, flush = false): void {
+  const text = proc.partial[stream] + data;
+  const parts = text.split('\n');
+  proc.partial[stream] = flush ? '' : parts.pop() || '';
+
+  const added: ProcessLogLine[] = [];
+  for (const part of parts) {
+    // Progress bars redraw a line with \r - keep what was drawn last
+    const line = stripAnsi(part.slice(part.lastIndexOf('\r', part.length - 2) + 1).replace(/\r$/, ''));
+    if (flush && !line) continue;
+    added.push({
+      seq: proc.nextSeq++,
+      stream,
+      text: line.length > MAX_LINE_CHARS ? `${line.slice(0, MAX_LINE_CHARS)}...` : line,
+      time: new Date().toISOString(),
+    });
+  }
+  if (added.length === 0) return;
+
+  proc.lines.push(...added);
+  if (proc.lines.length > MAX_LOG_LINES) {
+    proc.lines.splice(0, proc.lines.length - MAX_LOG_LINES);
+  }
+  publish(proc.projectId, { type: 'log', processId: proc.info.id, lines: added });
+}
+
+function finishProcess(proc: SandboxProcess, exitCode: number, error?: string): void {
+  appendOutput(proc, 'stdout', '', true);
+  appendOutput(proc, 'stderr', '', true);
+
+  if (proc.info.status === 'running') {
+    proc.info.status = exitCode === 0 ? 'exited' : 'failed';
+  }
+  proc.info.exitCode = exitCode;
+  proc.info.error = error;
+  proc.info.endedAt = new Date().toISOString();
+  publish(proc.projectId, { type: 'process', process: { ...proc.info } });
+}
+
+// Drop the oldest finished processes beyond the per-project limit
+function pruneProcesses(entry: ProjectProcesses): void {
+  while (entry.processes.length > MAX_PROCESSES_PER_PROJECT) {
+    const index = entry.processes.findIndex(proc => proc.info.status !== 'running');
+    if (index === -1) return;
+    entry.processes.splice(index, 1);
+  }
+}
+
+// Start a command in the background and record its output. A still-running process with the
+// same command (e.g. the dev server when the workflow re-runs) is stopped first.
+export async function startProcess(
+  projectId: string,
+  command: string,
+  source: SandboxProcessInfo['source']
+): Promise<SandboxProcessInfo> {
+  const entry = getProject(projectId);
+  for (const existing of entry.processes) {
+    if (existing.info.command === command && existing.info.status === 'running') {
+      await stopProcess(projectId, existing.info.id);
+    }
+  }
+
+  const proc: SandboxProcess = {
+    info: {
+      id: randomUUID(),
+      command,
+      source,
+      status: 'running',
+      exitCode: null,
+      startedAt: new Date().toISOString(),
+      endedAt: null,
+    },
+    projectId,
+    pid: null,
+    lines: [],
+    nextSeq: 1,
+    partial: { stdout: '', stderr: '' },
+    done: Promise.resolve(),
+  };
+  entry.processes.push(proc);
+  pruneProcesses(entry);
+  publish(projectId, { type: 'process', process: { ...proc.info } });
+
+  try {
+    const handle = await startBackgroundCommand(projectId, command, (stream, data) => appendOutput(proc, stream, data));
+    proc.pid = handle.pid;
+    proc.done = handle.done.then(({ exitCode, error }) => finishProcess(proc, exitCode, error));
+  } catch (error: any) {
+    finishProcess(proc, -1, error.message);
+  }
+
+  return { ...proc.info };
+}
+
+function findProcess(projectId: string, processId: string): SandboxProcess | undefined {
+  return projects.get(projectId)?.processes.find(proc => proc.info.id === processId);
+}
+
+// Wait up to timeoutMs for a process to exit; returns its current state either way
+export async function waitForProcess(projectId: string, processId: string, timeoutMs: number): Promise<SandboxProcessInfo | null> {
+  const proc = findProcess(projectId, processId);
+  if (!proc) return null;
+
+  let timer: NodeJS.Timeout | undefined;
+  await Promise.race([
+    proc.done,
+    new Promise<void>(resolve => { timer = setTimeout(resolve, timeoutMs); }),
+  ]);
+  clearTimeout(timer);
+  return { ...proc.info };
+}
+
+export async function stopProcess(projectId: string, processId: string): Promise<boolean> {
+  const proc = findProcess(projectId, processId);
+  if (!proc || proc.info.status !== 'running') return false;
+
+  proc.info.status = 'killed';
+  if (proc.pid !== null) {
+    await killSandboxProcess(projectId, proc.pid).catch(error =>
+      console.error('Failed to kill sandbox process:', error)
+    );
+  }
+  return true;
+}
+
+// Newest first
+export function listProcesses(projectId: string): SandboxProcessInfo[] {
+  return (projects.get(projectId)?.processes || []).map(proc => ({ ...proc.info })).reverse();
+}
+
+export interface LogQuery {
+  tail?: number; // Last N matching lines
+  stream?: 'stdout' | 'stderr';
+  filter?: string; // Case-insensitive substring
+}
+
+export function getProcessLogs(projectId: string, processId: string, query: LogQuery = {}): ProcessLogLine[] | null {
+  const proc = findProcess(projectId, processId);
+  if (!proc) return null;
+
+  const filter = query.filter?.toLowerCase();
+  const lines = proc.lines.filter(line =>
+    (!query.stream || line.stream === query.stream) &&
+    (!filter || line.text.toLowerCase().includes(filter))
+  );
+  return query.tail ? lines.slice(-query.tail) : lines;
+}
+
+// Send a snapshot of every process with its recent output, then each change. Returns an
+// unsubscribe function.
+export function subscribeToProcesses(projectId: string, listener: ProcessListener): () => void {
+  const entry = getProject(projectId);
+  listener({
+    type: 'snapshot',
+    processes: entry.processes.map(proc => ({ ...proc.info, lines: proc.lines.slice(-SNAPSHOT_LINES) })),
+  });
+
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+}
@@ -0,0 +1,58 @@
+// LLM provider registry - resolves the provider and model configured for a project
+import type { Project } from "@shared/schema";
+import type { LLMProvider } from "./llm";
+import { bedrockProvider, openAICompatibleProvider } from "./bedrock";
+import { geminiProvider } from "./gemini";
+import { mockProvider } from "./mock";
+
+const providers = new Map<string, LLMProvider>([
+  [bedrockProvider.id, bedrockProvider],
+  [geminiProvider.id, geminiProvider],
+  [openAICompatibleProvider.id, openAICompatibleProvider],
+]);
+
+// The scripted mock replaces every other provider when a script is configured (offline testing)
+const MOCK_ENABLED = mockProvider.isConfigured();
+if (MOCK_ENABLED) {
+  providers.set(mockProvider.id, mockProvider);
+}
+
+export const DEFAULT_PROVIDER_ID = MOCK_ENABLED ? mockProvider.id : process.env.LLM_PROVIDER || bedrockProvider.id;
+
+export function listProviders(): LLMProvider[] {
+  return Array.from(providers.values());
+}
+
+export function getProvider(id?: string | null): LLMProvider {
+  const provider = providers.get(id || DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error(`Unknown LLM provider: ${id}`);
+  }
+  return provider;
+}
+
+export function isValidModel(providerId: string, modelId: string): boolean {
+  const provider = providers.get(providerId);
+  return !!provider?.models.some(model => model.id === modelId);
+}
+
+// Resolve the provider and model for a project, falling back to the defaults
+// when the project has none selected or its selection is no longer available
+export function resolveProjectModel(project?: Pick<Project, "llmProvider" | "llmModel"> | null): {
+  provider: LLMProvider;
+  model: string;
+} {
+  if (MOCK_ENABLED) {
+    return { provider: mockProvider, model: mockProvider.defaultModel };
+  }
+
+  const provider = project?.llmProvider && providers.has(project.llmProvider)
+    ? getProvider(project.llmProvider)
+    : getProvider();
+
+  const model = project?.llmModel && isValidModel(provider.id, project.llmModel)
+    ? project.llmModel
+    : provider.defaultModel;
+
+  return { provider, model };
+}
@@ -0,0 +1,60 @@
+// Saving an agent run's reply - the assistant message, the checkpoint of the files the run
+// changed and the tokens it used
+import { storage } from "../storage";
+import type { Message as StoredMessage, VerificationResult } from "@shared/schema";
+import type { LLMProvider } from "./llm";
+import type { AgentRunResult } from "./agent";
+import type { Plan } from "./plan";
+import { countMessageTokens } from "./context";
+import { recordUsage } from "./usage";
+
+export interface SaveAgentReplyOptions {
+  projectId: string;
+  threadId: string;
+  userId: string;
+  parentId: string; // The prompt the reply answers
+  provider: LLMProvider;
+  model: string;
+  result: AgentRunResult;
+  plan?: Plan | null;
+  verification?: VerificationResult | null;
+  checkpointRecorder?: { finish: (messageId: string) => Promise<void> };
+}
+
+// Save the reply as the thread's newest message. Actions are saved as completed.
+export async function saveAgentReply(options: SaveAgentReplyOptions): Promise<StoredMessage> {
+  const { projectId, threadId, userId, parentId, provider, model, result } = options;
+
+  const savedToolCalls = result.toolCalls.length > 0 ? result.toolCalls : null;
+  const completedActions = result.actions.map(action => ({ ...action, status: 'completed' as const }));
+
+  const assistantMessage = await storage.createMessage({
+    projectId,
+    threadId,
+    parentId,
+    role: "assistant",
+    content: result.content,
+    toolCalls: savedToolCalls,
+    actions: completedActions.length > 0 ? completedActions : null,
+    tokenCount: countMessageTokens({ role: "assistant", content: result.content, toolCalls: savedToolCalls, attachments: null }),
+    status: result.status,
+    plan: options.plan ?? null,
+    verification: options.verification ?? null,
+    thinking: result.thinking || null,
+    thinkingBlocks: result.thinkingBlocks.length > 0 ? { model, blocks: result.thinkingBlocks } : null,
+  });
+  await storage.updateThread(threadId, { activeMessageId: assistantMessage.id });
+  await options.checkpointRecorder?.finish(assistantMessage.id);
+
+  await recordUsage({
+    userId,
+    projectId,
+    messageId: assistantMessage.id,
+    kind: 'chat',
+    provider,
+    model,
+    usage: result.usage,
+  });
+
+  return assistantMessage;
+}
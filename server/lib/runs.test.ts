@@ -0,0 +1,41 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.APPROVAL_TIMEOUT_MS = "20";
+
+const { startRun, finishRun, requestApproval, resolveApproval, getActiveRunForProject } = await import("./runs");
+
+test("a project has one run at a time", () => {
+  const run = startRun("project-runs", "thread-1", "user-1");
+  assert.ok(run);
+  assert.equal(startRun("project-runs", "thread-2", "user-1"), null);
+
+  finishRun(run.id);
+  const next = startRun("project-runs", "thread-2", "user-1");
+  assert.ok(next);
+  finishRun(next.id);
+});
+
+test("an answered approval resolves with the answer", async () => {
+  const run = startRun("project-approval", "thread-1", "user-1")!;
+  const approval = requestApproval(run, { toolName: "delete_file", arguments: { path: "a.ts" }, reason: "delete_file requires approval" });
+  const request = run.events.find(entry => entry.event.type === "approval_request")!.event;
+
+  assert.equal(resolveApproval(run, request.approvalId, true), true);
+  assert.equal(await approval, true);
+  assert.equal(run.controller.signal.aborted, false);
+  finishRun(run.id);
+});
+
+test("an unanswered approval times out, rejects the call and stops the run", async () => {
+  const run = startRun("project-timeout", "thread-1", "user-1")!;
+  const approved = await requestApproval(run, { toolName: "delete_file", arguments: { path: "a.ts" }, reason: "delete_file requires approval" });
+
+  assert.equal(approved, false);
+  assert.equal(run.controller.signal.aborted, true);
+  assert.deepEqual(run.events.map(entry => entry.event.type), ["approval_request", "approval_resolved"]);
+  assert.equal(run.events[1].event.expired, true);
+
+  finishRun(run.id);
+  assert.equal(getActiveRunForProject("project-timeout"), null);
+});
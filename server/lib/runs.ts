@@ -0,0 +1,171 @@
+// In-memory registry of agent runs in progress. Each run buffers its events so a client
+// that reloads or reconnects can reattach and replay what it missed, and a run can be
+// cancelled by ID from a separate request than the one streaming it. Tool calls that need the
+// user's approval pause the run until the approval is answered.
+import { randomUUID } from "crypto";
+import type { AgentEvent } from "./agent";
+
+// Finished runs stay replayable briefly so a reload right at the end still sees "done"
+const FINISHED_RUN_TTL_MS = 60 * 1000;
+
+// An approval left unanswered this long is rejected and the run stopped, so a forgotten
+// approval doesn't keep the project's run slot
+const APPROVAL_TIMEOUT_MS = parseInt(process.env.APPROVAL_TIMEOUT_MS || String(10 * 60 * 1000), 10);
+
+export interface RunEvent {
+  id: number; // Sequential per run, sent as the SSE event ID
+  event: AgentEvent;
+}
+
+// Receives each new event, then null once the run has finished
+export type RunListener = (entry: RunEvent | null) => void;
+
+export interface AgentRun {
+  id: string;
+  projectId: string;
+  threadId: string;
+  userId: string;
+  controller: AbortController;
+  startedAt: Date;
+  events: RunEvent[];
+  listeners: Set<RunListener>;
+  pendingApprovals: Map<string, (approved: boolean) => void>;
+  finished: boolean;
+}
+
+export interface ApprovalRequest {
+  toolName: string;
+  arguments: Record<string, any>;
+  reason: string; // Why the policy asks, e.g. 'Command matches "rm -rf"'
+}
+
+const activeRuns = new Map<string, AgentRun>();
+
+// Claim the project's run slot; returns null while another run is in progress. The check and
+// the registration happen without awaiting in between, so concurrent requests can't both start.
+export function startRun(projectId: string, threadId: string, userId: string): AgentRun | null {
+  if (getActiveRunForProject(projectId)) {
+    return null;
+  }
+
+  const run: AgentRun = {
+    id: randomUUID(),
+    projectId,
+    threadId,
+    userId,
+    controller: new AbortController(),
+    startedAt: new Date(),
+    events: [],
+    listeners: new Set(),
+    pendingApprovals: new Map(),
+    finished: false,
+  };
+
+  activeRuns.set(run.id, run);
+  return run;
+}
+
+export function getRun(runId: string): AgentRun | null {
+  return activeRuns.get(runId) || null;
+}
+
+export function getActiveRunForProject(projectId: string): AgentRun | null {
+  for (const run of Array.from(activeRuns.values())) {
+    if (run.projectId === projectId && !run.finished) {
+      return run;
+    }
+  }
+  return null;
+}
+
+// Buffer an event and deliver it to every attached client
+export function publishRunEvent(run: AgentRun, event: AgentEvent): void {
+  const entry: RunEvent = { id: run.events.length + 1, event };
+  run.events.push(entry);
+
+  for (const listener of Array.from(run.listeners)) {
+    listener(entry);
+  }
+}
+
+// Replay buffered events after the given event ID, then follow new ones.
+// Returns an unsubscribe function.
+export function subscribeToRun(run: AgentRun, afterEventId: number, listener: RunListener): () => void {
+  for (const entry of run.events.slice(Math.max(0, afterEventId))) {
+    listener(entry);
+  }
+
+  if (run.finished) {
+    listener(null);
+    return () => {};
+  }
+
+  run.listeners.add(listener);
+  return () => {
+    run.listeners.delete(listener);
+  };
+}
+
+// Abort the model stream and stop the agent loop; returns false if the run already finished
+export function cancelRun(runId: string): boolean {
+  const run = activeRuns.get(runId);
+  if (!run || run.finished) {
+    return false;
+  }
+
+  run.controller.abort();
+  return true;
+}
+
+// Ask the user to approve a tool call: sends an approval_request event and waits for
+// resolveApproval. Cancelling the run rejects it; so does the timeout, which also stops the run.
+export function requestApproval(run: AgentRun, request: ApprovalRequest): Promise<boolean> {
+  const signal = run.controller.signal;
+  if (signal.aborted) {
+    return Promise.resolve(false);
+  }
+
+  const approvalId = randomUUID();
+  return new Promise(resolve => {
+    const settle = (approved: boolean, expired = false) => {
+      if (!run.pendingApprovals.delete(approvalId)) return;
+      clearTimeout(timeout);
+      signal.removeEventListener('abort', onAbort);
+      publishRunEvent(run, { type: 'approval_resolved', approvalId, approved, ...(expired && { expired }) });
+      resolve(approved);
+    };
+    const onAbort = () => settle(false);
+    const timeout = setTimeout(() => {
+      settle(false, true);
+      run.controller.abort();
+    }, APPROVAL_TIMEOUT_MS);
+
+    run.pendingApprovals.set(approvalId, settle);
+    signal.addEventListener('abort', onAbort);
+    publishRunEvent(run, { type: 'approval_request', approvalId, ...request });
+  });
+}
+
+// Returns false if the approval is unknown or was already answered
+export function resolveApproval(run: AgentRun, approvalId: string, approved: boolean): boolean {
+  const settle = run.pendingApprovals.get(approvalId);
+  if (!settle) {
+    return false;
+  }
+
+  settle(approved);
+  return true;
+}
+
+export function finishRun(runId: string): void {
+  const run = activeRuns.get(runId);
+  if (!run) return;
+
+  run.finished = true;
+  for (const listener of Array.from(run.listeners)) {
+    listener(null);
+  }
+  run.listeners.clear();
+
+  setTimeout(() => activeRuns.delete(runId), FINISHED_RUN_TTL_MS).unref();
+}
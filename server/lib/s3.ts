@@ -36,7 +36,18 @@ export async function uploadFileToS3(
   return s3Key;
 }
 
+// Public URL of an object (attachments and screenshots are read by URL)
+export function getS3PublicUrl(s3Key: string): string {
+  const region = process.env.AWS_REGION || 'us-east-1';
+  return `https://${BUCKET_NAME}.s3.${region}.amazonaws.com/${s3Key}`;
+}
+
 export async function getFileFromS3(s3Key: string): Promise<string> {
+  return (await getFileBufferFromS3(s3Key)).toString('utf-8');
+}
+
+// The object's raw bytes, for files that may not be text
+export async function getFileBufferFromS3(s3Key: string): Promise<Buffer> {
   const command = new GetObjectCommand({
     Bucket: BUCKET_NAME,
     Key: s3Key,
@@ -48,7 +59,7 @@ export async function getFileFromS3(s3Key: string): Promise<string> {
   return new Promise((resolve, reject) => {
     const chunks: Buffer[] = [];
     stream.on('data', (chunk) => chunks.push(chunk));
-    stream.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    stream.on('end', () => resolve(Buffer.concat(chunks)));
     stream.on('error', reject);
   });
 }
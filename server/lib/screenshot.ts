@@ -0,0 +1,116 @@
+// Preview screenshots - load the app running in the project's sandbox in headless Chromium
+// (Playwright, installed into the sandbox on first use), upload the PNG to S3 and keep it as
+// the project thumbnail
+import { storage } from "../storage";
+import { uploadFileToS3, getS3PublicUrl } from "./s3";
+import { runSandboxCommand, readBinaryFileFromSandbox } from "./e2b";
+
+const PLAYWRIGHT_VERSION = "1.49.1";
+// Written once Chromium and its system libraries are installed in a sandbox
+const INSTALLED_MARKER = `/home/user/.cache/ms-playwright/.installed-${PLAYWRIGHT_VERSION}`;
+const SCREENSHOT_FILE = "/tmp/preview-screenshot.png";
+
+const INSTALL_TIMEOUT_MS = 300_000;
+const CAPTURE_TIMEOUT_MS = 60_000;
+
+export const DEFAULT_VIEWPORT = { width: 1280, height: 800 };
+const MIN_VIEWPORT = { width: 320, height: 240 };
+const MAX_VIEWPORT = { width: 1920, height: 1600 };
+
+// Vision inputs over this size are rejected by the model APIs
+const MAX_SCREENSHOT_BYTES = 5 * 1024 * 1024;
+
+export interface ScreenshotOptions {
+  path?: string;
+  port?: number;
+  width?: number;
+  height?: number;
+  fullPage?: boolean;
+}
+
+export interface PreviewScreenshot {
+  url: string; // Public S3 URL of the PNG
+  pageUrl: string; // Page that was loaded inside the sandbox
+  width: number;
+  height: number;
+  fullPage: boolean;
+  bytes: number;
+}
+
+function clamp(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return fallback;
+  return Math.min(max, Math.max(min, Math.round(number)));
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+async function ensurePlaywright(projectId: string): Promise<void> {
+  const check = await runSandboxCommand(projectId, `test -f ${INSTALLED_MARKER}`, 10_000);
+  if (check.exitCode === 0) return;
+
+  const install = await runSandboxCommand(
+    projectId,
+    `npx -y playwright@${PLAYWRIGHT_VERSION} install --with-deps chromium && touch ${INSTALLED_MARKER}`,
+    INSTALL_TIMEOUT_MS
+  );
+  if (install.exitCode !== 0) {
+    throw new Error(`Failed to install the headless browser: ${(install.stderr || install.stdout).slice(-1000)}`);
+  }
+}
+
+// Screenshot the page served on a sandbox port and save it as the project thumbnail
+export async function capturePreviewScreenshot(projectId: string, options: ScreenshotOptions = {}): Promise<PreviewScreenshot> {
+  const port = clamp(options.port, 1, 65535, 3000);
+  const width = clamp(options.width, MIN_VIEWPORT.width, MAX_VIEWPORT.width, DEFAULT_VIEWPORT.width);
+  const height = clamp(options.height, MIN_VIEWPORT.height, MAX_VIEWPORT.height, DEFAULT_VIEWPORT.height);
+  const fullPage = options.fullPage === true;
+
+  const path = options.path || '/';
+  if (!path.startsWith('/')) {
+    throw new Error(`path must start with "/" (got "${path}")`);
+  }
+  const pageUrl = new URL(path, `http://localhost:${port}`).toString();
+
+  // Fail fast with a useful message when the app isn't running
+  const probe = await runSandboxCommand(
+    projectId,
+    `curl -s -o /dev/null -w '%{http_code}' --max-time 10 ${shellQuote(pageUrl)}`,
+    20_000
+  );
+  if (probe.stdout.trim() === '000' || !probe.stdout.trim()) {
+    throw new Error(`Nothing is serving ${pageUrl}. Start the app first (e.g. run_shell "npm run dev") and check the port.`);
+  }
+
+  await ensurePlaywright(projectId);
+
+  const capture = await runSandboxCommand(
+    projectId,
+    [
+      `npx -y playwright@${PLAYWRIGHT_VERSION} screenshot`,
+      `--browser chromium`,
+      `--viewport-size ${shellQuote(`${width}, ${height}`)}`,
+      `--wait-for-timeout 1500`,
+      fullPage ? `--full-page` : '',
+      shellQuote(pageUrl),
+      SCREENSHOT_FILE,
+    ].filter(Boolean).join(' '),
+    CAPTURE_TIMEOUT_MS
+  );
+  if (capture.exitCode !== 0) {
+    throw new Error(`Screenshot failed: ${(capture.stderr || capture.stdout).slice(-1000)}`);
+  }
+
+  const image = await readBinaryFileFromSandbox(projectId, SCREENSHOT_FILE);
+  if (image.length > MAX_SCREENSHOT_BYTES) {
+    throw new Error(`The screenshot is too large (${Math.round(image.length / 1024)} KB). Take it without full_page or with a smaller viewport.`);
+  }
+
+  const s3Key = await uploadFileToS3(projectId, `screenshots/${Date.now()}.png`, image);
+  const url = getS3PublicUrl(s3Key);
+  await storage.updateProject(projectId, { thumbnailUrl: url });
+
+  return { url, pageUrl, width, height, fullPage, bytes: image.length };
+}
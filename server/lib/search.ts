@@ -0,0 +1,174 @@
+// Project-wide content search - literal or regex matches across the project's files in S3,
+// filtered by path globs. Used by the search_files tool and the Files page.
+import { RE2JS } from "re2js";
+import { storage } from "../storage";
+import { getFileFromS3 } from "./s3";
+import { isBinaryFile } from "./mentions";
+
+export interface SearchOptions {
+  query: string;
+  regex?: boolean;
+  caseSensitive?: boolean;
+  include?: string; // Comma-separated globs, e.g. "src/**/*.tsx,*.css"
+  exclude?: string;
+  maxResults?: number;
+}
+
+export interface SearchMatch {
+  fileId: string;
+  path: string;
+  line: number; // 1-based
+  column: number; // 1-based
+  text: string; // The matching line, cut to MAX_LINE_TEXT_CHARS
+}
+
+export interface SearchResults {
+  matches: SearchMatch[];
+  filesSearched: number;
+  filesMatched: number;
+  truncated: boolean; // More matches than maxResults
+}
+
+export const DEFAULT_MAX_RESULTS = 100;
+const MAX_RESULTS_LIMIT = 500;
+
+// Files above this size are skipped (bundles, lockfiles, generated data)
+const MAX_SEARCHED_FILE_BYTES = 1024 * 1024;
+
+// Longer lines are not matched (minified code) and shown lines are cut
+const MAX_SEARCHED_LINE_CHARS = 10000;
+const MAX_LINE_TEXT_CHARS = 240;
+
+// Files read from S3 at once
+const READ_CONCURRENCY = 8;
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Glob to RegExp: ** spans folders, * and ? stay within one, {a,b} picks an alternative.
+// Globs without a slash match the file name in any folder.
+export function globToRegExp(rawGlob: string): RegExp {
+  const glob = rawGlob.replace(/^\.?\//, '');
+  let pattern = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // "**/" also matches no folders at all
+      pattern += glob[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += glob[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      pattern += '[^/]*';
+    } else if (char === '?') {
+      pattern += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        pattern += '\\{';
+        continue;
+      }
+      pattern += `(?:${glob.slice(i + 1, end).split(',').map(escapeRegExp).join('|')})`;
+      i = end;
+    } else {
+      pattern += escapeRegExp(char);
+    }
+  }
+
+  return glob.includes('/') ? new RegExp(`^${pattern}$`) : new RegExp(`(^|/)${pattern}$`);
+}
+
+function parseGlobs(globs?: string): RegExp[] {
+  return (globs || '').split(',').map(glob => glob.trim()).filter(Boolean).map(globToRegExp);
+}
+
+// Returns the index of the first match in a line, or -1
+export type LineMatcher = (line: string) => number;
+
+// Regex queries run on RE2, whose matching time is linear in the line length, so a pattern
+// like (a+)+$ can't stall the server. RE2 has no lookarounds or backreferences.
+export function buildMatcher(options: Pick<SearchOptions, 'query' | 'regex' | 'caseSensitive'>): LineMatcher {
+  if (!options.regex) {
+    const literal = new RegExp(escapeRegExp(options.query), options.caseSensitive ? '' : 'i');
+    return line => line.search(literal);
+  }
+  let pattern: RE2JS;
+  try {
+    pattern = RE2JS.compile(options.query, options.caseSensitive ? 0 : RE2JS.CASE_INSENSITIVE);
+  } catch (error: any) {
+    throw new Error(`Invalid regular expression: ${error.message}`);
+  }
+  return line => {
+    const matcher = pattern.matcher(line);
+    return matcher.find() ? matcher.start() : -1;
+  };
+}
+
+function cutLine(line: string, column: number): string {
+  const text = line.trimEnd();
+  if (text.length <= MAX_LINE_TEXT_CHARS) return text;
+  // Keep the match in view on long lines
+  const start = Math.max(0, Math.min(column - 1 - 40, text.length - MAX_LINE_TEXT_CHARS));
+  return `${start > 0 ? '…' : ''}${text.slice(start, start + MAX_LINE_TEXT_CHARS)}…`;
+}
+
+// Search the contents of every text file in the project, in path order
+export async function searchProjectFiles(projectId: string, options: SearchOptions): Promise<SearchResults> {
+  if (typeof options.query !== 'string' || options.query === '') {
+    throw new Error('A search query is required');
+  }
+
+  const matcher = buildMatcher(options);
+  const includes = parseGlobs(options.include);
+  const excludes = parseGlobs(options.exclude);
+  const maxResults = Math.min(Math.max(Number(options.maxResults) || DEFAULT_MAX_RESULTS, 1), MAX_RESULTS_LIMIT);
+
+  const files = (await storage.getFilesByProjectId(projectId))
+    .filter(file => !isBinaryFile(file.mimeType) && (file.size ?? 0) <= MAX_SEARCHED_FILE_BYTES)
+    .filter(file => includes.length === 0 || includes.some(glob => glob.test(file.path)))
+    .filter(file => !excludes.some(glob => glob.test(file.path)))
+    .sort((a, b) => a.path.localeCompare(b.path));
+
+  const matches: SearchMatch[] = [];
+  let filesMatched = 0;
+  let truncated = false;
+
+  for (let i = 0; i < files.length && !truncated; i += READ_CONCURRENCY) {
+    const batch = files.slice(i, i + READ_CONCURRENCY);
+    const contents = await Promise.all(batch.map(file => getFileFromS3(file.s3Key).catch(error => {
+      console.error(`Search failed to read ${file.path}:`, error);
+      return null;
+    })));
+
+    batch.forEach((file, index) => {
+      const content = contents[index];
+      if (truncated || content === null || content.includes('\0')) return;
+
+      let fileMatched = false;
+      const lines = content.split('\n');
+      for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        const line = lines[lineIndex];
+        if (line.length > MAX_SEARCHED_LINE_CHARS) continue;
+
+        // One result per line, at the first match
+        const index = matcher(line);
+        if (index === -1) continue;
+
+        if (matches.length >= maxResults) {
+          truncated = true;
+          break;
+        }
+        fileMatched = true;
+        matches.push({
+          fileId: file.id,
+          path: file.path,
+          line: lineIndex + 1,
+          column: index + 1,
+          text: cutLine(line, index + 1),
+        });
+      }
+      if (fileMatched) filesMatched++;
+    });
+  }
+
+  return { matches, filesSearched: files.length, filesMatched, truncated };
+}
@@ -1,5 +1,7 @@
 // Serper web search integration
-export async function webSearch(query: string): Promise<string> {
+import type { SearchResult } from "./web";
+
+export async function webSearch(query: string, limit: number = 5): Promise<SearchResult[]> {
   const apiKey = process.env.SERPER_API_KEY;
   if (!apiKey) {
     throw new Error("SERPER_API_KEY is not set");
@@ -19,13 +21,11 @@ export async function webSearch(query: string): Promise<string> {
   }
 
   const data = await response.json();
-  
+
   // Format search results
-  const results = data.organic?.slice(0, 5).map((result: any) => ({
+  return data.organic?.slice(0, limit).map((result: any) => ({
     title: result.title,
     link: result.link,
     snippet: result.snippet,
   })) || [];
-
-  return JSON.stringify(results, null, 2);
 }
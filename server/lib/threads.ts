@@ -0,0 +1,39 @@
+// Chat threads - separate conversations over the same project files. A project gets its first
+// thread when it is created; older projects get one (with the messages saved before threads
+// existed) the first time their threads are listed. Archiving every thread leaves none open.
+import { storage } from "../storage";
+import type { Thread } from "@shared/schema";
+
+export const DEFAULT_THREAD_TITLE = "New chat";
+
+// Title of the thread that collects a project's messages from before threads existed
+const LEGACY_THREAD_TITLE = "Main";
+
+const MAX_THREAD_TITLE_LENGTH = 60;
+
+// Most recently active first, including archived threads
+export async function getProjectThreads(projectId: string): Promise<Thread[]> {
+  const threads = await storage.getThreadsByProjectId(projectId);
+  if (threads.length > 0) {
+    return threads;
+  }
+
+  await storage.createFirstThread(projectId, LEGACY_THREAD_TITLE);
+  return await storage.getThreadsByProjectId(projectId);
+}
+
+export function normalizeThreadTitle(title: unknown): string {
+  if (typeof title !== 'string' || !title.trim()) {
+    throw new Error("Thread title is required");
+  }
+  return title.trim().slice(0, MAX_THREAD_TITLE_LENGTH);
+}
+
+// Untitled threads are named after their first prompt
+export function titleFromPrompt(content: string): string {
+  const firstLine = content.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!firstLine) return DEFAULT_THREAD_TITLE;
+  return firstLine.length > MAX_THREAD_TITLE_LENGTH
+    ? `${firstLine.slice(0, MAX_THREAD_TITLE_LENGTH - 3)}...`
+    : firstLine;
+}
@@ -0,0 +1,156 @@
+// Per-project tool approval policy - each agent tool call is allowed, paused until the user
+// approves it, or blocked, based on the tool and (for shell commands) the command itself.
+import type { Project, ToolPolicy, ToolPolicyAction, CommandRule } from "@shared/schema";
+import type { ToolCall } from "./llm";
+import { requestApproval, type AgentRun } from "./runs";
+import { getPatchRemovedPaths } from "./patch";
+
+const POLICY_ACTIONS: ToolPolicyAction[] = ['allow', 'ask', 'deny'];
+
+// Tools that run one of their arguments in the sandbox, which is checked against command rules.
+// Shell commands started from run_code (os.system, child_process) are caught by their text.
+const COMMAND_ARGUMENTS = new Map([
+  ['run_shell', 'command'],
+  ['configure_workflow', 'command'],
+  ['run_code', 'code'],
+]);
+
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  tools: {
+    delete_file: 'ask',
+  },
+  commands: [
+    { pattern: 'rm -rf', action: 'ask' },
+    { pattern: 'git push', action: 'ask' },
+    { pattern: 'npm publish', action: 'deny' },
+  ],
+};
+
+export interface ToolPolicyDecision {
+  action: ToolPolicyAction;
+  reason: string;
+}
+
+function isPolicyAction(action: unknown): action is ToolPolicyAction {
+  return POLICY_ACTIONS.includes(action as ToolPolicyAction);
+}
+
+// The stored policy isn't validated by every write path, so missing fields take the defaults
+// and malformed rules are dropped
+export function getToolPolicy(project: Project | undefined): ToolPolicy {
+  const stored = project?.toolPolicy as Partial<ToolPolicy> | null | undefined;
+  if (!stored || typeof stored !== 'object') return DEFAULT_TOOL_POLICY;
+
+  const tools = stored.tools && typeof stored.tools === 'object'
+    ? Object.fromEntries(Object.entries(stored.tools).filter(([, action]) => isPolicyAction(action)))
+    : DEFAULT_TOOL_POLICY.tools;
+  const commands = Array.isArray(stored.commands)
+    ? stored.commands.filter(rule => typeof rule?.pattern === 'string' && rule.pattern.trim() && isPolicyAction(rule.action))
+    : DEFAULT_TOOL_POLICY.commands;
+  return { tools, commands };
+}
+
+// Validate a policy from the settings API
+export function parseToolPolicy(input: any): ToolPolicy {
+  if (!input || typeof input !== 'object') {
+    throw new Error("Invalid tool policy");
+  }
+
+  const tools: Record<string, ToolPolicyAction> = {};
+  for (const [name, action] of Object.entries(input.tools || {})) {
+    if (!POLICY_ACTIONS.includes(action as ToolPolicyAction)) {
+      throw new Error(`Invalid action for ${name}: ${action}`);
+    }
+    tools[name] = action as ToolPolicyAction;
+  }
+
+  if (!Array.isArray(input.commands || [])) {
+    throw new Error("Command rules must be a list");
+  }
+  const commands: CommandRule[] = (input.commands || []).map((rule: any) => {
+    if (typeof rule?.pattern !== 'string' || !rule.pattern.trim()) {
+      throw new Error("Command rules need a pattern");
+    }
+    if (!POLICY_ACTIONS.includes(rule.action)) {
+      throw new Error(`Invalid action for "${rule.pattern}": ${rule.action}`);
+    }
+    return { pattern: rule.pattern.trim(), action: rule.action };
+  });
+
+  return { tools, commands };
+}
+
+// The strictest matching rule wins: deny over ask over allow
+export function evaluateToolCall(policy: ToolPolicy, toolName: string, args: Record<string, any>): ToolPolicyDecision {
+  let decision: ToolPolicyDecision = { action: policy.tools[toolName] || 'allow', reason: `${toolName} requires approval` };
+  if (decision.action === 'deny') {
+    decision.reason = `${toolName} is disabled for this project`;
+  }
+
+  // A patch that deletes or renames files removes them, so the delete_file rule applies too
+  if (toolName === 'apply_patch' && typeof args.patch === 'string') {
+    const removed = getPatchRemovedPaths(args.patch);
+    const deleteAction = policy.tools.delete_file || 'allow';
+    if (removed.length > 0 && POLICY_ACTIONS.indexOf(deleteAction) > POLICY_ACTIONS.indexOf(decision.action)) {
+      decision = {
+        action: deleteAction,
+        reason: deleteAction === 'deny'
+          ? `delete_file is disabled for this project and the patch removes ${removed.join(', ')}`
+          : `The patch deletes or renames ${removed.join(', ')}`,
+      };
+    }
+  }
+
+  const commandArgument = COMMAND_ARGUMENTS.get(toolName);
+  const command = commandArgument ? args[commandArgument] : undefined;
+  if (typeof command === 'string') {
+    for (const rule of policy.commands) {
+      if (POLICY_ACTIONS.indexOf(rule.action) > POLICY_ACTIONS.indexOf(decision.action) && matchesCommand(rule.pattern, command)) {
+        decision = {
+          action: rule.action,
+          reason: rule.action === 'deny' ? `Commands matching "${rule.pattern}" are blocked` : `Command matches "${rule.pattern}"`,
+        };
+      }
+    }
+  }
+
+  return decision;
+}
+
+// Patterns match at the start of any command in a chain ("cd app && git push" matches "git push")
+// or in a quoted string (bash -c "git push", os.system('git push')). "*" is a wildcard; matching
+// ignores case and extra whitespace.
+export function matchesCommand(pattern: string, command: string): boolean {
+  const source = pattern
+    .trim()
+    .split(/\s+/)
+    .map(part => part.split('*').map(text => text.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*'))
+    .join('\\s+');
+
+  return new RegExp(`(^|[\\s;&|('"\`])${source}`, 'i').test(command);
+}
+
+// Check each tool call against the policy; "ask" pauses the run until the user responds.
+// Returns an error for the model when the call is blocked or rejected.
+export function createToolAuthorizer(policy: ToolPolicy, run: AgentRun) {
+  return async (call: ToolCall): Promise<string | null> => {
+    const decision = evaluateToolCall(policy, call.name, call.arguments);
+
+    if (decision.action === 'deny') {
+      return `Blocked by the project's tool policy: ${decision.reason}. Do not retry; find another approach or tell the user.`;
+    }
+
+    if (decision.action === 'ask') {
+      const approved = await requestApproval(run, {
+        toolName: call.name,
+        arguments: call.arguments,
+        reason: decision.reason,
+      });
+      if (!approved) {
+        return "The user rejected this tool call. Do not retry it; ask the user how to proceed.";
+      }
+    }
+
+    return null;
+  };
+}
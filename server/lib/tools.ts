@@ -0,0 +1,655 @@
+import { storage } from "../storage";
+import { uploadFileToS3, getFileFromS3, deleteFileFromS3 } from "./s3";
+import {
+  executeCode,
+  writeFileToSandbox,
+  deleteFileFromSandbox,
+} from "./e2b";
+import { searchWeb, fetchUrlContent } from "./web";
+import { updateProjectInstructions } from "./instructions";
+import { parseEdits, applyEdits } from "./fileEdits";
+import { createFileDiff, truncateDiff } from "./diff";
+import { applyPatchToProject, getPatchPaths } from "./patch";
+import { searchProjectFiles } from "./search";
+import { capturePreviewScreenshot, DEFAULT_VIEWPORT } from "./screenshot";
+import { startProcess, waitForProcess, getProcessLogs, listProcesses } from "./processes";
+import type { ToolDefinition } from "./llm";
+
+export interface ToolExecution {
+  summary: string;
+  result?: any;
+}
+
+const VITE_CONFIG_PATTERN = /vite\.config\.(js|ts|mjs|cjs)$/i;
+
+// Diff returned with an edit (tool results are capped at 20k characters in total)
+const MAX_TOOL_DIFF_CHARS = 8000;
+
+// How long run_shell waits for a server to print startup output, and for other commands to finish
+const SERVER_STARTUP_WAIT_MS = 5000;
+const COMMAND_WAIT_MS = 10000;
+
+// Log lines returned by get_logs
+const DEFAULT_LOG_LINES = 100;
+const MAX_LOG_LINES = 500;
+
+// Tools exposed to the model, declared with JSON schemas for native tool use
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: "create_boilerplate",
+    description: "Create a complete boilerplate project structure (React+Vite with a pre-configured vite.config.ts). Use this when starting a NEW project or when the user wants a fresh start.",
+    input_schema: {
+      type: "object",
+      properties: {
+        type: { type: "string", enum: ["react-vite", "node-express"], description: "Boilerplate to create" },
+      },
+      required: ["type"],
+    },
+  },
+  {
+    name: "write_file",
+    description: "Create or overwrite a file in the project's S3 storage and E2B sandbox.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to the project root, e.g. src/App.tsx" },
+        content: { type: "string", description: "The complete file content" },
+      },
+      required: ["path", "content"],
+    },
+  },
+  {
+    name: "edit_file",
+    description: "Edit part of an existing file. Replace old_str with new_str, where old_str must match exactly one place in the file (include surrounding lines to make it unique, or set replace_all). Or replace lines start_line to end_line with new_str. Pass an edits array to make several edits in one call; they apply in order and nothing is saved if any fails. Returns a diff of the change.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to the project root (exact case)" },
+        old_str: { type: "string", description: "Exact text to replace, including whitespace and indentation" },
+        new_str: { type: "string", description: "Replacement text (\"\" to delete)" },
+        replace_all: { type: "boolean", description: "Replace every occurrence of old_str instead of requiring a single match" },
+        start_line: { type: "number", description: "First line to replace (1-based), instead of old_str" },
+        end_line: { type: "number", description: "Last line to replace (inclusive, defaults to start_line)" },
+        edits: {
+          type: "array",
+          description: "Several edits to apply in order, each with old_str/new_str/replace_all or start_line/end_line/new_str",
+          items: {
+            type: "object",
+            properties: {
+              old_str: { type: "string" },
+              new_str: { type: "string" },
+              replace_all: { type: "boolean" },
+              start_line: { type: "number" },
+              end_line: { type: "number" },
+            },
+            required: ["new_str"],
+          },
+        },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "apply_patch",
+    description: "Apply a unified diff (as produced by diff -u or git diff) that can change, create, rename and delete several files at once. Use it for multi-file changes instead of rewriting whole files. Each file needs ---/+++ headers (/dev/null to create or delete) and @@ hunks with a few lines of unchanged context; the line counts in each @@ header must match the hunk. The patch applies completely or not at all; if a hunk doesn't match, the error shows the file's actual lines.",
+    input_schema: {
+      type: "object",
+      properties: {
+        patch: { type: "string", description: "The unified diff text" },
+      },
+      required: ["patch"],
+    },
+  },
+  {
+    name: "delete_file",
+    description: "Permanently delete a file from S3 storage, the E2B sandbox and the database.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to the project root" },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "list_files",
+    description: "List all files in the current project with their sizes.",
+    input_schema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "read_file",
+    description: "Read the content of a project file.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "File path relative to the project root" },
+      },
+      required: ["path"],
+    },
+  },
+  {
+    name: "search_files",
+    description: "Search the contents of all project files for text or a regular expression, like grep. Returns matching lines with paths and line numbers. Use it to find where something is defined or used before editing.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "Text to search for (or an RE2 regular expression with regex - no lookarounds or backreferences)" },
+        regex: { type: "boolean", description: "Treat query as a regular expression" },
+        case_sensitive: { type: "boolean", description: "Match case (default false)" },
+        include: { type: "string", description: "Only search paths matching these comma-separated globs, e.g. src/**/*.tsx,*.css" },
+        exclude: { type: "string", description: "Skip paths matching these comma-separated globs" },
+        max_results: { type: "number", description: "Most matching lines to return (default 100)" },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "web_search",
+    description: "Search the web for documentation, library usage, error messages or other current information. Returns titles, links and snippets; use fetch_url to read a result.",
+    input_schema: {
+      type: "object",
+      properties: {
+        query: { type: "string", description: "The search query" },
+        limit: { type: "number", description: "Number of results (1-10, default 5)" },
+      },
+      required: ["query"],
+    },
+  },
+  {
+    name: "fetch_url",
+    description: "Download a web page (http/https) and return its readable text, e.g. documentation found with web_search.",
+    input_schema: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "The full URL to fetch" },
+      },
+      required: ["url"],
+    },
+  },
+  {
+    name: "update_instructions",
+    description: "Update the project's instructions - the persistent notes (stack conventions, folders not to touch, preferred libraries, user preferences) added to your system prompt on every run. Use it when the user states a lasting preference or asks you to remember something.",
+    input_schema: {
+      type: "object",
+      properties: {
+        content: { type: "string", description: "The new instructions (markdown), or the section to add with append" },
+        append: { type: "boolean", description: "Add content to the end of the existing instructions instead of replacing them" },
+      },
+      required: ["content"],
+    },
+  },
+  {
+    name: "run_shell",
+    description: "Execute a shell command in the E2B sandbox. Server commands (npm run dev, node server.js, python app.py) are started in the background.",
+    input_schema: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "The shell command to run" },
+      },
+      required: ["command"],
+    },
+  },
+  {
+    name: "screenshot_preview",
+    description: "Take a screenshot of the running app in a headless browser inside the sandbox and look at it. Use it after UI changes to check the layout and styling instead of assuming they look right. The app must already be running (start it with run_shell). The latest screenshot also becomes the project thumbnail.",
+    input_schema: {
+      type: "object",
+      properties: {
+        path: { type: "string", description: "Page path to load, e.g. /settings (default /)" },
+        port: { type: "number", description: "Port the app listens on in the sandbox (default 3000)" },
+        width: { type: "number", description: `Viewport width in pixels (default ${DEFAULT_VIEWPORT.width}; use 390 to check mobile layouts)` },
+        height: { type: "number", description: `Viewport height in pixels (default ${DEFAULT_VIEWPORT.height})` },
+        full_page: { type: "boolean", description: "Capture the whole scrollable page instead of just the viewport" },
+      },
+    },
+  },
+  {
+    name: "get_logs",
+    description: "Read the output of a background command started with run_shell or the workflow (e.g. the dev server), including compile and runtime errors printed after it started. Without process_id, reads the most recent running process.",
+    input_schema: {
+      type: "object",
+      properties: {
+        process_id: { type: "string", description: "processId returned by run_shell (default: the latest running process)" },
+        tail: { type: "number", description: `Number of most recent lines to return (default ${DEFAULT_LOG_LINES}, max ${MAX_LOG_LINES})` },
+        stream: { type: "string", enum: ["stdout", "stderr", "all"], description: "Only return one output stream (default all)" },
+        filter: { type: "string", description: "Only return lines containing this text (case-insensitive), e.g. error" },
+      },
+    },
+  },
+  {
+    name: "run_code",
+    description: "Execute a code snippet in the E2B code interpreter.",
+    input_schema: {
+      type: "object",
+      properties: {
+        language: { type: "string", enum: ["python", "javascript"] },
+        code: { type: "string", description: "The code to execute" },
+      },
+      required: ["language", "code"],
+    },
+  },
+  {
+    name: "configure_workflow",
+    description: "Save the command that starts this project. It runs automatically when the sandbox is recreated and from the manual run button. Always use 'npm install;npm run dev' for Node projects.",
+    input_schema: {
+      type: "object",
+      properties: {
+        command: { type: "string", description: "The workflow command, e.g. npm install;npm run dev" },
+      },
+      required: ["command"],
+    },
+  },
+];
+
+// Generate a human-readable summary for tool calls
+export function getToolCallSummary(toolName: string, args: Record<string, any>): string {
+  switch (toolName) {
+    case "create_boilerplate":
+      return `Created ${args.type} boilerplate`;
+    case "write_file":
+      return `Created ${args.path}`;
+    case "edit_file":
+      return `Edited ${args.path}`;
+    case "apply_patch":
+      return `Applied patch`;
+    case "delete_file":
+      return `Deleted ${args.path}`;
+    case "list_files":
+      return `Listed all files`;
+    case "read_file":
+      return `Read ${args.path}`;
+    case "search_files":
+      return `Searched files: ${args.query}`;
+    case "run_shell":
+      return `Ran shell command: ${args.command}`;
+    case "get_logs":
+      return `Read process logs`;
+    case "web_search":
+      return `Searched: ${args.query}`;
+    case "fetch_url":
+      return `Fetched ${args.url}`;
+    case "update_instructions":
+      return `Updated project instructions`;
+    case "run_code":
+      return `Executed ${args.language} code`;
+    case "screenshot_preview":
+      return `Took a screenshot of ${args.path || '/'}`;
+    case "propose_plan":
+      return `Proposing a plan`;
+    case "update_plan_step":
+      return `Plan step ${args.step}: ${String(args.status).replace('_', ' ')}`;
+    default:
+      return toolName;
+  }
+}
+
+// Execute a single agent tool call against the project's S3 storage, database and E2B sandbox
+export async function executeToolCall(
+  projectId: string,
+  toolName: string,
+  args: Record<string, any>
+): Promise<ToolExecution> {
+  switch (toolName) {
+    case "create_boilerplate": {
+      const { type } = args;
+
+      if (!['react-vite', 'node-express'].includes(type)) {
+        throw new Error(`Invalid boilerplate type: ${type}`);
+      }
+
+      const { createBoilerplateProject } = await import('./boilerplate');
+      await createBoilerplateProject(projectId, type as 'react-vite' | 'node-express');
+
+      return { summary: `Created ${type} boilerplate` };
+    }
+
+    case "write_file": {
+      const { path, content } = args;
+
+      // Block AI from creating vite.config files
+      if (path.match(VITE_CONFIG_PATTERN)) {
+        return { summary: `Skipped ${path} (pre-configured in boilerplate)` };
+      }
+
+      // Upload to S3
+      const s3Key = await uploadFileToS3(projectId, path, content);
+
+      // Write to E2B sandbox
+      await writeFileToSandbox(projectId, path, content);
+
+      // Save to database
+      const existingFile = await storage.getFileByPath(projectId, path);
+      if (existingFile) {
+        await storage.updateFile(existingFile.id, {
+          s3Key,
+          size: Buffer.byteLength(content, 'utf-8'),
+        });
+      } else {
+        await storage.createFile({
+          projectId,
+          path,
+          s3Key,
+          size: Buffer.byteLength(content, 'utf-8'),
+        });
+      }
+
+      return { summary: `Created ${path}` };
+    }
+
+    case "edit_file": {
+      const { path } = args;
+
+      // Block AI from editing vite.config files
+      if (path.match(VITE_CONFIG_PATTERN)) {
+        return { summary: `Skipped editing ${path} (pre-configured in boilerplate)` };
+      }
+
+      const edits = parseEdits(args);
+
+      // Get existing file
+      const existingFile = await storage.getFileByPath(projectId, path);
+      if (!existingFile) {
+        throw new Error(`File not found: ${path}`);
+      }
+
+      // Get current content from S3
+      const currentContent = await getFileFromS3(existingFile.s3Key);
+
+      // Apply edits (throws before anything is written if one fails)
+      const fileContent = applyEdits(currentContent, edits);
+
+      // Upload to S3
+      const s3Key = await uploadFileToS3(projectId, path, fileContent);
+
+      // Write to E2B sandbox
+      await writeFileToSandbox(projectId, path, fileContent);
+
+      // Update database
+      await storage.updateFile(existingFile.id, {
+        s3Key,
+        size: Buffer.byteLength(fileContent, 'utf-8'),
+      });
+
+      const { diff, additions, deletions } = createFileDiff(path, currentContent, fileContent);
+      return {
+        summary: `Edited ${path} (+${additions} -${deletions})`,
+        result: { path, edits: edits.length, additions, deletions, diff: truncateDiff(diff, MAX_TOOL_DIFF_CHARS) },
+      };
+    }
+
+    case "apply_patch": {
+      const { patch } = args;
+
+      // Block AI from changing vite.config files
+      const blockedPath = getPatchPaths(patch).find(path => path.match(VITE_CONFIG_PATTERN));
+      if (blockedPath) {
+        throw new Error(`${blockedPath} is pre-configured in the boilerplate and cannot be patched`);
+      }
+
+      const { files, diff } = await applyPatchToProject(projectId, patch);
+      const additions = files.reduce((sum, file) => sum + file.additions, 0);
+      const deletions = files.reduce((sum, file) => sum + file.deletions, 0);
+      const summary = files.length === 1
+        ? `Patched ${files[0].path} (+${additions} -${deletions})`
+        : `Patched ${files.length} files (+${additions} -${deletions})`;
+
+      return { summary, result: { files, diff: truncateDiff(diff, MAX_TOOL_DIFF_CHARS) } };
+    }
+
+    case "delete_file": {
+      const { path } = args;
+
+      // Block AI from deleting vite.config files
+      if (path.match(VITE_CONFIG_PATTERN)) {
+        return { summary: `Skipped deleting ${path} (required system file)` };
+      }
+
+      let deletionStatus = { s3: false, sandbox: false, database: false };
+      let summary = `Deleted ${path}`;
+      const errors: string[] = [];
+
+      // Find file in database
+      const existingFile = await storage.getFileByPath(projectId, path);
+
+      if (existingFile) {
+        // Delete from S3
+        try {
+          await deleteFileFromS3(existingFile.s3Key);
+          deletionStatus.s3 = true;
+        } catch (error: any) {
+          console.error('Failed to delete file from S3:', error);
+          errors.push(`S3: ${error.message}`);
+        }
+
+        // Delete from E2B sandbox
+        const sandboxDeletion = await deleteFileFromSandbox(projectId, path);
+        deletionStatus.sandbox = sandboxDeletion.success;
+        if (!sandboxDeletion.success && sandboxDeletion.error) {
+          console.error('Failed to delete file from sandbox:', sandboxDeletion.error);
+          errors.push(`Sandbox: ${sandboxDeletion.error}`);
+        }
+
+        // Delete from database - only if at least one of the above succeeded
+        if (deletionStatus.s3 || deletionStatus.sandbox) {
+          try {
+            await storage.deleteFile(existingFile.id);
+            deletionStatus.database = true;
+          } catch (error: any) {
+            console.error('Failed to delete file from database:', error);
+            errors.push(`Database: ${error.message}`);
+          }
+        }
+
+        // Update summary based on results
+        if (errors.length > 0) {
+          summary = `Partially deleted ${path} (${errors.join(', ')})`;
+        }
+      } else {
+        summary = `File ${path} not found in database`;
+      }
+
+      return { summary, result: deletionStatus };
+    }
+
+    case "list_files": {
+      // List all files in the project
+      const files = await storage.getFilesByProjectId(projectId);
+      const fileList = files.map(f => ({
+        path: f.path,
+        size: f.size,
+        mimeType: f.mimeType,
+      }));
+
+      return { summary: `Listed ${files.length} files`, result: fileList };
+    }
+
+    case "read_file": {
+      const { path } = args;
+
+      // Get file from database
+      const existingFile = await storage.getFileByPath(projectId, path);
+      if (!existingFile) {
+        throw new Error(`File not found: ${path}`);
+      }
+
+      // Read content from S3
+      const content = await getFileFromS3(existingFile.s3Key);
+
+      return { summary: `Read ${path} (${content.length} characters)`, result: { content, path } };
+    }
+
+    case "search_files": {
+      const { matches, filesSearched, filesMatched, truncated } = await searchProjectFiles(projectId, {
+        query: args.query,
+        regex: args.regex === true,
+        caseSensitive: args.case_sensitive === true,
+        include: args.include,
+        exclude: args.exclude,
+        maxResults: args.max_results,
+      });
+
+      return {
+        summary: `Found ${matches.length}${truncated ? '+' : ''} matches in ${filesMatched} files`,
+        result: {
+          // "path:line: text", like grep -n
+          matches: matches.map(match => `${match.path}:${match.line}: ${match.text}`),
+          filesSearched,
+          ...(truncated && { truncated: 'More matches not shown - narrow the query or include globs' }),
+        },
+      };
+    }
+
+    case "run_shell": {
+      const { command } = args;
+
+      // Check if this is a long-running server command
+      const isServerCommand = command.includes('python -m http.server') ||
+                             command.includes('npm start') ||
+                             command.includes('npm run dev') ||
+                             command.includes('node ') ||
+                             command.match(/python\s+.*\.py/) ||
+                             command.includes('flask run') ||
+                             command.includes('streamlit run');
+
+      // Every command runs through the process registry so its output stays readable with
+      // get_logs; servers get a few seconds to print startup errors, other commands 10s to finish
+      const started = await startProcess(projectId, command, 'agent');
+      const info = await waitForProcess(projectId, started.id, isServerCommand ? SERVER_STARTUP_WAIT_MS : COMMAND_WAIT_MS) ?? started;
+      const lines = getProcessLogs(projectId, info.id) || [];
+      const output = {
+        stdout: lines.filter(line => line.stream === 'stdout').map(line => line.text).join('\n'),
+        stderr: lines.filter(line => line.stream === 'stderr').map(line => line.text).join('\n'),
+      };
+
+      if (isServerCommand) {
+        // Save workflow command for auto-restart on sandbox recreation
+        await storage.updateProject(projectId, {
+          workflowCommand: command
+        });
+      }
+
+      if (info.status === 'running') {
+        return {
+          summary: isServerCommand ? `Started: ${command}` : `Ran shell: ${command}`,
+          result: {
+            processId: info.id,
+            status: 'running',
+            ...output,
+            message: isServerCommand
+              ? 'Started in the background; the output so far is above. Call get_logs with this processId to check later output such as compile errors.'
+              : `Still running in the background after ${COMMAND_WAIT_MS / 1000}s. Call get_logs with this processId to follow its output.`,
+          },
+        };
+      }
+
+      return {
+        summary: `Ran shell: ${command}`,
+        result: { processId: info.id, ...output, exitCode: info.exitCode, ...(info.error && { error: info.error }) },
+      };
+    }
+
+    case "get_logs": {
+      const processes = listProcesses(projectId);
+      if (processes.length === 0) {
+        return {
+          summary: `No process logs`,
+          result: { message: 'No background commands have run in this sandbox yet. Start the app with run_shell first.' },
+        };
+      }
+
+      const target = args.process_id
+        ? processes.find(proc => proc.id === args.process_id)
+        : processes.find(proc => proc.status === 'running') || processes[0];
+      if (!target) {
+        throw new Error(`Unknown process_id "${args.process_id}". Known processes: ${processes.map(proc => `${proc.id} (${proc.command})`).join(', ')}`);
+      }
+
+      const tail = Math.min(MAX_LOG_LINES, Math.max(1, Number(args.tail) || DEFAULT_LOG_LINES));
+      const lines = getProcessLogs(projectId, target.id, {
+        tail,
+        stream: args.stream === 'stdout' || args.stream === 'stderr' ? args.stream : undefined,
+        filter: args.filter || undefined,
+      }) || [];
+
+      return {
+        summary: `Read ${lines.length} log lines of ${target.command}`,
+        result: {
+          process: target,
+          logs: lines.map(line => line.stream === 'stderr' ? `[stderr] ${line.text}` : line.text).join('\n') || '(no output)',
+          otherProcesses: processes
+            .filter(proc => proc.id !== target.id)
+            .slice(0, 10)
+            .map(proc => ({ id: proc.id, command: proc.command, status: proc.status })),
+        },
+      };
+    }
+
+    case "run_code": {
+      const { code, language } = args;
+      const result = await executeCode(projectId, code, language);
+      return { summary: `Executed ${language} code`, result };
+    }
+
+    case "screenshot_preview": {
+      const screenshot = await capturePreviewScreenshot(projectId, {
+        path: args.path,
+        port: args.port,
+        width: args.width,
+        height: args.height,
+        fullPage: args.full_page === true,
+      });
+
+      return {
+        summary: `Took a screenshot of ${screenshot.pageUrl} (${screenshot.width}x${screenshot.height})`,
+        result: {
+          // Sent to the model as an image alongside this result
+          image: screenshot.url,
+          pageUrl: screenshot.pageUrl,
+          viewport: `${screenshot.width}x${screenshot.height}`,
+          fullPage: screenshot.fullPage,
+        },
+      };
+    }
+
+    case "web_search": {
+      const results = await searchWeb(args.query, args.limit);
+      return { summary: `Searched: ${args.query} (${results.length} results)`, result: { results } };
+    }
+
+    case "fetch_url": {
+      const page = await fetchUrlContent(args.url);
+      return { summary: `Fetched ${page.url} (${page.content.length} characters)`, result: page };
+    }
+
+    case "update_instructions": {
+      const instructions = await updateProjectInstructions(projectId, args.content, args.append === true);
+      return {
+        summary: `Updated project instructions`,
+        result: { characters: instructions.length, message: 'Saved. The new instructions apply from the next run.' },
+      };
+    }
+
+    case "configure_workflow": {
+      const { command } = args;
+
+      // Save workflow command for auto-restart
+      await storage.updateProject(projectId, {
+        workflowCommand: command
+      });
+
+      return {
+        summary: `Configured workflow: ${command}`,
+        result: {
+          command,
+          message: 'Workflow command saved. Will auto-run on sandbox restart and available via manual run button.'
+        },
+      };
+    }
+
+    default:
+      throw new Error(`Unknown tool: ${toolName}`);
+  }
+}
@@ -0,0 +1,60 @@
+// Token usage and cost accounting for model runs
+import { storage } from "../storage";
+import type { LLMProvider, ModelPricing, TokenUsage } from "./llm";
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, thinkingTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+// Accumulate usage from one request into a running total (an agent run makes one request per iteration)
+export function addUsage(total: TokenUsage, usage: TokenUsage): TokenUsage {
+  total.inputTokens += usage.inputTokens;
+  total.outputTokens += usage.outputTokens;
+  total.thinkingTokens += usage.thinkingTokens;
+  total.cacheReadTokens += usage.cacheReadTokens;
+  total.cacheWriteTokens += usage.cacheWriteTokens;
+  return total;
+}
+
+export function calculateCost(pricing: ModelPricing | undefined, usage: TokenUsage): number {
+  if (!pricing) return 0;
+
+  const cost =
+    usage.inputTokens * pricing.input +
+    usage.outputTokens * pricing.output +
+    usage.cacheReadTokens * (pricing.cacheRead ?? pricing.input) +
+    usage.cacheWriteTokens * (pricing.cacheWrite ?? pricing.input);
+
+  return cost / 1_000_000;
+}
+
+export interface RecordUsageOptions {
+  userId: string;
+  projectId: string;
+  messageId?: string;
+  kind: 'chat' | 'summary';
+  provider: LLMProvider;
+  model: string;
+  usage: TokenUsage;
+}
+
+// Persist usage for a run; failures are logged so accounting never breaks a chat
+export async function recordUsage(options: RecordUsageOptions): Promise<void> {
+  const { userId, projectId, messageId, kind, provider, model, usage } = options;
+  const pricing = provider.models.find(m => m.id === model)?.pricing;
+
+  try {
+    await storage.createUsageRecord({
+      userId,
+      projectId,
+      messageId: messageId || null,
+      kind,
+      provider: provider.id,
+      model,
+      ...usage,
+      costUsd: calculateCost(pricing, usage),
+    });
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
@@ -0,0 +1,246 @@
+// Verification - after an agent turn changes files, run the project's verify command (type-check,
+// lint or build) in the sandbox, parse its diagnostics and send errors back to the agent to fix,
+// up to MAX_FIX_ATTEMPTS times per run
+import type { VerificationDiagnostic, VerificationResult } from "@shared/schema";
+import { storage } from "../storage";
+import { getFileFromS3 } from "./s3";
+import { runSandboxCommand } from "./e2b";
+import type { AgentEvent, AgentToolCall } from "./agent";
+
+export const MAX_FIX_ATTEMPTS = parseInt(process.env.VERIFY_MAX_FIX_ATTEMPTS || "2", 10);
+
+const VERIFY_TIMEOUT_MS = 120_000;
+export const MAX_VERIFY_COMMAND_CHARS = 500;
+
+// Diagnostics kept per check and sent to the agent
+const MAX_DIAGNOSTICS = 50;
+const MAX_OUTPUT_CHARS = 4000;
+
+// Tools whose changes are verified
+const FILE_CHANGING_TOOLS = ['write_file', 'edit_file', 'apply_patch', 'create_boilerplate'];
+
+// Working directory of sandbox commands, stripped from reported paths
+const SANDBOX_HOME = '/home/user/';
+
+// package.json scripts tried in order when suggesting a verify command
+const VERIFY_SCRIPTS = ['typecheck', 'type-check', 'check', 'lint', 'build'];
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
+
+function normalizePath(path: string): string {
+  const trimmed = path.trim();
+  return (trimmed.startsWith(SANDBOX_HOME) ? trimmed.slice(SANDBOX_HOME.length) : trimmed).replace(/^\.\//, '');
+}
+
+// tsc: src/App.tsx(12,5): error TS2322: ...   or (--pretty) src/App.tsx:12:5 - error TS2322: ...
+const TSC_PATTERN = /^(.+?)(?:\((\d+),(\d+)\):|:(\d+):(\d+) -) (error|warning) (TS\d+): (.+)$/;
+// ESLint stylish: an indented "12:5  error  Message  rule" under a file path line
+const ESLINT_PATTERN = /^\s+(\d+):(\d+)\s+(error|warning)\s+(.+?)(?:\s{2,}([\w@/-]+))?$/;
+// esbuild/Vite: "✘ [ERROR] Message" followed by an indented "src/x.ts:3:4:" location
+const ESBUILD_ERROR_PATTERN = /^\s*(?:✘|X)\s*\[ERROR\]\s*(.+)$/;
+const ESBUILD_LOCATION_PATTERN = /^\s+([\w./@-]+\.\w+):(\d+):(\d+):\s*$/;
+// Generic compiler style: src/x.ts:3:4: error: Message
+const GENERIC_PATTERN = /^([\w./@-]+\.\w+):(\d+):(\d+):?\s+(error|warning):?\s+(.+)$/i;
+
+// Parse diagnostics from tsc, ESLint, esbuild/Vite and compiler-style output
+export function parseDiagnostics(output: string): VerificationDiagnostic[] {
+  const diagnostics: VerificationDiagnostic[] = [];
+  let eslintFile: string | null = null;
+  let esbuildMessage: string | null = null;
+
+  for (const rawLine of stripAnsi(output).split('\n')) {
+    const line = rawLine.trimEnd();
+
+    const tsc = TSC_PATTERN.exec(line);
+    if (tsc) {
+      diagnostics.push({
+        path: normalizePath(tsc[1]),
+        line: Number(tsc[2] ?? tsc[4]),
+        column: Number(tsc[3] ?? tsc[5]),
+        severity: tsc[6] as 'error' | 'warning',
+        code: tsc[7],
+        message: tsc[8],
+      });
+      continue;
+    }
+
+    const esbuildError = ESBUILD_ERROR_PATTERN.exec(line);
+    if (esbuildError) {
+      esbuildMessage = esbuildError[1];
+      continue;
+    }
+    const esbuildLocation = esbuildMessage ? ESBUILD_LOCATION_PATTERN.exec(line) : null;
+    if (esbuildLocation) {
+      diagnostics.push({
+        path: normalizePath(esbuildLocation[1]),
+        line: Number(esbuildLocation[2]),
+        column: Number(esbuildLocation[3]) + 1, // esbuild columns are 0-based
+        severity: 'error',
+        message: esbuildMessage!,
+      });
+      esbuildMessage = null;
+      continue;
+    }
+
+    const generic = GENERIC_PATTERN.exec(line);
+    if (generic) {
+      diagnostics.push({
+        path: normalizePath(generic[1]),
+        line: Number(generic[2]),
+        // esbuild (also inside Vite errors) writes "ERROR:" with 0-based columns
+        column: Number(generic[3]) + (generic[4] === 'ERROR' || generic[4] === 'WARNING' ? 1 : 0),
+        severity: generic[4].toLowerCase() as 'error' | 'warning',
+        message: generic[5],
+      });
+      continue;
+    }
+
+    const eslint = eslintFile ? ESLINT_PATTERN.exec(line) : null;
+    if (eslint) {
+      diagnostics.push({
+        path: eslintFile!,
+        line: Number(eslint[1]),
+        column: Number(eslint[2]),
+        severity: eslint[3] as 'error' | 'warning',
+        message: eslint[4],
+        ...(eslint[5] && { code: eslint[5] }),
+      });
+      continue;
+    }
+
+    // ESLint prints each file's path on its own line before its problems
+    if (/^\/?[\w./@-]+\.\w+$/.test(line)) {
+      eslintFile = normalizePath(line);
+    } else if (!line.trim()) {
+      eslintFile = null;
+    }
+  }
+
+  // The same problem can be reported twice (e.g. by tsc and a bundler)
+  const seen = new Set<string>();
+  return diagnostics.filter(d => {
+    const key = `${d.path}:${d.line}:${d.column}:${d.message}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Verify command to offer for a project, from its package.json scripts or tsconfig.json
+export async function suggestVerifyCommand(projectId: string): Promise<string | null> {
+  const packageFile = await storage.getFileByPath(projectId, 'package.json');
+  if (packageFile) {
+    try {
+      const scripts = JSON.parse(await getFileFromS3(packageFile.s3Key)).scripts || {};
+      const script = VERIFY_SCRIPTS.find(name => typeof scripts[name] === 'string');
+      if (script) return `npm run ${script}`;
+    } catch {
+      // Unreadable package.json - fall back to tsconfig detection
+    }
+  }
+
+  const tsconfig = await storage.getFileByPath(projectId, 'tsconfig.json');
+  return tsconfig ? 'npx tsc --noEmit' : null;
+}
+
+export function normalizeVerifyCommand(command: unknown): string | null {
+  if (command === null || command === undefined) return null;
+  if (typeof command !== 'string') {
+    throw new Error('command must be a string');
+  }
+  const trimmed = command.trim();
+  if (trimmed.length > MAX_VERIFY_COMMAND_CHARS) {
+    throw new Error(`The verify command is too long (max ${MAX_VERIFY_COMMAND_CHARS} characters)`);
+  }
+  return trimmed || null;
+}
+
+// Run the verify command in the sandbox; a failing exit code or error diagnostics fail the check.
+// Aborting the signal kills the command.
+export async function runVerification(
+  projectId: string,
+  command: string,
+  attempt: number,
+  signal?: AbortSignal
+): Promise<VerificationResult> {
+  const startedAt = Date.now();
+  try {
+    const { stdout, stderr, exitCode } = await runSandboxCommand(projectId, command, VERIFY_TIMEOUT_MS, signal);
+    signal?.throwIfAborted();
+    const output = stripAnsi([stdout, stderr].filter(Boolean).join('\n')).trim();
+    const diagnostics = parseDiagnostics(output).slice(0, MAX_DIAGNOSTICS);
+    const passed = exitCode === 0 && !diagnostics.some(d => d.severity === 'error');
+
+    return {
+      command,
+      status: passed ? 'passed' : 'failed',
+      exitCode,
+      diagnostics,
+      output: output.length > MAX_OUTPUT_CHARS ? `...${output.slice(-MAX_OUTPUT_CHARS)}` : output,
+      durationMs: Date.now() - startedAt,
+      attempt,
+      willRetry: false,
+    };
+  } catch (error: any) {
+    return {
+      command,
+      status: 'error',
+      exitCode: -1,
+      diagnostics: [],
+      output: signal?.aborted ? 'Verification was cancelled' : error.message,
+      durationMs: Date.now() - startedAt,
+      attempt,
+      willRetry: false,
+    };
+  }
+}
+
+// Message sent back to the agent when verification fails
+export function formatVerificationFeedback(result: VerificationResult, attemptsLeft: number): string {
+  const errors = result.diagnostics.filter(d => d.severity === 'error');
+  const listed = errors.length > 0
+    ? errors.map(d => `- ${d.path ?? '?'}${d.line ? `:${d.line}:${d.column ?? 1}` : ''}${d.code ? ` ${d.code}` : ''}: ${d.message}`).join('\n')
+    : `Output:\n${result.output}`;
+
+  return `[VERIFICATION FAILED]
+\`${result.command}\` exited with code ${result.exitCode} after your changes${errors.length > 0 ? ` and reported ${errors.length} errors` : ''}:
+${listed}
+
+Fix these errors now (read the affected files first). Verification runs again when you finish; ${attemptsLeft > 0 ? `if it still fails you get ${attemptsLeft} more ${attemptsLeft === 1 ? 'attempt' : 'attempts'}` : 'this is your last attempt'}. Do not disable checks or weaken types just to make them pass.`;
+}
+
+// Verification hook for runAgent: checks the files changed since the last check each time the
+// model finishes, and returns feedback while there are fix attempts left. The run's signal stops a
+// check in progress.
+export function createVerifier(
+  projectId: string,
+  command: string,
+  emit: (event: AgentEvent) => void,
+  signal?: AbortSignal
+) {
+  let verifiedCallCount = 0;
+  let attempt = 0;
+  let lastResult: VerificationResult | null = null;
+
+  return {
+    verifyChanges: async (toolCalls: AgentToolCall[]): Promise<string | null> => {
+      const newCalls = toolCalls.slice(verifiedCallCount);
+      verifiedCallCount = toolCalls.length;
+      if (!newCalls.some(call => FILE_CHANGING_TOOLS.includes(call.name) && !call.error)) {
+        return null;
+      }
+
+      attempt++;
+      emit({ type: 'verification_started', command, attempt });
+      const result = await runVerification(projectId, command, attempt, signal);
+      result.willRetry = result.status === 'failed' && attempt <= MAX_FIX_ATTEMPTS;
+      lastResult = result;
+      emit({ type: 'verification_result', result });
+
+      return result.willRetry ? formatVerificationFeedback(result, MAX_FIX_ATTEMPTS - attempt) : null;
+    },
+    getResult: () => lastResult,
+  };
+}
@@ -0,0 +1,52 @@
+import { test, mock, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import dns from "dns";
+import { httpWebBackend, isPrivateAddress } from "./web";
+
+afterEach(() => {
+  mock.restoreAll();
+});
+
+// Answer DNS lookups for every host with the given addresses
+function resolveTo(...addresses: string[]): void {
+  mock.method(dns, "lookup", (_hostname: string, _options: unknown, callback: Function) => {
+    callback(null, addresses.map(address => ({ address, family: address.includes(":") ? 6 : 4 })));
+  });
+}
+
+test("private, loopback, link-local, unspecified and IPv4-mapped addresses are blocked", () => {
+  for (const address of [
+    "127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "0.0.0.0", "100.64.0.1",
+    "::", "::1", "::ffff:a9fe:a9fe", "::ffff:7f00:1", "::ffff:8.8.8.8", "fd00::1", "fe80::1",
+  ]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ["93.184.216.34", "8.8.8.8", "2606:4700:4700::1111"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});
+
+test("IP literal URLs for private addresses are refused without a request", async () => {
+  const lookup = mock.method(dns, "lookup");
+  for (const url of [
+    "http://[::ffff:a9fe:a9fe]/latest/meta-data/",
+    "http://[::ffff:7f00:1]/",
+    "http://[::]/",
+    "http://[::1]:3000/",
+    "http://127.0.0.1/",
+    "http://2852039166/", // 169.254.169.254 written as a number
+  ]) {
+    await assert.rejects(httpWebBackend.fetch(url), /private network address/, url);
+  }
+  assert.equal(lookup.mock.callCount(), 0);
+});
+
+test("host names that resolve to a private address are refused", async () => {
+  resolveTo("127.0.0.1");
+  await assert.rejects(httpWebBackend.fetch("http://localtest.me/"), /localtest\.me resolves to 127\.0\.0\.1/);
+});
+
+test("a host name is refused when any of its addresses is private", async () => {
+  resolveTo("93.184.216.34", "::ffff:a9fe:a9fe");
+  await assert.rejects(httpWebBackend.fetch("https://rebind.example/"), /resolves to ::ffff:a9fe:a9fe/);
+});
@@ -0,0 +1,297 @@
+// Web access for the agent - the web_search and fetch_url tools go through a WebBackend.
+// Serper and plain HTTP are used by default; setting MOCK_WEB_FIXTURE to a fixture name
+// (server/fixtures/mock-web/<name>.json) or a file path serves canned results for offline tests.
+import { readFileSync, existsSync } from "fs";
+import path from "path";
+import http from "http";
+import https from "https";
+import dns from "dns";
+import net from "net";
+import { webSearch } from "./serper";
+
+const FIXTURES_DIR = path.join(process.cwd(), "server/fixtures/mock-web");
+
+const FETCH_TIMEOUT_MS = 15000;
+const MAX_DOWNLOAD_BYTES = 2 * 1024 * 1024;
+
+// Page text returned to the model (tool results are capped at 20k characters in total)
+const MAX_PAGE_TEXT_CHARS = 15000;
+
+export interface SearchResult {
+  title: string;
+  link: string;
+  snippet: string;
+}
+
+export interface FetchedPage {
+  url: string; // Final URL after redirects
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export interface WebBackend {
+  id: string;
+  search(query: string, limit: number): Promise<SearchResult[]>;
+  fetch(url: string): Promise<FetchedPage>;
+}
+
+// Addresses the server must not be tricked into fetching: its own network, cloud metadata
+// (169.254.169.254) and the IPv6 forms that embed IPv4 addresses
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 96], // Unspecified, loopback and IPv4-compatible
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// A BlockList also matches IPv4 addresses against IPv4-mapped rules, so mapped addresses are
+// kept in their own list and only IPv6 addresses are checked against it
+const IPV4_MAPPED = new net.BlockList();
+IPV4_MAPPED.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+export function isPrivateAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  if (family === 6) {
+    return IPV4_MAPPED.check(address, 'ipv6') || BLOCKED_ADDRESSES.check(address, 'ipv6');
+  }
+  return BLOCKED_ADDRESSES.check(address, 'ipv4');
+}
+
+// DNS lookup for fetches that fails when the host resolves to a private address. It is the
+// request's own lookup, so the address checked is the one connected to - a second resolution
+// can't swap it (DNS rebinding).
+const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { all: true, family: options.family }, (error, addresses) => {
+    if (error) return callback(error, '', 0);
+
+    const blocked = addresses.find(entry => isPrivateAddress(entry.address));
+    if (blocked || addresses.length === 0) {
+      const reason = blocked ? `${hostname} resolves to ${blocked.address}` : `${hostname} has no address`;
+      return callback(new Error(`Refusing to fetch a private network address: ${reason}`), '', 0);
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+function parsePublicUrl(rawUrl: string): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new Error(`Invalid URL: ${rawUrl}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Only http and https URLs can be fetched`);
+  }
+  // IP literals are connected to without a lookup, so check them here
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && isPrivateAddress(host)) {
+    throw new Error(`Refusing to fetch a private network address: ${host}`);
+  }
+  return url;
+}
+
+function request(url: URL): Promise<http.IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const req = client.get(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (compatible; VibeCodeAgent/1.0)',
+        'Accept': 'text/html,application/xhtml+xml,text/plain,application/json;q=0.9,*/*;q=0.5',
+      },
+      lookup: publicLookup,
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    }, resolve);
+    req.on('error', reject);
+  });
+}
+
+async function readLimitedBody(response: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  let received = 0;
+  for await (const chunk of response) {
+    chunks.push(chunk);
+    received += chunk.length;
+    if (received >= MAX_DOWNLOAD_BYTES) break;
+  }
+  response.destroy();
+
+  return Buffer.concat(chunks).subarray(0, MAX_DOWNLOAD_BYTES).toString('utf-8');
+}
+
+export const httpWebBackend: WebBackend = {
+  id: 'serper',
+  search: (query, limit) => webSearch(query, limit),
+  fetch: async (rawUrl) => {
+    // Follow redirects by hand so each hop is checked
+    let url = parsePublicUrl(rawUrl);
+    for (let redirects = 0; redirects <= 5; redirects++) {
+      const response = await request(url);
+      const status = response.statusCode || 0;
+
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.destroy();
+        url = parsePublicUrl(new URL(location, url).toString());
+        continue;
+      }
+
+      return {
+        url: url.toString(),
+        status,
+        contentType: response.headers['content-type'] || '',
+        body: await readLimitedBody(response),
+      };
+    }
+    throw new Error('Too many redirects');
+  },
+};
+
+interface MockWebFixture {
+  search?: Array<{ match?: string; results: SearchResult[] }>; // First entry whose regex matches the query
+  pages?: Record<string, { status?: number; contentType?: string; body: string }>;
+}
+
+function resolveFixturePath(fixture: string): string {
+  if (existsSync(fixture)) {
+    return fixture;
+  }
+
+  const fixturePath = path.join(FIXTURES_DIR, fixture.endsWith(".json") ? fixture : `${fixture}.json`);
+  if (!existsSync(fixturePath)) {
+    throw new Error(`Mock web fixture not found: ${fixture}`);
+  }
+  return fixturePath;
+}
+
+// Read on every call so tests can switch fixtures without restarting the server
+function loadMockWebFixture(): MockWebFixture {
+  return JSON.parse(readFileSync(resolveFixturePath(process.env.MOCK_WEB_FIXTURE || ""), "utf-8"));
+}
+
+export const mockWebBackend: WebBackend = {
+  id: 'mock',
+  search: async (query, limit) => {
+    const entry = loadMockWebFixture().search?.find(e => !e.match || new RegExp(e.match, 'i').test(query));
+    return (entry?.results || []).slice(0, limit);
+  },
+  fetch: async (url) => {
+    const page = loadMockWebFixture().pages?.[url];
+    if (!page) {
+      return { url, status: 404, contentType: 'text/plain', body: 'Not found' };
+    }
+    return { url, status: page.status || 200, contentType: page.contentType || 'text/html', body: page.body };
+  },
+};
+
+export function getWebBackend(): WebBackend {
+  return process.env.MOCK_WEB_FIXTURE ? mockWebBackend : httpWebBackend;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '-', ndash: '-', hellip: '...',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return HTML_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// Readable text from an HTML page: drops scripts, styles and page chrome, keeps headings,
+// paragraphs, list items, code blocks and link targets
+export function htmlToText(html: string): { title: string; text: string } {
+  const title = decodeEntities(/<title[^>]*>([^]*?)<\/title>/i.exec(html)?.[1] || '').trim();
+
+  // Prefer the main content when the page marks it
+  const main = /<(main|article)\b[^>]*>([^]*?)<\/\1>/i.exec(html)?.[2] || html;
+
+  const text = main
+    .replace(/<!--[^]*?-->/g, '')
+    .replace(/<(script|style|noscript|svg|head|nav|footer|iframe|template)\b[^]*?<\/\1>/gi, '')
+    .replace(/<pre\b[^>]*>([^]*?)<\/pre>/gi, (_m, code: string) => `\n\`\`\`\n${code.replace(/<[^>]+>/g, '')}\n\`\`\`\n`)
+    .replace(/<h([1-6])\b[^>]*>/gi, (_m, level: string) => `\n\n${'#'.repeat(Number(level))} `)
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<a\b[^>]*href="(https?:[^"]+)"[^>]*>([^]*?)<\/a>/gi, (_m, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]+>/g, '').trim();
+      return labelText && labelText !== href ? `${labelText} (${href})` : href;
+    })
+    .replace(/<code\b[^>]*>([^]*?)<\/code>/gi, '`$1`')
+    .replace(/<(br|hr)\b[^>]*>/gi, '\n')
+    .replace(/<\/(p|div|section|h[1-6]|ul|ol|table|tr|blockquote)>/gi, '\n\n')
+    .replace(/<\/t[dh]>/gi, ' | ')
+    .replace(/<[^>]+>/g, '');
+
+  // Collapse whitespace outside code blocks (odd segments are inside ``` fences)
+  const normalized = decodeEntities(text)
+    .split('```')
+    .map((segment, i) => i % 2 === 1 ? segment : segment
+      .replace(/[ \t]+/g, ' ')
+      .replace(/ *\n */g, '\n')
+      .replace(/\n{3,}/g, '\n\n'))
+    .join('```');
+
+  return { title, text: normalized.trim() };
+}
+
+export async function searchWeb(query: string, limit: number = 5): Promise<SearchResult[]> {
+  if (typeof query !== 'string' || !query.trim()) {
+    throw new Error('A search query is required');
+  }
+  return await getWebBackend().search(query.trim(), Math.min(Math.max(Number(limit) || 5, 1), 10));
+}
+
+export interface FetchedUrlContent {
+  url: string;
+  status: number;
+  title?: string;
+  content: string;
+  truncated: boolean;
+}
+
+// Download a page and convert it to text the model can read
+export async function fetchUrlContent(url: string): Promise<FetchedUrlContent> {
+  if (typeof url !== 'string' || !url.trim()) {
+    throw new Error('A URL is required');
+  }
+
+  const page = await getWebBackend().fetch(url.trim());
+  if (page.status >= 400) {
+    throw new Error(`Request failed with status ${page.status}`);
+  }
+
+  if (/^(image|audio|video)\/|application\/(pdf|zip|octet-stream)/i.test(page.contentType)) {
+    throw new Error(`Cannot read ${page.contentType} content - only web pages and text can be fetched`);
+  }
+
+  const isHtml = /html|xml/i.test(page.contentType) || /^\s*<(!doctype|html)/i.test(page.body);
+  const { title, text } = isHtml ? htmlToText(page.body) : { title: '', text: page.body };
+
+  const truncated = text.length > MAX_PAGE_TEXT_CHARS;
+  return {
+    url: page.url,
+    status: page.status,
+    ...(title && { title }),
+    content: truncated ? `${text.slice(0, MAX_PAGE_TEXT_CHARS)}\n[... ${text.length - MAX_PAGE_TEXT_CHARS} more characters]` : text,
+    truncated,
+  };
+}
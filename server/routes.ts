@@ -1,9 +1,54 @@
-import type { Express, Request } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { requireAuth } from "./middleware/auth";
-import { chatWithAIStream, SYSTEM_PROMPT, getToolCallSummary } from "./lib/bedrock";
-import { webSearch } from "./lib/serper";
+import { SYSTEM_PROMPT } from "./lib/prompt";
+import { parseReasoningBudget, type Message, type ToolDefinition } from "./lib/llm";
+import type { Message as StoredMessage, MessageAttachment, Thread } from "@shared/schema";
+import { listProviders, getProvider, isValidModel, resolveProjectModel } from "./lib/providers";
+import { runAgent, type AgentEvent, type LocalTool } from "./lib/agent";
+import { buildConversationContext, countMessageTokens, estimateMessageTokens, estimateTokens, formatSummarySection } from "./lib/context";
+import { emptyUsage, recordUsage } from "./lib/usage";
+import { saveAgentReply } from "./lib/replies";
+import {
+  PLAN_MODE_PROMPT,
+  PLAN_MODE_TOOLS,
+  createProposePlanTool,
+  createPlanStepTool,
+  formatApprovedPlan,
+  parseProposedPlan,
+  planToActions,
+  type Plan,
+} from "./lib/plan";
+import {
+  startRun,
+  getRun,
+  getActiveRunForProject,
+  publishRunEvent,
+  subscribeToRun,
+  cancelRun,
+  resolveApproval,
+  finishRun,
+  type AgentRun,
+} from "./lib/runs";
+import { createToolAuthorizer, getToolPolicy, parseToolPolicy } from "./lib/toolPolicy";
+import { createCheckpointRecorder } from "./lib/checkpoints";
+import { getMessageTree, getBranchPath, getLatestLeaf, getActiveMessageId, toBranchMessages, selectBranch } from "./lib/branches";
+import { buildMentionContext } from "./lib/mentions";
+import { formatInstructionsSection, updateProjectInstructions } from "./lib/instructions";
+import { searchProjectFiles } from "./lib/search";
+import { createVerifier, normalizeVerifyCommand, suggestVerifyCommand } from "./lib/verify";
+import {
+  classifyUpload,
+  prepareZipAttachment,
+  toFileAttachment,
+  MAX_ATTACHMENT_UPLOAD_SIZE,
+  MAX_IMAGE_UPLOAD_SIZE,
+  type PreparedArchive,
+} from "./lib/attachments";
+import { getProjectThreads, normalizeThreadTitle, titleFromPrompt, DEFAULT_THREAD_TITLE } from "./lib/threads";
+import { TOOL_DEFINITIONS } from "./lib/tools";
+import { startProcess, stopProcess, subscribeToProcesses } from "./lib/processes";
 import { insertProjectSchema, insertMessageSchema, insertFileSchema } from "@shared/schema";
 import { uploadFileToS3, getFileFromS3, deleteFileFromS3, deleteProjectFilesFromS3 } from "./lib/s3";
 import { 
@@ -23,6 +68,44 @@ async function checkProjectOwnership(projectId: string, userId: string): Promise
   return project?.userId === userId;
 }
 
+// The thread, if it belongs to one of the user's projects
+async function getOwnedThread(threadId: string, userId: string): Promise<Thread | null> {
+  const thread = await storage.getThread(threadId);
+  if (!thread || !(await checkProjectOwnership(thread.projectId, userId))) {
+    return null;
+  }
+  return thread;
+}
+
+// Stream a run's events to the client as SSE, replaying buffered events after afterEventId.
+// A client disconnect only detaches the stream - the run keeps going in the background.
+function attachRunStream(res: Response, run: AgentRun, afterEventId: number): void {
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+
+  // Send keepalive pings every 15 seconds
+  const keepaliveInterval = setInterval(() => {
+    res.write(': keepalive\n\n');
+  }, 15000);
+
+  const unsubscribe = subscribeToRun(run, afterEventId, (entry) => {
+    if (!entry) {
+      clearInterval(keepaliveInterval);
+      res.end();
+      return;
+    }
+    res.write(`id: ${entry.id}\ndata: ${JSON.stringify(entry.event)}\n\n`);
+  });
+
+  // The request's close event fires once a POST body has been read, so wait for the response
+  res.on('close', () => {
+    clearInterval(keepaliveInterval);
+    unsubscribe();
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth - Sync Firebase user with database (requires valid ID token)
   app.post("/api/auth/sync", requireAuth, async (req: Request, res) => {
@@ -72,8 +155,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validated = insertProjectSchema.parse({ ...req.body, userId: req.userId });
       const project = await storage.createProject({
         ...validated,
+        toolPolicy: validated.toolPolicy == null ? null : parseToolPolicy(validated.toolPolicy),
         s3Prefix: `projects/${validated.userId}/${Date.now()}`,
       });
+      await storage.createThread({ projectId: project.id });
 
       // Create E2B sandbox for the project
       try {
@@ -114,6 +199,242 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // LLM provider and model selection
+  app.get("/api/llm/providers", requireAuth, async (_req: Request, res) => {
+    try {
+      const providers = listProviders().map(provider => ({
+        id: provider.id,
+        name: provider.name,
+        configured: provider.isConfigured(),
+        models: provider.models,
+        defaultModel: provider.defaultModel,
+      }));
+
+      res.json({ providers, defaultProvider: getProvider().id });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.patch("/api/projects/:id/model", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const { provider, model } = req.body;
+      if (typeof provider !== 'string' || typeof model !== 'string' || !isValidModel(provider, model)) {
+        return res.status(400).json({ error: "Invalid provider or model" });
+      }
+
+      const updated = await storage.updateProject(req.params.id, {
+        llmProvider: provider,
+        llmModel: model,
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Tool approval policy - which agent tool calls run automatically, need approval or are blocked
+  app.get("/api/projects/:id/tool-policy", requireAuth, async (req: Request, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      res.json({
+        policy: getToolPolicy(project),
+        tools: TOOL_DEFINITIONS.map(tool => ({ name: tool.name, description: tool.description })),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/projects/:id/tool-policy", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const updated = await storage.updateProject(req.params.id, {
+        toolPolicy: parseToolPolicy(req.body.policy),
+      });
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Project instructions - appended to the agent's system prompt on every run
+  app.get("/api/projects/:id/instructions", requireAuth, async (req: Request, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      res.json({ instructions: project.instructions || "" });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/projects/:id/instructions", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const instructions = await updateProjectInstructions(req.params.id, req.body.instructions);
+      res.json({ instructions });
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Verification - the command checked after agent edits (null when off) and a suggestion from the project's files
+  app.get("/api/projects/:id/verification", requireAuth, async (req: Request, res) => {
+    try {
+      const project = await storage.getProject(req.params.id);
+      if (!project || project.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      res.json({ command: project.verifyCommand, suggested: await suggestVerifyCommand(project.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/projects/:id/verification", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      let verifyCommand: string | null;
+      try {
+        verifyCommand = normalizeVerifyCommand(req.body.command);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
+
+      const project = await storage.updateProject(req.params.id, { verifyCommand });
+      res.json({ command: project.verifyCommand });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Agent runs - stop an in-flight generation
+  app.post("/api/runs/:id/cancel", requireAuth, async (req: Request, res) => {
+    try {
+      const run = getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Run not found or already finished" });
+      }
+
+      if (run.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      cancelRun(run.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Answer a tool call waiting for approval; the paused run resumes either way
+  app.post("/api/runs/:id/approvals/:approvalId", requireAuth, async (req: Request, res) => {
+    try {
+      const run = getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Run not found or already finished" });
+      }
+
+      if (run.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      if (typeof req.body.approved !== 'boolean') {
+        return res.status(400).json({ error: "approved must be true or false" });
+      }
+
+      if (!resolveApproval(run, req.params.approvalId, req.body.approved)) {
+        return res.status(404).json({ error: "Approval not found or already answered" });
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Reattach to a run's event stream, replaying events after Last-Event-ID (or ?after=)
+  app.get("/api/runs/:id/events", requireAuth, async (req: Request, res) => {
+    try {
+      const run = getRun(req.params.id);
+      if (!run) {
+        return res.status(404).json({ error: "Run not found" });
+      }
+
+      if (run.userId !== req.userId) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const afterEventId = parseInt(req.get('Last-Event-ID') || (req.query.after as string) || "0", 10) || 0;
+      attachRunStream(res, run, afterEventId);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/projects/:id/active-run", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const run = getActiveRunForProject(req.params.id);
+      res.json({ runId: run?.id || null, threadId: run?.threadId || null });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Token usage and cost - per user with a per-project breakdown, and per project with model and message breakdowns
+  app.get("/api/usage", requireAuth, async (req: Request, res) => {
+    try {
+      const totals = await storage.getUsageTotalsByUserId(req.userId!);
+      const projects = await storage.getProjectUsageByUserId(req.userId!);
+      res.json({ totals, projects });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/usage/projects/:id", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const totals = await storage.getUsageTotalsByProjectId(req.params.id);
+      const models = await storage.getModelUsageByProjectId(req.params.id);
+      const messages = await storage.getMessageUsageByProjectId(req.params.id);
+      res.json({ totals, models, messages });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   app.post("/api/projects/:id/boilerplate", requireAuth, async (req: Request, res) => {
     try {
       if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
@@ -183,6 +504,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Registered before /:fileId so "search" isn't taken for a file ID
+  app.get("/api/files/:projectId/search", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.projectId, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const { q, regex, caseSensitive, include, exclude, limit } = req.query;
+      if (typeof q !== 'string' || !q) {
+        return res.status(400).json({ error: "q is required" });
+      }
+
+      const results = await searchProjectFiles(req.params.projectId, {
+        query: q,
+        regex: regex === 'true',
+        caseSensitive: caseSensitive === 'true',
+        include: typeof include === 'string' ? include : undefined,
+        exclude: typeof exclude === 'string' ? exclude : undefined,
+        maxResults: limit ? Number(limit) : undefined,
+      });
+      res.json(results);
+    } catch (error: any) {
+      const status = error.message.startsWith('Invalid regular expression') ? 400 : 500;
+      res.status(status).json({ error: error.message });
+    }
+  });
+
   app.get("/api/files/:projectId/:fileId", requireAuth, async (req: Request, res) => {
     try {
       if (!(await checkProjectOwnership(req.params.projectId, req.userId!))) {
@@ -458,7 +806,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (project?.workflowCommand) {
         try {
           // Run the workflow command in the background
-          executeShellCommand(req.params.projectId, project.workflowCommand).catch(err => 
+          startProcess(req.params.projectId, project.workflowCommand, 'workflow').catch(err => 
             console.error('Background workflow command error:', err)
           );
         } catch (error) {
@@ -504,20 +852,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "No workflow command configured" });
       }
 
-      // Run the workflow command in the background
-      executeShellCommand(req.params.projectId, project.workflowCommand).catch(err => 
-        console.error('Background workflow command error:', err)
-      );
+      // Run the workflow command in the background (restarting it if it is already running)
+      const workflowProcess = await startProcess(req.params.projectId, project.workflowCommand, 'workflow');
 
       res.json({ 
         success: true,
-        command: project.workflowCommand
+        command: project.workflowCommand,
+        processId: workflowProcess.id
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Live output of the sandbox's background processes (dev server, workflow, agent commands) as
+  // SSE: a snapshot of every process first, then new lines and status changes
+  app.get("/api/sandbox/:projectId/logs/stream", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.projectId, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+
+      const keepaliveInterval = setInterval(() => {
+        res.write(': keepalive\n\n');
+      }, 15000);
+
+      const unsubscribe = subscribeToProcesses(req.params.projectId, (event) => {
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+      });
+
+      req.on('close', () => {
+        clearInterval(keepaliveInterval);
+        unsubscribe();
       });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  app.post("/api/sandbox/:projectId/processes/:processId/stop", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.projectId, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const stopped = await stopProcess(req.params.projectId, req.params.processId);
+      if (!stopped) {
+        return res.status(404).json({ error: "Process not found or not running" });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Image Upload
   app.post("/api/upload/image", requireAuth, async (req: any, res) => {
     try {
@@ -579,61 +972,341 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Chat attachments: images, text/code/data files, PDFs and ZIP archives. A ZIP is listed for
+  // the agent and, with extract=true, its text files are written into the project (under extractTo).
+  app.post("/api/upload/attachment", requireAuth, async (req: any, res) => {
+    try {
+      const multer = (await import("multer")).default;
+
+      const upload = multer({
+        storage: multer.memoryStorage(),
+        limits: {
+          fileSize: MAX_ATTACHMENT_UPLOAD_SIZE
+        },
+        fileFilter: (req: any, file: any, cb: any) => {
+          if (classifyUpload(file.originalname, file.mimetype)) {
+            cb(null, true);
+          } else {
+            cb(new Error('Unsupported file type. Attach images, PDFs, ZIP archives, or text, code and data files.'));
+          }
+        }
+      });
+
+      upload.single('file')(req, res, async (err: any) => {
+        try {
+          if (err) {
+            if (err.code === 'LIMIT_FILE_SIZE') {
+              return res.status(400).json({ error: 'File size exceeds 10MB limit' });
+            }
+            return res.status(400).json({ error: err.message });
+          }
+
+          const file = req.file;
+          const projectId = req.body.projectId;
+
+          if (!file) {
+            return res.status(400).json({ error: "No file uploaded" });
+          }
+
+          if (!(await checkProjectOwnership(projectId, req.userId!))) {
+            return res.status(403).json({ error: "Forbidden: Access denied" });
+          }
+
+          const kind = classifyUpload(file.originalname, file.mimetype)!;
+          if (kind === 'image' && file.size > MAX_IMAGE_UPLOAD_SIZE) {
+            return res.status(400).json({ error: 'Image size exceeds 5MB limit' });
+          }
+
+          // List (and optionally extract) archives before storing them
+          let archive: PreparedArchive | undefined;
+          if (kind === 'zip') {
+            try {
+              const extractTo = req.body.extract === 'true' ? String(req.body.extractTo || '') : undefined;
+              archive = await prepareZipAttachment(projectId, file.buffer, extractTo);
+            } catch (error: any) {
+              return res.status(400).json({ error: `Could not read ZIP archive: ${error.message}` });
+            }
+          }
+
+          const sanitizedOriginalName = file.originalname.replace(/[^a-zA-Z0-9.-]/g, '_');
+          const path = `attachments/${Date.now()}-${sanitizedOriginalName}`;
+          const s3Key = await uploadFileToS3(projectId, path, file.buffer);
+
+          const region = process.env.AWS_REGION || 'us-east-1';
+          const url = `https://${process.env.AWS_S3_BUCKET_NAME}.s3.${region}.amazonaws.com/${s3Key}`;
+
+          // Images stay plain URLs (as from /api/upload/image)
+          const attachment: MessageAttachment = kind === 'image' ? url : toFileAttachment(kind, url, file, archive);
+          res.json({
+            attachment,
+            extracted: archive?.extracted || [],
+            skipped: archive?.skipped || [],
+          });
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Threads - separate conversations in a project; archived threads have archivedAt set
+  app.get("/api/projects/:id/threads", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const threads = await getProjectThreads(req.params.id);
+      res.json(threads);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/projects/:id/threads", requireAuth, async (req: Request, res) => {
+    try {
+      if (!(await checkProjectOwnership(req.params.id, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const thread = await storage.createThread({
+        projectId: req.params.id,
+        title: req.body.title ? normalizeThreadTitle(req.body.title) : DEFAULT_THREAD_TITLE,
+      });
+      res.json(thread);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Rename a thread or archive/unarchive it
+  app.patch("/api/threads/:id", requireAuth, async (req: Request, res) => {
+    try {
+      const thread = await getOwnedThread(req.params.id, req.userId!);
+      if (!thread) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+
+      const { title, archived } = req.body;
+      if (archived !== undefined && typeof archived !== 'boolean') {
+        return res.status(400).json({ error: "archived must be true or false" });
+      }
+
+      const updated = await storage.updateThread(thread.id, {
+        ...(title !== undefined && { title: normalizeThreadTitle(title) }),
+        ...(archived !== undefined && { archivedAt: archived ? new Date() : null }),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
   // Messages - Chat with AI
-  app.get("/api/messages/:projectId", requireAuth, async (req: Request, res) => {
+  app.get("/api/messages/:projectId/:threadId", requireAuth, async (req: Request, res) => {
     try {
-      if (!(await checkProjectOwnership(req.params.projectId, req.userId!))) {
+      const thread = await getOwnedThread(req.params.threadId, req.userId!);
+      if (!thread || thread.projectId !== req.params.projectId) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+
+      // Only the selected branch, with each message's alternatives for the branch selector
+      const messages = await getMessageTree(thread.id);
+      res.json(toBranchMessages(messages, getActiveMessageId(thread, messages)));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Approve or reject a proposed plan; approving may include the user's edited steps
+  app.patch("/api/messages/:id/plan", requireAuth, async (req: Request, res) => {
+    try {
+      const message = await storage.getMessage(req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      if (!(await checkProjectOwnership(message.projectId, req.userId!))) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      const plan = message.plan as Plan | null;
+      if (!plan || plan.status !== 'proposed') {
+        return res.status(400).json({ error: "No plan awaiting approval" });
+      }
+
+      const { status, steps } = req.body;
+      if (status !== 'approved' && status !== 'rejected') {
+        return res.status(400).json({ error: "Status must be approved or rejected" });
+      }
+
+      let updatedPlan: Plan = { ...plan, status };
+      if (status === 'approved' && steps) {
+        updatedPlan = { ...parseProposedPlan({ summary: plan.summary, steps }), status };
+      }
+
+      const updated = await storage.updateMessage(message.id, { plan: updatedPlan });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(400).json({ error: error.message });
+    }
+  });
+
+  // Roll the project's files back to their state right after this assistant message and continue
+  // the conversation from there. The later messages stay as a branch unless truncate is set.
+  app.post("/api/messages/:id/restore", requireAuth, async (req: Request, res) => {
+    try {
+      const message = await storage.getMessage(req.params.id);
+      if (!message || message.role !== 'assistant') {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const thread = message.threadId ? await getOwnedThread(message.threadId, req.userId!) : null;
+      if (!thread) {
+        return res.status(403).json({ error: "Forbidden: Access denied" });
+      }
+
+      if (getActiveRunForProject(message.projectId)) {
+        return res.status(409).json({ error: "Stop the agent before restoring a checkpoint" });
+      }
+
+      const messages = await getMessageTree(thread.id);
+      const result = await selectBranch(thread, messages, getActiveMessageId(thread, messages), message.id);
+      if (req.body.truncate === true) {
+        await storage.deleteMessageReplies(message.id);
+      }
+
+      res.json(result);
+    } catch (error: any) {
+      console.error('Checkpoint restore error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Switch to the branch through this message (following its newest replies); files follow
+  app.post("/api/messages/:id/select-branch", requireAuth, async (req: Request, res) => {
+    try {
+      const message = await storage.getMessage(req.params.id);
+      if (!message) {
+        return res.status(404).json({ error: "Message not found" });
+      }
+
+      const thread = message.threadId ? await getOwnedThread(message.threadId, req.userId!) : null;
+      if (!thread) {
         return res.status(403).json({ error: "Forbidden: Access denied" });
       }
 
-      const messages = await storage.getMessagesByProjectId(req.params.projectId);
-      res.json(messages);
+      if (getActiveRunForProject(message.projectId)) {
+        return res.status(409).json({ error: "Stop the agent before switching branches" });
+      }
+
+      const messages = await getMessageTree(thread.id);
+      const result = await selectBranch(
+        thread,
+        messages,
+        getActiveMessageId(thread, messages),
+        getLatestLeaf(messages, message.id)
+      );
+
+      res.json(result);
     } catch (error: any) {
+      console.error('Branch switch error:', error);
       res.status(500).json({ error: error.message });
     }
   });
 
   app.post("/api/messages/stream", requireAuth, async (req: Request, res) => {
+    // Set once the project's run slot is claimed, so a failed setup can release it
+    let claimedRunId: string | null = null;
     try {
-      const { projectId, content, attachments, enableReasoning } = req.body;
+      // mode "plan" asks for a plan to review; planMessageId executes a previously approved plan.
+      // editMessageId sends an edited copy of an earlier prompt and regenerateMessageId answers a
+      // reply's prompt again - both start a new branch next to the original.
+      const { projectId, threadId, content, enableReasoning, mode, planMessageId, editMessageId, regenerateMessageId } = req.body;
 
       if (!(await checkProjectOwnership(projectId, req.userId!))) {
         return res.status(403).json({ error: "Forbidden: Access denied" });
       }
 
-      // Set up SSE with keepalive
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
+      let reasoningBudget: number;
+      try {
+        reasoningBudget = parseReasoningBudget(req.body.reasoningBudget);
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message });
+      }
 
-      // Track if client is still connected
-      let clientConnected = true;
-      req.on('close', () => {
-        clientConnected = false;
-      });
+      let approvedPlan: Plan | null = null;
+      if (planMessageId) {
+        const planMessage = await storage.getMessage(planMessageId);
+        approvedPlan = planMessage && planMessage.projectId === projectId ? planMessage.plan as Plan | null : null;
+        if (approvedPlan?.status !== 'approved') {
+          return res.status(400).json({ error: "Plan not found or not approved" });
+        }
+      }
 
-      // Send keepalive pings every 15 seconds
-      const keepaliveInterval = setInterval(() => {
-        if (clientConnected) {
-          res.write(': keepalive\n\n');
-        } else {
-          clearInterval(keepaliveInterval);
+      // Without a threadId the project's most recent thread is used
+      const thread = threadId
+        ? await getOwnedThread(threadId, req.userId!)
+        : (await getProjectThreads(projectId)).find(t => !t.archivedAt) || null;
+      if (!thread || thread.projectId !== projectId) {
+        return res.status(404).json({ error: "Thread not found" });
+      }
+
+      // A new prompt continues the selected branch
+      const project = await storage.getProject(projectId);
+      const messageTree = await getMessageTree(thread.id);
+      const activeMessageId = getActiveMessageId(thread, messageTree);
+      let parentId = activeMessageId;
+      let attachments = req.body.attachments || null;
+      let regeneratedPrompt: StoredMessage | undefined;
+
+      if (regenerateMessageId) {
+        const reply = messageTree.find(msg => msg.id === regenerateMessageId && msg.role === 'assistant');
+        regeneratedPrompt = messageTree.find(msg => msg.id === reply?.parentId && msg.role === 'user');
+        if (!regeneratedPrompt) {
+          return res.status(400).json({ error: "Reply to regenerate not found" });
         }
-      }, 15000);
+      } else if (editMessageId) {
+        const editedMessage = messageTree.find(msg => msg.id === editMessageId && msg.role === 'user');
+        if (!editedMessage) {
+          return res.status(400).json({ error: "Message to edit not found" });
+        }
+        parentId = editedMessage.parentId;
+        attachments = attachments || editedMessage.attachments;
+      }
+
+      // One run per project at a time - a reloaded client reattaches to the active run instead.
+      // The run's events are buffered so a reloaded client can reattach, and it can be cancelled
+      // from POST /api/runs/:id/cancel.
+      const run = startRun(projectId, thread.id, req.userId!);
+      if (!run) {
+        return res.status(409).json({ error: "The agent is already working on this project" });
+      }
+      claimedRunId = run.id;
 
-      // Save user message with attachments
-      const userMessage = await storage.createMessage({
+      // Move the files to the point the new turn branches from, then save the prompt
+      await selectBranch(thread, messageTree, activeMessageId, regeneratedPrompt ? regeneratedPrompt.id : parentId);
+      const userMessage = regeneratedPrompt || await storage.createMessage({
         projectId,
+        threadId: thread.id,
+        parentId,
         role: "user",
         content,
-        attachments: attachments || null,
+        attachments,
+        tokenCount: countMessageTokens({ role: "user", content, toolCalls: null, attachments }),
       });
+      if (!regeneratedPrompt) {
+        await storage.updateThread(thread.id, {
+          activeMessageId: userMessage.id,
+          ...(messageTree.length === 0 && thread.title === DEFAULT_THREAD_TITLE && { title: titleFromPrompt(content) }),
+        });
+      }
 
       // Get sandbox status and preview state
       const sandboxStatus = await getSandboxStatus(projectId);
       const port3000Active = await checkSandboxPort(projectId, 3000);
-      const project = await storage.getProject(projectId);
 
       // Build sandbox context for AI
       let sandboxContext = '';
@@ -651,387 +1324,166 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Get previous messages for context
-      const previousMessages = await storage.getMessagesByProjectId(projectId);
-      const aiMessages = previousMessages.map(msg => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-        attachments: msg.attachments || undefined,
-      }));
-
-      // Add current user message with attachments and sandbox context
-      let userMessageWithContext = content;
+      // Add current user message with attachments, @-mentioned files and sandbox context
+      let userMessageWithContext = userMessage.content;
+      userMessageWithContext += await buildMentionContext(projectId, userMessage.content);
       
       // Add sandbox context
       if (sandboxContext) {
         userMessageWithContext += sandboxContext;
       }
-      
-      aiMessages.push({ 
+
+      const currentMessage: Message = {
         role: "user" as const, 
         content: userMessageWithContext,
-        attachments: attachments || undefined
-      });
+        attachments: (userMessage.attachments as MessageAttachment[] | null) || undefined
+      };
 
-      // Stream AI response
-      let fullResponse = "";
-      let fullThinking = "";
-      const toolCalls: any[] = [];
-      const actions: any[] = [];
+      // The agent's usage events carry the run's running total, kept so a failed run still records it
+      const runUsage = emptyUsage();
+      let usageRecorded = false;
+      const sendEvent = (event: AgentEvent) => {
+        if (event.type === 'usage') Object.assign(runUsage, event.usage);
+        publishRunEvent(run, event);
+      };
+      attachRunStream(res, run, 0);
+      sendEvent({ type: 'run_started', runId: run.id, threadId: thread.id });
 
       try {
-        // Use chatWithAIStream with reasoning mode support
-        for await (const chunk of chatWithAIStream(aiMessages, SYSTEM_PROMPT, enableReasoning || false, 4096)) {
-          if (chunk.type === 'text') {
-            fullResponse += chunk.content;
-            // Only send to client if still connected
-            if (clientConnected) {
-              res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk.content })}\n\n`);
-            }
-          } else if (chunk.type === 'thinking') {
-            fullThinking += chunk.content || "";
-            // Send thinking chunks to client in real-time
-            if (clientConnected) {
-              res.write(`data: ${JSON.stringify({ type: 'thinking', content: chunk.content })}\n\n`);
-            }
-          } else if (chunk.type === 'action') {
-            // Track actions and send to client in real-time
-            actions.push(chunk.data);
-            if (clientConnected) {
-              res.write(`data: ${JSON.stringify({ type: 'action', action: chunk.data })}\n\n`);
-            }
-          } else if (chunk.type === 'tool_call') {
-            const { name: toolName, arguments: args } = chunk.data;
-            let toolResult: any = null;
-
-            // Send tool_start event to show loading state
-            const startSummary = getToolCallSummary(toolName, args);
-            if (clientConnected) {
-              res.write(`data: ${JSON.stringify({ type: 'tool_start', name: toolName, summary: startSummary })}\n\n`);
-            }
+        const { provider, model } = resolveProjectModel(project);
+        const basePrompt = SYSTEM_PROMPT + formatInstructionsSection(project?.instructions);
 
-            // Execute tool calls
-            try {
-              if (toolName === 'create_boilerplate') {
-                const { type } = args;
-                
-                if (!['react-vite', 'node-express'].includes(type)) {
-                  throw new Error(`Invalid boilerplate type: ${type}`);
-                }
-
-                const { createBoilerplateProject } = await import('./lib/boilerplate');
-                await createBoilerplateProject(projectId, type as 'react-vite' | 'node-express');
-                
-                const summary = `Created ${type} boilerplate`;
-                toolCalls.push({ name: toolName, arguments: args, summary });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'write_file') {
-                const { path, content } = args;
-
-                // Block AI from creating vite.config files
-                if (path.match(/vite\.config\.(js|ts|mjs|cjs)$/i)) {
-                  const summary = `Skipped ${path} (pre-configured in boilerplate)`;
-                  toolCalls.push({ name: toolName, arguments: args, summary });
-                  if (clientConnected) {
-                    res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                  }
-                  continue;
-                }
-
-                // Upload to S3
-                const s3Key = await uploadFileToS3(projectId, path, content);
-
-                // Write to E2B sandbox
-                await writeFileToSandbox(projectId, path, content);
-
-                // Save to database
-                const existingFile = await storage.getFileByPath(projectId, path);
-                if (existingFile) {
-                  await storage.updateFile(existingFile.id, {
-                    s3Key,
-                    size: Buffer.byteLength(content, 'utf-8'),
-                  });
-                } else {
-                  await storage.createFile({
-                    projectId,
-                    path,
-                    s3Key,
-                    size: Buffer.byteLength(content, 'utf-8'),
-                  });
-                }
-
-                const summary = `Created ${path}`;
-                toolCalls.push({ name: toolName, arguments: args, summary });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'edit_file') {
-                const { path, old_str, new_str } = args;
-
-                // Block AI from editing vite.config files
-                if (path.match(/vite\.config\.(js|ts|mjs|cjs)$/i)) {
-                  const summary = `Skipped editing ${path} (pre-configured in boilerplate)`;
-                  toolCalls.push({ name: toolName, arguments: args, summary });
-                  if (clientConnected) {
-                    res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                  }
-                  continue;
-                }
-
-                // Get existing file
-                const existingFile = await storage.getFileByPath(projectId, path);
-                if (!existingFile) {
-                  throw new Error(`File not found: ${path}`);
-                }
-
-                // Get current content from S3
-                const currentContent = await getFileFromS3(existingFile.s3Key);
-
-                // Apply edit
-                const fileContent = currentContent.replace(old_str, new_str);
-
-                // Upload to S3
-                const s3Key = await uploadFileToS3(projectId, path, fileContent);
-
-                // Write to E2B sandbox
-                await writeFileToSandbox(projectId, path, fileContent);
-                
-                const summary = `Edited ${path}`;
-                toolCalls.push({ name: toolName, arguments: args, summary });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'delete_file') {
-                const { path } = args;
-
-                // Block AI from deleting vite.config files
-                if (path.match(/vite\.config\.(js|ts|mjs|cjs)$/i)) {
-                  const summary = `Skipped deleting ${path} (required system file)`;
-                  toolCalls.push({ name: toolName, arguments: args, summary });
-                  if (clientConnected) {
-                    res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                  }
-                  continue;
-                }
-
-                let deletionStatus = { s3: false, sandbox: false, database: false };
-                let summary = `Deleted ${path}`;
-                const errors: string[] = [];
-
-                // Find file in database
-                const existingFile = await storage.getFileByPath(projectId, path);
-
-                if (existingFile) {
-                  // Delete from S3
-                  try {
-                    await deleteFileFromS3(existingFile.s3Key);
-                    deletionStatus.s3 = true;
-                  } catch (error: any) {
-                    console.error('Failed to delete file from S3:', error);
-                    errors.push(`S3: ${error.message}`);
-                  }
-
-                  // Delete from E2B sandbox
-                  const sandboxDeletion = await deleteFileFromSandbox(projectId, path);
-                  deletionStatus.sandbox = sandboxDeletion.success;
-                  if (!sandboxDeletion.success && sandboxDeletion.error) {
-                    console.error('Failed to delete file from sandbox:', sandboxDeletion.error);
-                    errors.push(`Sandbox: ${sandboxDeletion.error}`);
-                  }
-
-                  // Delete from database - only if at least one of the above succeeded
-                  if (deletionStatus.s3 || deletionStatus.sandbox) {
-                    try {
-                      await storage.deleteFile(existingFile.id);
-                      deletionStatus.database = true;
-                    } catch (error: any) {
-                      console.error('Failed to delete file from database:', error);
-                      errors.push(`Database: ${error.message}`);
-                    }
-                  }
-
-                  // Update summary based on results
-                  if (errors.length > 0) {
-                    summary = `Partially deleted ${path} (${errors.join(', ')})`;
-                  }
-                } else {
-                  summary = `File ${path} not found in database`;
-                }
-
-                toolCalls.push({ name: toolName, arguments: args, summary, result: deletionStatus });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'list_files') {
-                // List all files in the project
-                const files = await storage.getFilesByProjectId(projectId);
-                const fileList = files.map(f => ({
-                  path: f.path,
-                  size: f.size,
-                  mimeType: f.mimeType,
-                }));
-
-                const summary = `Listed ${files.length} files`;
-                toolCalls.push({ name: toolName, arguments: args, summary, result: fileList });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'read_file') {
-                const { path } = args;
-
-                // Get file from database
-                const existingFile = await storage.getFileByPath(projectId, path);
-                if (!existingFile) {
-                  throw new Error(`File not found: ${path}`);
-                }
-
-                // Read content from S3
-                const content = await getFileFromS3(existingFile.s3Key);
-
-                const summary = `Read ${path} (${content.length} characters)`;
-                toolCalls.push({ name: toolName, arguments: args, summary, result: { content, path } });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'run_shell') {
-                const { command } = args;
-
-                // Check if this is a long-running server command
-                const isServerCommand = command.includes('python -m http.server') || 
-                                       command.includes('npm start') || 
-                                       command.includes('npm run dev') ||
-                                       command.includes('node ') ||
-                                       command.match(/python\s+.*\.py/) ||
-                                       command.includes('flask run') ||
-                                       command.includes('streamlit run');
-
-                if (isServerCommand) {
-                  // For server commands, start in background and don't wait
-                  executeShellCommand(projectId, command).catch(err => 
-                    console.error('Background command error:', err)
-                  );
-
-                  // Save workflow command for auto-restart on sandbox recreation
-                  await storage.updateProject(projectId, {
-                    workflowCommand: command
-                  });
-
-                  const summary = `Started: ${command}`;
-                  toolCalls.push({ name: toolName, arguments: args, summary, result: { 
-                    stdout: 'Server started in background',
-                    stderr: '',
-                    exitCode: 0
-                  }});
-                  if (clientConnected) {
-                    res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                  }
-                } else {
-                  // For regular commands, wait for completion with timeout
-                  const result = await Promise.race([
-                    executeShellCommand(projectId, command),
-                    new Promise<any>((_, reject) => 
-                      setTimeout(() => reject(new Error('Command timeout')), 10000)
-                    )
-                  ]).catch(err => ({
-                    stdout: '',
-                    stderr: err.message === 'Command timeout' ? 'Command timed out (running in background)' : err.message,
-                    exitCode: err.message === 'Command timeout' ? 0 : 1
-                  }));
-
-                  const summary = `Ran shell: ${command}`;
-                  toolCalls.push({ name: toolName, arguments: args, summary, result });
-                  if (clientConnected) {
-                    res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                  }
-                }
-              } else if (toolName === 'run_code') {
-                const { code, language } = args;
-                const result = await executeCode(projectId, code, language);
-                const summary = `Executed ${language} code`;
-                toolCalls.push({ name: toolName, arguments: args, summary, result });
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              } else if (toolName === 'configure_workflow') {
-                const { command } = args;
-
-                // Save workflow command for auto-restart
-                await storage.updateProject(projectId, {
-                  workflowCommand: command
-                });
-
-                const summary = `Configured workflow: ${command}`;
-                toolCalls.push({ name: toolName, arguments: args, summary, result: { 
-                  command,
-                  message: 'Workflow command saved. Will auto-run on sandbox restart and available via manual run button.'
-                }});
-                if (clientConnected) {
-                  res.write(`data: ${JSON.stringify({ type: 'tool_complete', name: toolName, summary })}\n\n`);
-                }
-              }
-            } catch (toolError: any) {
-              console.error(`Tool execution error (${toolName}):`, toolError);
-              if (clientConnected) {
-                res.write(`data: ${JSON.stringify({ type: 'error', message: toolError.message })}\n\n`);
-              }
-            }
-          }
+        // Fit the branch before the prompt into the model's context window (the current message is added last).
+        // Reserve room for the system prompt, the current message and the response.
+        const history = await buildConversationContext({
+          projectId,
+          userId: req.userId!,
+          messages: getBranchPath(messageTree, userMessage.parentId),
+          provider,
+          model,
+          reservedTokens: estimateTokens(basePrompt) + estimateMessageTokens(currentMessage) + 8192 + (enableReasoning ? reasoningBudget : 0),
+          enableReasoning: enableReasoning || false,
+        });
+        const aiMessages: Message[] = [...history.messages, currentMessage];
+        let systemPrompt = history.summary ? basePrompt + formatSummarySection(history.summary) : basePrompt;
+
+        // Plan mode: read-only tools plus propose_plan, which ends the run.
+        // Executing an approved plan: all tools plus update_plan_step to track progress.
+        let tools: ToolDefinition[] | undefined;
+        const localTools: LocalTool[] = [];
+        let proposedPlan: Plan | null = null;
+
+        if (approvedPlan) {
+          const sendPlanSteps = (plan: Plan) => sendEvent({ type: 'plan_steps', planMessageId, actions: planToActions(plan) });
+          systemPrompt += formatApprovedPlan(approvedPlan);
+          localTools.push(createPlanStepTool(approvedPlan, sendPlanSteps));
+          sendPlanSteps(approvedPlan);
+        } else if (mode === 'plan') {
+          systemPrompt += PLAN_MODE_PROMPT;
+          tools = PLAN_MODE_TOOLS;
+          localTools.push(createProposePlanTool(plan => { proposedPlan = plan; }));
         }
 
-        // Mark all actions as completed after streaming finishes
-        const completedActions = actions.map(action => ({
-          ...action,
-          status: 'completed' as const
-        }));
+        // Run the agent loop with reasoning mode support.
+        // With a verify command, edits are checked when the model finishes and errors are sent back to fix.
+        const checkpointRecorder = createCheckpointRecorder(projectId);
+        const verifier = project?.verifyCommand && mode !== 'plan'
+          ? createVerifier(projectId, project.verifyCommand, sendEvent, run.controller.signal)
+          : null;
+        const result = await runAgent({
+          projectId,
+          provider,
+          model,
+          messages: aiMessages,
+          systemPrompt,
+          enableReasoning: enableReasoning || false,
+          reasoningBudget,
+          tools,
+          localTools,
+          authorizeToolCall: createToolAuthorizer(getToolPolicy(project), run),
+          beforeToolCall: checkpointRecorder.beforeToolCall,
+          verifyChanges: verifier?.verifyChanges,
+          signal: run.controller.signal,
+          emit: sendEvent,
+        });
+        const { toolCalls, actions, status } = result;
+        if (status === 'failed') {
+          console.error('Streaming error:', result.error);
+        }
 
         // Send final action status updates to client
-        if (clientConnected && completedActions.length > 0) {
-          res.write(`data: ${JSON.stringify({ type: 'actions_completed', actions: completedActions })}\n\n`);
+        if (actions.length > 0) {
+          sendEvent({ type: 'actions_completed', actions: actions.map(action => ({ ...action, status: 'completed' as const })) });
         }
 
-        // Save assistant message with tool calls and completed actions (even if client disconnected)
-        await storage.createMessage({
+        // Save assistant message with tool calls and completed actions (even if client disconnected).
+        // A cancelled or failed run keeps its partial response, so the files it changed can be restored.
+        await saveAgentReply({
           projectId,
-          role: "assistant",
-          content: fullResponse,
-          toolCalls: toolCalls.length > 0 ? toolCalls : null,
-          actions: completedActions.length > 0 ? completedActions : null,
+          threadId: thread.id,
+          userId: req.userId!,
+          parentId: userMessage.id,
+          provider,
+          model,
+          result,
+          plan: proposedPlan,
+          verification: verifier?.getResult() ?? null,
+          checkpointRecorder,
         });
+        usageRecorded = true;
+
+        // Save step progress on the plan message; it stays approved (and can be re-run) unless the run finished
+        if (approvedPlan) {
+          await storage.updateMessage(planMessageId, {
+            plan: { ...approvedPlan, status: status === 'completed' ? 'completed' : 'approved' },
+          });
+        }
 
         // Auto-run workflow command if it exists and any file changes were made
-        const project = await storage.getProject(projectId);
-        if (project?.workflowCommand && toolCalls.length > 0) {
+        const currentProject = await storage.getProject(projectId);
+        if (status === 'completed' && currentProject?.workflowCommand && toolCalls.length > 0) {
           const hasFileChanges = toolCalls.some(tc => 
-            ['write_file', 'edit_file', 'create_boilerplate'].includes(tc.name)
+            ['write_file', 'edit_file', 'apply_patch', 'create_boilerplate'].includes(tc.name)
           );
           
           if (hasFileChanges) {
-            console.log(`Auto-running workflow command: ${project.workflowCommand}`);
+            console.log(`Auto-running workflow command: ${currentProject.workflowCommand}`);
             // Run workflow command in background after file changes
-            executeShellCommand(projectId, project.workflowCommand).catch(err => 
+            startProcess(projectId, currentProject.workflowCommand, 'workflow').catch(err => 
               console.error('Auto-run workflow command error:', err)
             );
           }
         }
 
-        clearInterval(keepaliveInterval);
-
-        if (clientConnected) {
-          res.write(`data: ${JSON.stringify({ type: 'done' })}\n\n`);
-          res.end();
+        if (status === 'failed') {
+          sendEvent({ type: 'error', message: result.error });
         }
+        sendEvent({ type: 'done' });
       } catch (error: any) {
         console.error('Streaming error:', error);
-        clearInterval(keepaliveInterval);
-        if (clientConnected) {
-          res.write(`data: ${JSON.stringify({ type: 'error', message: error.message })}\n\n`);
-          res.end();
+        // Turns that finished before the failure were still billed
+        if (!usageRecorded && runUsage.inputTokens + runUsage.outputTokens > 0) {
+          const { provider, model } = resolveProjectModel(project);
+          await recordUsage({ userId: req.userId!, projectId, kind: 'chat', provider, model, usage: runUsage })
+            .catch(usageError => console.error('Failed to record usage of a failed run:', usageError));
         }
+        sendEvent({ type: 'error', message: error.message });
+      } finally {
+        finishRun(run.id);
       }
     } catch (error: any) {
       console.error('Stream setup error:', error);
+      if (claimedRunId) {
+        finishRun(claimedRunId);
+      }
+      // Once the run stream is attached the response is SSE, so the error goes out as an event
+      if (res.headersSent) {
+        if (!res.writableEnded) {
+          res.write(`data: ${JSON.stringify({ type: 'error', message: error.message })}\n\n`);
+          res.end();
+        }
+        return;
+      }
       res.status(500).json({ error: error.message });
     }
   });
@@ -1,13 +1,29 @@
 // Database storage implementation - referenced from javascript_database blueprint
 import { 
-  users, projects, messages, files,
+  users, projects, threads, messages, files, conversationSummaries, tokenUsage, checkpoints, checkpointFiles,
   type User, type InsertUser,
   type Project, type InsertProject, type UpdateProject,
+  type Thread, type InsertThread, type UpdateThread,
   type Message, type InsertMessage,
-  type File, type InsertFile, type UpdateFile
+  type File, type InsertFile, type UpdateFile,
+  type ConversationSummary, type InsertConversationSummary,
+  type UsageRecord, type InsertUsageRecord, type UsageTotals,
+  type Checkpoint, type InsertCheckpoint,
+  type CheckpointFile, type InsertCheckpointFile
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and } from "drizzle-orm";
+import { eq, desc, and, inArray, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
+
+// Column aggregates shared by the usage queries
+const usageTotalsColumns = {
+  inputTokens: sql<number>`coalesce(sum(${tokenUsage.inputTokens}), 0)`.mapWith(Number),
+  outputTokens: sql<number>`coalesce(sum(${tokenUsage.outputTokens}), 0)`.mapWith(Number),
+  thinkingTokens: sql<number>`coalesce(sum(${tokenUsage.thinkingTokens}), 0)`.mapWith(Number),
+  cacheReadTokens: sql<number>`coalesce(sum(${tokenUsage.cacheReadTokens}), 0)`.mapWith(Number),
+  cacheWriteTokens: sql<number>`coalesce(sum(${tokenUsage.cacheWriteTokens}), 0)`.mapWith(Number),
+  costUsd: sql<number>`coalesce(sum(${tokenUsage.costUsd}), 0)`.mapWith(Number),
+  requests: sql<number>`count(*)`.mapWith(Number),
+};
 
 export interface IStorage {
   // Users
@@ -31,9 +47,39 @@ export interface IStorage {
   deleteFile(id: string): Promise<void>;
   deleteFilesByProjectId(projectId: string): Promise<void>;
   
+  // Threads
+  getThread(id: string): Promise<Thread | undefined>;
+  getThreadsByProjectId(projectId: string): Promise<Thread[]>;
+  createThread(thread: InsertThread): Promise<Thread>;
+  createFirstThread(projectId: string, title: string): Promise<Thread | null>;
+  updateThread(id: string, thread: UpdateThread): Promise<Thread>;
+
   // Messages
-  getMessagesByProjectId(projectId: string): Promise<Message[]>;
+  getMessage(id: string): Promise<Message | undefined>;
+  getMessagesByThreadId(threadId: string): Promise<Message[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  updateMessage(id: string, message: Partial<InsertMessage>): Promise<Message>;
+  deleteMessageReplies(messageId: string): Promise<void>;
+  
+  // Conversation summaries
+  getLatestConversationSummary(projectId: string, lastMessageIds: string[]): Promise<ConversationSummary | undefined>;
+  createConversationSummary(summary: InsertConversationSummary): Promise<ConversationSummary>;
+
+  // Checkpoints
+  createCheckpoint(checkpoint: InsertCheckpoint): Promise<Checkpoint>;
+  updateCheckpoint(id: string, checkpoint: Partial<InsertCheckpoint>): Promise<Checkpoint>;
+  createCheckpointFile(file: InsertCheckpointFile): Promise<CheckpointFile>;
+  updateCheckpointFile(id: string, file: Partial<InsertCheckpointFile>): Promise<CheckpointFile>;
+  getCheckpointsByMessageIds(messageIds: string[]): Promise<Checkpoint[]>;
+  getCheckpointFiles(checkpointIds: string[]): Promise<CheckpointFile[]>;
+
+  // Token usage
+  createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord>;
+  getUsageTotalsByUserId(userId: string): Promise<UsageTotals>;
+  getUsageTotalsByProjectId(projectId: string): Promise<UsageTotals>;
+  getProjectUsageByUserId(userId: string): Promise<Array<UsageTotals & { projectId: string | null }>>;
+  getModelUsageByProjectId(projectId: string): Promise<Array<UsageTotals & { provider: string; model: string }>>;
+  getMessageUsageByProjectId(projectId: string): Promise<Array<UsageTotals & { messageId: string | null }>>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -145,15 +191,79 @@ export class DatabaseStorage implements IStorage {
     await db.delete(files).where(eq(files.projectId, projectId));
   }
 
+  // Threads
+  async getThread(id: string): Promise<Thread | undefined> {
+    const [thread] = await db.select().from(threads).where(eq(threads.id, id));
+    return thread || undefined;
+  }
+
+  // Most recently active first, including archived threads
+  async getThreadsByProjectId(projectId: string): Promise<Thread[]> {
+    return await db
+      .select()
+      .from(threads)
+      .where(eq(threads.projectId, projectId))
+      .orderBy(desc(threads.updatedAt));
+  }
+
+  async createThread(thread: InsertThread): Promise<Thread> {
+    const [newThread] = await db
+      .insert(threads)
+      .values(thread)
+      .returning();
+    return newThread;
+  }
+
+  async updateThread(id: string, thread: UpdateThread): Promise<Thread> {
+    const [updatedThread] = await db
+      .update(threads)
+      .set({ ...thread, updatedAt: new Date() })
+      .where(eq(threads.id, id))
+      .returning();
+    return updatedThread;
+  }
+
   // Messages
-  async getMessagesByProjectId(projectId: string): Promise<Message[]> {
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message || undefined;
+  }
+
+  async getMessagesByThreadId(threadId: string): Promise<Message[]> {
     return await db
       .select()
       .from(messages)
-      .where(eq(messages.projectId, projectId))
+      .where(eq(messages.threadId, threadId))
       .orderBy(messages.createdAt);
   }
 
+  // Create a project's first thread and move messages saved before threads existed into it.
+  // Returns null if the project already has a thread. A per-project lock keeps concurrent calls
+  // from creating two.
+  async createFirstThread(projectId: string, title: string): Promise<Thread | null> {
+    return await db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${projectId}))`);
+
+      const [existing] = await tx.select({ id: threads.id }).from(threads).where(eq(threads.projectId, projectId)).limit(1);
+      if (existing) {
+        return null;
+      }
+
+      const [thread] = await tx.insert(threads).values({ projectId }).returning();
+      const moved = await tx
+        .update(messages)
+        .set({ threadId: thread.id })
+        .where(and(eq(messages.projectId, projectId), isNull(messages.threadId)))
+        .returning({ id: messages.id });
+      if (moved.length === 0) {
+        return thread;
+      }
+
+      const [renamed] = await tx.update(threads).set({ title }).where(eq(threads.id, thread.id)).returning();
+      return renamed;
+    });
+  }
+
   async createMessage(message: InsertMessage): Promise<Message> {
     const [newMessage] = await db
       .insert(messages)
@@ -161,6 +271,144 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return newMessage;
   }
+
+  async updateMessage(id: string, message: Partial<InsertMessage>): Promise<Message> {
+    const [updated] = await db
+      .update(messages)
+      .set(message)
+      .where(eq(messages.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Deleting the direct replies removes their whole subtree (parent_id cascades)
+  async deleteMessageReplies(messageId: string): Promise<void> {
+    await db.delete(messages).where(eq(messages.parentId, messageId));
+  }
+
+  // Conversation summaries
+  // Newest summary ending at one of the given messages (the current branch)
+  async getLatestConversationSummary(projectId: string, lastMessageIds: string[]): Promise<ConversationSummary | undefined> {
+    if (lastMessageIds.length === 0) return undefined;
+    const [summary] = await db
+      .select()
+      .from(conversationSummaries)
+      .where(and(
+        eq(conversationSummaries.projectId, projectId),
+        inArray(conversationSummaries.lastMessageId, lastMessageIds)
+      ))
+      .orderBy(desc(conversationSummaries.createdAt))
+      .limit(1);
+    return summary || undefined;
+  }
+
+  async createConversationSummary(summary: InsertConversationSummary): Promise<ConversationSummary> {
+    const [newSummary] = await db
+      .insert(conversationSummaries)
+      .values(summary)
+      .returning();
+    return newSummary;
+  }
+
+  // Checkpoints
+  async createCheckpoint(checkpoint: InsertCheckpoint): Promise<Checkpoint> {
+    const [newCheckpoint] = await db
+      .insert(checkpoints)
+      .values(checkpoint)
+      .returning();
+    return newCheckpoint;
+  }
+
+  async updateCheckpoint(id: string, checkpoint: Partial<InsertCheckpoint>): Promise<Checkpoint> {
+    const [updated] = await db
+      .update(checkpoints)
+      .set(checkpoint)
+      .where(eq(checkpoints.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createCheckpointFile(file: InsertCheckpointFile): Promise<CheckpointFile> {
+    const [newFile] = await db
+      .insert(checkpointFiles)
+      .values(file)
+      .returning();
+    return newFile;
+  }
+
+  async updateCheckpointFile(id: string, file: Partial<InsertCheckpointFile>): Promise<CheckpointFile> {
+    const [updated] = await db
+      .update(checkpointFiles)
+      .set(file)
+      .where(eq(checkpointFiles.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getCheckpointsByMessageIds(messageIds: string[]): Promise<Checkpoint[]> {
+    if (messageIds.length === 0) return [];
+    return await db
+      .select()
+      .from(checkpoints)
+      .where(inArray(checkpoints.messageId, messageIds));
+  }
+
+  async getCheckpointFiles(checkpointIds: string[]): Promise<CheckpointFile[]> {
+    if (checkpointIds.length === 0) return [];
+    return await db
+      .select()
+      .from(checkpointFiles)
+      .where(inArray(checkpointFiles.checkpointId, checkpointIds));
+  }
+
+  // Token usage
+  async createUsageRecord(record: InsertUsageRecord): Promise<UsageRecord> {
+    const [newRecord] = await db
+      .insert(tokenUsage)
+      .values(record)
+      .returning();
+    return newRecord;
+  }
+
+  private async getUsageTotals(where: SQL): Promise<UsageTotals> {
+    const [totals] = await db
+      .select(usageTotalsColumns)
+      .from(tokenUsage)
+      .where(where);
+    return totals;
+  }
+
+  async getUsageTotalsByUserId(userId: string): Promise<UsageTotals> {
+    return this.getUsageTotals(eq(tokenUsage.userId, userId));
+  }
+
+  async getUsageTotalsByProjectId(projectId: string): Promise<UsageTotals> {
+    return this.getUsageTotals(eq(tokenUsage.projectId, projectId));
+  }
+
+  async getProjectUsageByUserId(userId: string): Promise<Array<UsageTotals & { projectId: string | null }>> {
+    return await db
+      .select({ projectId: tokenUsage.projectId, ...usageTotalsColumns })
+      .from(tokenUsage)
+      .where(eq(tokenUsage.userId, userId))
+      .groupBy(tokenUsage.projectId);
+  }
+
+  async getModelUsageByProjectId(projectId: string): Promise<Array<UsageTotals & { provider: string; model: string }>> {
+    return await db
+      .select({ provider: tokenUsage.provider, model: tokenUsage.model, ...usageTotalsColumns })
+      .from(tokenUsage)
+      .where(eq(tokenUsage.projectId, projectId))
+      .groupBy(tokenUsage.provider, tokenUsage.model);
+  }
+
+  async getMessageUsageByProjectId(projectId: string): Promise<Array<UsageTotals & { messageId: string | null }>> {
+    return await db
+      .select({ messageId: tokenUsage.messageId, ...usageTotalsColumns })
+      .from(tokenUsage)
+      .where(and(eq(tokenUsage.projectId, projectId), isNotNull(tokenUsage.messageId)))
+      .groupBy(tokenUsage.messageId);
+  }
 }
 
 export const storage = new DatabaseStorage();
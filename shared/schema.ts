@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, jsonb, integer, doublePrecision, boolean, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -23,6 +23,12 @@ export const projects = pgTable("projects", {
   sandboxId: text("sandbox_id"), // E2B sandbox ID
   sandboxUrl: text("sandbox_url"), // E2B sandbox preview URL
   workflowCommand: text("workflow_command"), // Command to run when sandbox is created (e.g., "npm run dev")
+  llmProvider: text("llm_provider"), // Selected LLM provider ID (e.g., "bedrock", "gemini"), null for the default
+  llmModel: text("llm_model"), // Selected model ID for the provider, null for the provider default
+  toolPolicy: jsonb("tool_policy"), // Per-tool and per-command approval rules (ToolPolicy), null for the defaults
+  instructions: text("instructions"), // Project instructions for the agent, appended to its system prompt
+  verifyCommand: text("verify_command"), // Type-check/lint/build command run after agent edits, null to skip verification
+  thumbnailUrl: text("thumbnail_url"), // Latest preview screenshot taken by the agent, shown on the projects page
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -39,18 +45,85 @@ export const files = pgTable("files", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Chat threads - separate conversations within a project, all working on the same files
+export const threads = pgTable("threads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  title: text("title").notNull().default("New chat"),
+  activeMessageId: varchar("active_message_id"), // Last message of the selected conversation branch, null for the newest message
+  archivedAt: timestamp("archived_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Chat messages table
 export const messages = pgTable("messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  threadId: varchar("thread_id").references(() => threads.id, { onDelete: "cascade" }), // null only for messages saved before threads existed
+  parentId: varchar("parent_id").references((): AnyPgColumn => messages.id, { onDelete: "cascade" }), // Previous message in its branch, null for the first message
   role: text("role").notNull(), // 'user' or 'assistant'
   content: text("content").notNull(),
   toolCalls: jsonb("tool_calls"), // AI tool calls metadata
   actions: jsonb("actions"), // Real-time action steps the AI performs
-  attachments: jsonb("attachments"), // Image/file attachments (URLs to S3)
+  attachments: jsonb("attachments"), // MessageAttachment[] - image URLs and uploaded files in S3
+  tokenCount: integer("token_count"), // Estimated tokens this message takes up in the model context
+  status: text("status").notNull().default("completed"), // 'completed', 'cancelled' (partial response stopped by the user) or 'failed' (partial response cut off by an error)
+  plan: jsonb("plan"), // Plan proposed in plan mode, with its approval status and step progress
+  verification: jsonb("verification"), // VerificationResult of the last check run after the turn's edits
+  thinking: text("thinking"), // Extended-thinking text of the run, shown collapsed in the chat
+  thinkingBlocks: jsonb("thinking_blocks"), // SavedThinkingBlocks: signed blocks of the final turn, sent back on the next run
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Conversation summaries - older chat turns compacted to keep the model context within budget
+export const conversationSummaries = pgTable("conversation_summaries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  lastMessageId: varchar("last_message_id").notNull(), // Newest message covered by this summary
+  tokenCount: integer("token_count").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Token usage - one row per model run (chat turn or conversation summary) for cost accounting.
+// Rows outlive deleted projects so per-user totals stay accurate.
+export const tokenUsage = pgTable("token_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "set null" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "set null" }), // Assistant message the usage belongs to
+  kind: text("kind").notNull().default("chat"), // 'chat' or 'summary'
+  provider: text("provider").notNull(),
+  model: text("model").notNull(),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0), // Includes thinking tokens
+  thinkingTokens: integer("thinking_tokens").notNull().default(0),
+  cacheReadTokens: integer("cache_read_tokens").notNull().default(0),
+  cacheWriteTokens: integer("cache_write_tokens").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Checkpoints - content of the files an agent turn changed, before and after the turn, so the
+// project's files can follow the selected conversation branch
+export const checkpoints = pgTable("checkpoints", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  messageId: varchar("message_id").references(() => messages.id, { onDelete: "cascade" }), // Assistant message of the turn, set when the turn is saved
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const checkpointFiles = pgTable("checkpoint_files", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkpointId: varchar("checkpoint_id").notNull().references(() => checkpoints.id, { onDelete: "cascade" }),
+  path: text("path").notNull(),
+  beforeContent: text("before_content"), // null when the file did not exist before the turn
+  afterContent: text("after_content"), // null when the file did not exist after the turn
+  binary: boolean("binary").notNull().default(false), // before/after content is base64 (images and other non-UTF-8 files)
+  mimeType: text("mime_type"),
+});
+
 // Relations
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
@@ -62,7 +135,11 @@ export const projectsRelations = relations(projects, ({ one, many }) => ({
     references: [users.id],
   }),
   files: many(files),
+  threads: many(threads),
   messages: many(messages),
+  conversationSummaries: many(conversationSummaries),
+  tokenUsage: many(tokenUsage),
+  checkpoints: many(checkpoints),
 }));
 
 export const filesRelations = relations(files, ({ one }) => ({
@@ -72,11 +149,68 @@ export const filesRelations = relations(files, ({ one }) => ({
   }),
 }));
 
+export const threadsRelations = relations(threads, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [threads.projectId],
+    references: [projects.id],
+  }),
+  messages: many(messages),
+}));
+
 export const messagesRelations = relations(messages, ({ one }) => ({
   project: one(projects, {
     fields: [messages.projectId],
     references: [projects.id],
   }),
+  thread: one(threads, {
+    fields: [messages.threadId],
+    references: [threads.id],
+  }),
+  parent: one(messages, {
+    fields: [messages.parentId],
+    references: [messages.id],
+  }),
+}));
+
+export const conversationSummariesRelations = relations(conversationSummaries, ({ one }) => ({
+  project: one(projects, {
+    fields: [conversationSummaries.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const tokenUsageRelations = relations(tokenUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [tokenUsage.userId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [tokenUsage.projectId],
+    references: [projects.id],
+  }),
+  message: one(messages, {
+    fields: [tokenUsage.messageId],
+    references: [messages.id],
+  }),
+}));
+
+export const checkpointsRelations = relations(checkpoints, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [checkpoints.projectId],
+    references: [projects.id],
+  }),
+  message: one(messages, {
+    fields: [checkpoints.messageId],
+    references: [messages.id],
+  }),
+  files: many(checkpointFiles),
+}));
+
+export const checkpointFilesRelations = relations(checkpointFiles, ({ one }) => ({
+  checkpoint: one(checkpoints, {
+    fields: [checkpointFiles.checkpointId],
+    references: [checkpoints.id],
+  }),
 }));
 
 // Insert schemas
@@ -96,13 +230,39 @@ export const insertFileSchema = createInsertSchema(files).omit({
   updatedAt: true,
 });
 
+export const insertThreadSchema = createInsertSchema(threads).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertMessageSchema = createInsertSchema(messages).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertConversationSummarySchema = createInsertSchema(conversationSummaries).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTokenUsageSchema = createInsertSchema(tokenUsage).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCheckpointSchema = createInsertSchema(checkpoints).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCheckpointFileSchema = createInsertSchema(checkpointFiles).omit({
+  id: true,
+});
+
 export const updateProjectSchema = insertProjectSchema.partial();
 export const updateFileSchema = insertFileSchema.partial();
+export const updateThreadSchema = insertThreadSchema.partial();
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -116,5 +276,124 @@ export type File = typeof files.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type UpdateFile = z.infer<typeof updateFileSchema>;
 
+export type Thread = typeof threads.$inferSelect;
+export type InsertThread = z.infer<typeof insertThreadSchema>;
+export type UpdateThread = z.infer<typeof updateThreadSchema>;
+
 export type Message = typeof messages.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
+
+// Chat attachment - a plain URL string is an image; other uploads carry their kind.
+// ZIP archives keep a listing of their entries and where they were extracted, if anywhere.
+export type FileAttachmentKind = 'text' | 'pdf' | 'zip';
+
+export interface FileAttachment {
+  kind: FileAttachmentKind;
+  url: string;
+  name: string;
+  mimeType: string;
+  size: number; // Bytes
+  listing?: string;
+  extractedTo?: string;
+}
+
+export type MessageAttachment = string | FileAttachment;
+
+// Result of running the project's verify command (type-check, lint or build) after agent edits
+export interface VerificationDiagnostic {
+  path?: string;
+  line?: number;
+  column?: number;
+  severity: 'error' | 'warning';
+  message: string;
+  code?: string; // e.g. TS2322 or an ESLint rule
+}
+
+export interface VerificationResult {
+  command: string;
+  status: 'passed' | 'failed' | 'error'; // error: the command could not run
+  exitCode: number;
+  diagnostics: VerificationDiagnostic[];
+  output: string; // End of the command output
+  durationMs: number;
+  attempt: number; // 1 for the first check, higher after each self-fix
+  willRetry: boolean; // The errors were sent back to the agent to fix
+}
+
+// Thinking blocks must be passed back unchanged when continuing a tool-use turn
+export type ThinkingBlock =
+  | { type: "thinking"; thinking: string; signature: string }
+  | { type: "redacted_thinking"; data: string };
+
+// Signatures only verify with the model that produced them
+export interface SavedThinkingBlocks {
+  model: string;
+  blocks: ThinkingBlock[];
+}
+
+// Background command running in a project's sandbox (dev servers, workflow, agent shell commands)
+export interface SandboxProcessInfo {
+  id: string;
+  command: string;
+  source: 'agent' | 'workflow'; // Started by the agent's run_shell or by the workflow runner
+  status: 'running' | 'exited' | 'failed' | 'killed'; // failed: non-zero exit or lost connection
+  exitCode: number | null;
+  error?: string;
+  startedAt: string;
+  endedAt: string | null;
+}
+
+export interface ProcessLogLine {
+  seq: number; // Sequential per process
+  stream: 'stdout' | 'stderr';
+  text: string;
+  time: string;
+}
+
+// Live process log stream: a snapshot of every process on connect, then changes as they happen
+export type ProcessLogEvent =
+  | { type: 'snapshot'; processes: Array<SandboxProcessInfo & { lines: ProcessLogLine[] }> }
+  | { type: 'process'; process: SandboxProcessInfo }
+  | { type: 'log'; processId: string; lines: ProcessLogLine[] };
+
+// A message on the selected branch, with its alternatives for the branch selector
+export type BranchMessage = Message & {
+  siblingIds: string[]; // Messages with the same parent (including this one), oldest first
+  childCount: number;
+};
+
+export type ConversationSummary = typeof conversationSummaries.$inferSelect;
+export type InsertConversationSummary = z.infer<typeof insertConversationSummarySchema>;
+
+export type UsageRecord = typeof tokenUsage.$inferSelect;
+export type InsertUsageRecord = z.infer<typeof insertTokenUsageSchema>;
+
+export type Checkpoint = typeof checkpoints.$inferSelect;
+export type InsertCheckpoint = z.infer<typeof insertCheckpointSchema>;
+
+export type CheckpointFile = typeof checkpointFiles.$inferSelect;
+export type InsertCheckpointFile = z.infer<typeof insertCheckpointFileSchema>;
+
+// Aggregated usage returned by the usage API
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  thinkingTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  requests: number;
+}
+
+// Tool approval policy - whether the agent may run a tool call, must ask the user, or is blocked
+export type ToolPolicyAction = 'allow' | 'ask' | 'deny';
+
+export interface CommandRule {
+  pattern: string; // Matched against shell commands, e.g. "rm -rf" or "git push*"
+  action: ToolPolicyAction;
+}
+
+export interface ToolPolicy {
+  tools: Record<string, ToolPolicyAction>; // Tools not listed are allowed
+  commands: CommandRule[];
+}